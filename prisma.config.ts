@@ -3,6 +3,11 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 export default {
+  schema: 'prisma/schema.prisma',
+  migrations: {
+    path: 'prisma/migrations',
+    seed: 'tsx prisma/seed.ts',
+  },
   datasource: {
     url: process.env.DATABASE_URL || '',
   },
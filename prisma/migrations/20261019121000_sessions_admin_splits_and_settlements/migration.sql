@@ -0,0 +1,170 @@
+-- DropForeignKey
+ALTER TABLE "receipts" DROP CONSTRAINT "receipts_creator_id_fkey";
+
+-- AlterTable
+ALTER TABLE "sharezin_users" ADD COLUMN     "email_verified_at" TIMESTAMPTZ(6),
+ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'user',
+ADD COLUMN     "suspended_at" TIMESTAMPTZ(6),
+ADD COLUMN     "suspended_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "receipt_items" ADD COLUMN     "split_mode" VARCHAR NOT NULL DEFAULT 'none';
+
+-- AlterTable
+ALTER TABLE "pending_participants" ADD COLUMN     "resolved_at" TIMESTAMPTZ(6),
+ADD COLUMN     "status" VARCHAR NOT NULL DEFAULT 'pending';
+
+-- CreateTable
+CREATE TABLE "user_sessions" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "refresh_token_hash" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "revoked_at" TIMESTAMPTZ(6),
+    "last_used_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "account_tokens" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "used_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "admin_audit_logs" (
+    "id" UUID NOT NULL,
+    "admin_id" UUID,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT,
+    "details" JSONB,
+    "ip_address" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "receipt_item_shares" (
+    "id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "participant_id" UUID NOT NULL,
+    "weight" DECIMAL,
+    "amount" DECIMAL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "receipt_item_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "receipt_payments" (
+    "id" UUID NOT NULL,
+    "receipt_id" UUID NOT NULL,
+    "participant_id" UUID NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "receipt_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settlement_transfers" (
+    "id" UUID NOT NULL,
+    "receipt_id" UUID NOT NULL,
+    "from_participant_id" UUID NOT NULL,
+    "to_participant_id" UUID NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "is_paid" BOOLEAN NOT NULL DEFAULT false,
+    "paid_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "settlement_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "balance_payments" (
+    "id" UUID NOT NULL,
+    "from_user_id" UUID NOT NULL,
+    "to_user_id" UUID NOT NULL,
+    "group_id" UUID,
+    "amount" DECIMAL NOT NULL,
+    "note" TEXT,
+    "recorded_by_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "balance_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_sessions_user_id_idx" ON "user_sessions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "account_tokens_user_id_purpose_idx" ON "account_tokens"("user_id", "purpose");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_created_at_idx" ON "admin_audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_target_type_target_id_idx" ON "admin_audit_logs"("target_type", "target_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "receipt_item_shares_item_id_participant_id_key" ON "receipt_item_shares"("item_id", "participant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "receipt_payments_receipt_id_participant_id_key" ON "receipt_payments"("receipt_id", "participant_id");
+
+-- AddForeignKey
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_creator_id_fkey" FOREIGN KEY ("creator_id") REFERENCES "sharezin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "sharezin_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_tokens" ADD CONSTRAINT "account_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "sharezin_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "admin_audit_logs" ADD CONSTRAINT "admin_audit_logs_admin_id_fkey" FOREIGN KEY ("admin_id") REFERENCES "sharezin_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_item_shares" ADD CONSTRAINT "receipt_item_shares_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "receipt_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_item_shares" ADD CONSTRAINT "receipt_item_shares_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_payments" ADD CONSTRAINT "receipt_payments_receipt_id_fkey" FOREIGN KEY ("receipt_id") REFERENCES "receipts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_payments" ADD CONSTRAINT "receipt_payments_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_transfers" ADD CONSTRAINT "settlement_transfers_receipt_id_fkey" FOREIGN KEY ("receipt_id") REFERENCES "receipts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_transfers" ADD CONSTRAINT "settlement_transfers_from_participant_id_fkey" FOREIGN KEY ("from_participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_transfers" ADD CONSTRAINT "settlement_transfers_to_participant_id_fkey" FOREIGN KEY ("to_participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "balance_payments" ADD CONSTRAINT "balance_payments_from_user_id_fkey" FOREIGN KEY ("from_user_id") REFERENCES "sharezin_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "balance_payments" ADD CONSTRAINT "balance_payments_to_user_id_fkey" FOREIGN KEY ("to_user_id") REFERENCES "sharezin_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "balance_payments" ADD CONSTRAINT "balance_payments_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
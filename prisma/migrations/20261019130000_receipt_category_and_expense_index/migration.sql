@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "receipts" ADD COLUMN     "category" VARCHAR;
+
+-- CreateIndex
+CREATE INDEX "user_receipt_expenses_user_id_receipt_date_idx" ON "user_receipt_expenses"("user_id", "receipt_date");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "receipt_participants" ADD COLUMN     "is_closed" BOOLEAN NOT NULL DEFAULT false;
+
+-- Participação fechada passa a valer só no recibo em que foi fechada
+UPDATE "receipt_participants" rp
+SET "is_closed" = true
+FROM "participants" p
+WHERE p."id" = rp."participant_id" AND p."is_closed";
+
+-- AlterTable
+ALTER TABLE "participants" DROP COLUMN "is_closed";
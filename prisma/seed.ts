@@ -0,0 +1,206 @@
+import { Prisma } from '@prisma/client';
+import { disconnectDatabase, prisma } from '../src/config/database';
+import { addItems, closeReceipt, createReceipt } from '../src/services/receipts';
+import { PlanFeatures } from '../src/types';
+import { hashPassword } from '../src/utils/password';
+import { FREE_PLAN_NAME, FREE_TIER } from '../src/utils/plans';
+
+/**
+ * Seed determinístico: pode ser executado várias vezes (npm run prisma:seed).
+ * Os planos padrão são sempre sincronizados; os dados de demonstração só são
+ * criados fora de produção e apenas quando ainda não existem.
+ */
+
+const DEFAULT_PLANS: Array<{
+  name: string;
+  displayName: string;
+  description: string;
+  priceMonthly: number;
+  maxParticipantsPerReceipt: number | null;
+  maxReceiptsPerMonth: number | null;
+  maxHistoryReceipts: number | null;
+  features: PlanFeatures;
+}> = [
+  {
+    ...FREE_TIER,
+    description: 'Para dividir contas de vez em quando',
+    priceMonthly: 0,
+  },
+  {
+    name: 'pro',
+    displayName: 'Pro',
+    description: 'Recibos e participantes ilimitados, dashboard e exportações',
+    priceMonthly: 9.9,
+    maxParticipantsPerReceipt: null,
+    maxReceiptsPerMonth: null,
+    maxHistoryReceipts: null,
+    features: {
+      dashboard: true,
+      analytics: true,
+      pdfExport: true,
+      excelExport: true,
+    },
+  },
+];
+
+// Senha de todos os usuários de demonstração
+const DEMO_PASSWORD = 'sharezin123';
+
+const DEMO_USERS = [
+  { email: 'admin@sharezin.dev', name: 'Admin', role: 'admin', plan: 'pro' },
+  { email: 'ana@sharezin.dev', name: 'Ana', role: 'user', plan: 'pro' },
+  { email: 'bruno@sharezin.dev', name: 'Bruno', role: 'user', plan: FREE_PLAN_NAME },
+  { email: 'carla@sharezin.dev', name: 'Carla', role: 'user', plan: FREE_PLAN_NAME },
+] as const;
+
+type DemoEmail = (typeof DEMO_USERS)[number]['email'];
+
+const DEMO_RECEIPTS: Array<{
+  title: string;
+  creator: DemoEmail;
+  participants: DemoEmail[];
+  serviceChargePercent: number;
+  cover: number;
+  items: Array<{ name: string; price: number; quantity: number; consumer: DemoEmail }>;
+  closed: boolean;
+}> = [
+  {
+    title: 'Pizza de sexta',
+    creator: 'ana@sharezin.dev',
+    participants: ['bruno@sharezin.dev', 'carla@sharezin.dev'],
+    serviceChargePercent: 10,
+    cover: 0,
+    items: [
+      { name: 'Pizza grande', price: 79.9, quantity: 1, consumer: 'ana@sharezin.dev' },
+      { name: 'Refrigerante 2L', price: 14, quantity: 1, consumer: 'bruno@sharezin.dev' },
+      { name: 'Cerveja', price: 12.5, quantity: 3, consumer: 'carla@sharezin.dev' },
+    ],
+    closed: false,
+  },
+  {
+    title: 'Churrasco do fim de semana',
+    creator: 'bruno@sharezin.dev',
+    participants: ['ana@sharezin.dev'],
+    serviceChargePercent: 0,
+    cover: 20,
+    items: [
+      { name: 'Picanha', price: 89.9, quantity: 2, consumer: 'bruno@sharezin.dev' },
+      { name: 'Carvão', price: 25, quantity: 1, consumer: 'ana@sharezin.dev' },
+    ],
+    closed: true,
+  },
+];
+
+async function seedPlans() {
+  for (const { name, ...plan } of DEFAULT_PLANS) {
+    const data = { ...plan, features: plan.features as Prisma.InputJsonValue, isActive: true };
+
+    await prisma.plan.upsert({
+      where: { name },
+      create: { name, ...data },
+      update: data,
+    });
+  }
+
+  console.log(`✔ Planos: ${DEFAULT_PLANS.map((plan) => plan.name).join(', ')}`);
+}
+
+async function seedDemoUsers() {
+  const passwordHash = await hashPassword(DEMO_PASSWORD);
+  const users = new Map<DemoEmail, { id: string }>();
+
+  for (const { email, name, role, plan: planName } of DEMO_USERS) {
+    const user = await prisma.sharezinUser.upsert({
+      where: { email },
+      create: { email, name, role, passwordHash, emailVerifiedAt: new Date() },
+      update: { name, role, passwordHash, suspendedAt: null, suspendedReason: null },
+    });
+    users.set(email, user);
+
+    const hasSubscription = await prisma.userSubscription.findFirst({
+      where: { userId: user.id, status: 'active' },
+    });
+
+    if (!hasSubscription) {
+      const plan = await prisma.plan.findUniqueOrThrow({ where: { name: planName } });
+      await prisma.userSubscription.create({
+        data: { userId: user.id, planId: plan.id, status: 'active' },
+      });
+    }
+  }
+
+  console.log(`✔ Usuários de demonstração (senha "${DEMO_PASSWORD}"): ${DEMO_USERS.map((user) => user.email).join(', ')}`);
+
+  return users;
+}
+
+async function seedDemoReceipts(users: Map<DemoEmail, { id: string }>) {
+  for (const demo of DEMO_RECEIPTS) {
+    const creator = users.get(demo.creator)!;
+
+    const existing = await prisma.receipt.findFirst({
+      where: { creatorId: creator.id, title: demo.title },
+    });
+
+    if (existing) {
+      continue;
+    }
+
+    const receipt = await createReceipt(creator.id, {
+      title: demo.title,
+      serviceChargePercent: demo.serviceChargePercent,
+      cover: demo.cover,
+    });
+
+    // Participantes entram direto, sem o fluxo de solicitação/aprovação
+    const participantIds = new Map<DemoEmail, string>([[demo.creator, receipt.participants[0].id]]);
+
+    for (const email of demo.participants) {
+      const user = users.get(email)!;
+      const name = DEMO_USERS.find((demoUser) => demoUser.email === email)!.name;
+
+      const participant =
+        (await prisma.participant.findFirst({ where: { userId: user.id, groupId: null } })) ??
+        (await prisma.participant.create({ data: { name, userId: user.id } }));
+
+      await prisma.receiptParticipant.create({
+        data: { receiptId: receipt.id, participantId: participant.id },
+      });
+      participantIds.set(email, participant.id);
+    }
+
+    await addItems(
+      receipt.id,
+      creator.id,
+      demo.items.map(({ consumer, ...item }) => ({
+        ...item,
+        participantId: participantIds.get(consumer),
+      }))
+    );
+
+    if (demo.closed) {
+      await closeReceipt(receipt.id, creator.id);
+    }
+  }
+
+  console.log(`✔ Recibos de demonstração: ${DEMO_RECEIPTS.map((receipt) => receipt.title).join(', ')}`);
+}
+
+async function main() {
+  await seedPlans();
+
+  if (process.env.NODE_ENV === 'production') {
+    console.log('NODE_ENV=production: dados de demonstração não foram criados');
+    return;
+  }
+
+  const users = await seedDemoUsers();
+  await seedDemoReceipts(users);
+}
+
+main()
+  .catch((error) => {
+    console.error('Erro ao executar o seed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => disconnectDatabase());
@@ -0,0 +1,39 @@
+/**
+ * Confere se todas as rotas registradas aparecem na especificação OpenAPI servida em /api/docs
+ * e se documentam a resposta.
+ *
+ * Uso:
+ *   npm run openapi:check
+ */
+
+async function main() {
+  // O banco não é acessado: a URL só precisa existir para o Prisma Client ser criado
+  process.env.DATABASE_URL ||= 'postgresql://localhost:5432/sharezin';
+
+  // require (e não import dinâmico) para usar a mesma instância dos módulos que o servidor carrega
+  const { buildServer } = require('../src/server') as typeof import('../src/server');
+  const { findUndocumentedRoutes } =
+    require('../src/schemas/openapi') as typeof import('../src/schemas/openapi');
+
+  const server = await buildServer();
+  await server.ready();
+
+  const problems = findUndocumentedRoutes(server);
+  await server.close();
+
+  if (problems.length > 0) {
+    console.error('❌ Rotas fora da especificação OpenAPI:');
+    for (const problem of problems) {
+      console.error(`  - ${problem}`);
+    }
+    process.exit(1);
+  }
+
+  console.log('✅ Todas as rotas estão na especificação OpenAPI');
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Erro ao verificar a especificação OpenAPI:', error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Gera os JSON schemas das rotas a partir dos tipos de src/types/index.ts.
+ *
+ * Uso:
+ *   npm run schemas:generate   -> reescreve src/schemas/types.json
+ *   npm run schemas:check      -> falha se o arquivo gerado estiver desatualizado
+ */
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { createGenerator } from 'ts-json-schema-generator';
+
+const ROOT_DIR = path.join(__dirname, '..');
+const TYPES_PATH = path.join(ROOT_DIR, 'src', 'types', 'index.ts');
+const OUTPUT_PATH = path.join(ROOT_DIR, 'src', 'schemas', 'types.json');
+
+// Tipos que não representam JSON trafegado pela API (dependem do Fastify ou são genéricos)
+const EXCLUDED_TYPES = new Set(['AuthenticatedRequest', 'ReceiptEvent', 'ReceiptEventPayloads']);
+
+/**
+ * Lista os tipos exportados (interfaces e type aliases) do arquivo de tipos
+ */
+function listExportedTypes(): string[] {
+  const source = ts.createSourceFile(
+    TYPES_PATH,
+    fs.readFileSync(TYPES_PATH, 'utf8'),
+    ts.ScriptTarget.ES2020,
+    true
+  );
+  const names: string[] = [];
+
+  for (const statement of source.statements) {
+    if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement)) {
+      continue;
+    }
+    const isExported = statement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    );
+    if (isExported && !EXCLUDED_TYPES.has(statement.name.text)) {
+      names.push(statement.name.text);
+    }
+  }
+
+  return names;
+}
+
+function generate(): string {
+  const generator = createGenerator({
+    path: TYPES_PATH,
+    tsconfig: path.join(ROOT_DIR, 'tsconfig.json'),
+    skipTypeCheck: true,
+    additionalProperties: false,
+    jsDoc: 'extended',
+    expose: 'export',
+    topRef: true,
+  });
+
+  const definitions: Record<string, unknown> = {};
+  for (const name of listExportedTypes()) {
+    const schema = generator.createSchema(name);
+    Object.assign(definitions, schema.definitions);
+  }
+
+  // Definições em ordem alfabética; as propriedades seguem a ordem de declaração dos tipos,
+  // que é a ordem em que aparecem nas respostas serializadas
+  const sorted = Object.fromEntries(
+    Object.keys(definitions)
+      .sort()
+      .map((name) => [name, definitions[name]])
+  );
+
+  return JSON.stringify({ definitions: sorted }, null, 2) + '\n';
+}
+
+const output = generate();
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '';
+  if (current !== output) {
+    console.error('❌ src/schemas/types.json está desatualizado. Rode `npm run schemas:generate`.');
+    process.exit(1);
+  }
+  console.log('✅ src/schemas/types.json está atualizado');
+} else {
+  fs.writeFileSync(OUTPUT_PATH, output);
+  console.log(`✅ Schemas gerados em ${path.relative(ROOT_DIR, OUTPUT_PATH)}`);
+}
@@ -16,8 +16,11 @@ if (!connectionString) {
   throw new Error('DATABASE_URL environment variable is not set');
 }
 
-// Criar pool de conexões PostgreSQL
-const pool = new Pool({ connectionString });
+// Criar pool de conexões PostgreSQL (DATABASE_POOL_SIZE limita as conexões simultâneas)
+const pool = new Pool({
+  connectionString,
+  max: process.env.DATABASE_POOL_SIZE ? parseInt(process.env.DATABASE_POOL_SIZE, 10) : undefined,
+});
 
 // Criar adapter para Prisma 7
 const adapter = new PrismaPg(pool);
@@ -30,3 +33,11 @@ export const prisma =
   });
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+
+/**
+ * Encerra o Prisma e o pool (o adapter não fecha um pool recebido de fora)
+ */
+export async function disconnectDatabase() {
+  await prisma.$disconnect();
+  await pool.end();
+}
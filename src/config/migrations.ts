@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { prisma } from './database';
+
+// Migrações versionadas (prisma/migrations/<timestamp>_<nome>/migration.sql)
+export const MIGRATIONS_DIR = path.join(__dirname, '..', '..', 'prisma', 'migrations');
+
+/**
+ * Nomes das migrações versionadas no repositório, em ordem de aplicação
+ */
+export function listMigrations(): string[] {
+  return fs
+    .readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Recusa subir o servidor contra um banco sem todas as migrações aplicadas
+ * (tabela _prisma_migrations ausente, migração pendente ou que falhou no meio)
+ */
+export async function assertDatabaseMigrated() {
+  const [{ exists }] = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT to_regclass('_prisma_migrations') IS NOT NULL AS "exists"
+  `;
+
+  if (!exists) {
+    throw new Error(
+      'O banco não tem migrações aplicadas. Rode "npm run prisma:deploy" (ou, em um banco criado com db push, marque a migração inicial com "prisma migrate resolve --applied")'
+    );
+  }
+
+  const rows = await prisma.$queryRaw<
+    Array<{ migration_name: string; finished_at: Date | null; rolled_back_at: Date | null }>
+  >`
+    SELECT migration_name, finished_at, rolled_back_at FROM _prisma_migrations
+  `;
+
+  const failed = rows.filter((row) => !row.finished_at && !row.rolled_back_at);
+  if (failed.length > 0) {
+    throw new Error(
+      `Migrações com falha no banco: ${failed.map((row) => row.migration_name).join(', ')}. Corrija e rode "prisma migrate resolve"`
+    );
+  }
+
+  const applied = new Set(
+    rows.filter((row) => row.finished_at && !row.rolled_back_at).map((row) => row.migration_name)
+  );
+  const pending = listMigrations().filter((name) => !applied.has(name));
+
+  if (pending.length > 0) {
+    throw new Error(`Migrações pendentes: ${pending.join(', ')}. Rode "npm run prisma:deploy"`);
+  }
+}
@@ -1,5 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { AuthenticatedRequest } from '../types';
+import { isSessionActive } from '../utils/sessions';
+import { AppError } from '../utils/errors';
 
 export const authenticate = async (
   request: FastifyRequest,
@@ -7,19 +8,21 @@ export const authenticate = async (
 ): Promise<void> => {
   try {
     await request.jwtVerify();
-    
-    // Adicionar usuário ao request
-    const payload = request.user as { id: string; email: string };
-    request.userPayload = {
-      id: payload.id,
-      email: payload.email,
-    };
   } catch (error) {
-    return reply.status(401).send({
-      error: {
-        message: 'Invalid or expired token',
-        statusCode: 401,
-      },
-    });
+    throw new AppError('INVALID_ACCESS_TOKEN');
   }
+
+  // Adicionar usuário ao request
+  const payload = request.user as { id: string; email: string; sid?: string };
+
+  // Tokens sem sessão (emitidos antes das sessões) ou de sessões encerradas não valem mais
+  if (!payload.sid || !(await isSessionActive(payload.sid, payload.id))) {
+    throw new AppError('SESSION_REVOKED');
+  }
+
+  request.userPayload = {
+    id: payload.id,
+    email: payload.email,
+    sessionId: payload.sid,
+  };
 };
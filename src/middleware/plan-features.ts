@@ -0,0 +1,21 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PlanFeature } from '../types';
+import { assertPlanFeature } from '../utils/plans';
+import { AppError } from '../utils/errors';
+
+/**
+ * Middleware que libera a rota apenas para planos com o recurso informado
+ * (402 com sugestão de upgrade quando o plano do usuário não o inclui)
+ */
+export function requirePlanFeature(feature: PlanFeature) {
+  return async function checkPlanFeature(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    if (!request.userPayload) {
+      throw new AppError('UNAUTHENTICATED');
+    }
+
+    await assertPlanFeature(request.userPayload.id, feature);
+  };
+}
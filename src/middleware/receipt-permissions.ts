@@ -1,6 +1,8 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import { checkReceiptAccess } from '../utils/receipts';
+import { assertReceiptInHistory } from '../utils/plans';
+import { AppError } from '../utils/errors';
 
 /**
  * Middleware para verificar se o usuário é o criador do recibo
@@ -10,12 +12,7 @@ export async function checkIsCreator(
   reply: FastifyReply
 ): Promise<void> {
   if (!request.userPayload) {
-    return reply.status(401).send({
-      error: {
-        message: 'Não autenticado',
-        statusCode: 401,
-      },
-    });
+    throw new AppError('UNAUTHENTICATED');
   }
 
   const { id } = request.params;
@@ -24,21 +21,11 @@ export async function checkIsCreator(
   const access = await checkReceiptAccess(userId, id);
 
   if (!access.hasAccess) {
-    return reply.status(404).send({
-      error: {
-        message: 'Recibo não encontrado',
-        statusCode: 404,
-      },
-    });
+    throw new AppError('RECEIPT_NOT_FOUND');
   }
 
   if (!access.isCreator) {
-    return reply.status(403).send({
-      error: {
-        message: 'Apenas o criador pode realizar esta ação',
-        statusCode: 403,
-      },
-    });
+    throw new AppError('RECEIPT_CREATOR_ONLY');
   }
 }
 
@@ -50,12 +37,7 @@ export async function checkIsParticipant(
   reply: FastifyReply
 ): Promise<void> {
   if (!request.userPayload) {
-    return reply.status(401).send({
-      error: {
-        message: 'Não autenticado',
-        statusCode: 401,
-      },
-    });
+    throw new AppError('UNAUTHENTICATED');
   }
 
   const { id } = request.params;
@@ -64,12 +46,7 @@ export async function checkIsParticipant(
   const access = await checkReceiptAccess(userId, id);
 
   if (!access.hasAccess) {
-    return reply.status(403).send({
-      error: {
-        message: 'Sem permissão para acessar este recibo',
-        statusCode: 403,
-      },
-    });
+    throw new AppError('RECEIPT_ACCESS_DENIED');
   }
 }
 
@@ -87,21 +64,11 @@ export async function checkReceiptNotClosed(
   });
 
   if (!receipt) {
-    return reply.status(404).send({
-      error: {
-        message: 'Recibo não encontrado',
-        statusCode: 404,
-      },
-    });
+    throw new AppError('RECEIPT_NOT_FOUND');
   }
 
   if (receipt.isClosed) {
-    return reply.status(400).send({
-      error: {
-        message: 'Não é possível modificar um recibo fechado',
-        statusCode: 400,
-      },
-    });
+    throw new AppError('RECEIPT_CLOSED');
   }
 }
 
@@ -113,7 +80,6 @@ export async function checkIsCreatorAndNotClosed(
   reply: FastifyReply
 ): Promise<void> {
   await checkIsCreator(request, reply);
-  if (reply.sent) return;
   await checkReceiptNotClosed(request, reply);
 }
 
@@ -125,6 +91,16 @@ export async function checkIsParticipantAndNotClosed(
   reply: FastifyReply
 ): Promise<void> {
   await checkIsParticipant(request, reply);
-  if (reply.sent) return;
   await checkReceiptNotClosed(request, reply);
 }
+
+/**
+ * Middleware combinado: verifica se é participante E o recibo está no histórico do plano
+ */
+export async function checkIsParticipantInHistory(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  await checkIsParticipant(request, reply);
+  await assertReceiptInHistory(request.userPayload!.id, request.params.id);
+}
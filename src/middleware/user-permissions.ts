@@ -0,0 +1,36 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { isAdmin } from '../utils/users';
+import { AppError } from '../utils/errors';
+
+/**
+ * Middleware para verificar se o usuário é administrador
+ */
+export async function checkIsAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!request.userPayload) {
+    throw new AppError('UNAUTHENTICATED');
+  }
+
+  if (!(await isAdmin(request.userPayload.id))) {
+    throw new AppError('ADMIN_ONLY');
+  }
+}
+
+/**
+ * Middleware para verificar se a conta acessada (:id) é do próprio usuário ou se ele é administrador
+ */
+export async function checkIsSelfOrAdmin(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  if (!request.userPayload) {
+    throw new AppError('UNAUTHENTICATED');
+  }
+
+  if (request.params.id === request.userPayload.id) {
+    return;
+  }
+
+  if (!(await isAdmin(request.userPayload.id))) {
+    throw new AppError('USER_ACCESS_DENIED');
+  }
+}
@@ -0,0 +1,877 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { checkIsAdmin } from '../middleware/user-permissions';
+import {
+  FREE_PLAN_NAME,
+  activeSubscriptionWhere,
+  formatPlanResponse,
+  parsePlanInput,
+} from '../utils/plans';
+import {
+  formatSubscriptionResponse,
+  grantSubscription,
+  revokeSubscription,
+} from '../utils/subscriptions';
+import { formatReceiptResponse } from '../utils/receipts';
+import { revokeUserSessions } from '../utils/sessions';
+import { formatAuditLogResponse, recordAdminAction } from '../utils/audit';
+import {
+  formatAdminReceiptSummary,
+  formatAdminUserResponse,
+  getPlatformMetrics,
+} from '../utils/admin';
+import {
+  CreatePlanDto,
+  GrantSubscriptionDto,
+  SuspendUserDto,
+  UpdatePlanDto,
+  UpdateUserRoleDto,
+  AdminAuditLogsQuery,
+  AdminReceiptParams,
+  AdminReceiptsQuery,
+  AdminUsersQuery,
+  PaginationQuery,
+  PlanParams,
+  UserIdParams,
+  UserSubscriptionParams,
+} from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Lê page/limit da query string
+ */
+function getPagination(query: PaginationQuery) {
+  const page = Math.max(query.page || 1, 1);
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+function formatPagination(page: number, limit: number, total: number) {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasMore: page < totalPages,
+  };
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // GET /api/admin/metrics - Métricas agregadas da plataforma
+  fastify.get(
+    '/metrics',
+    {
+      schema: {
+        response: { 200: ref('PlatformMetricsResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const metrics = await getPlatformMetrics();
+
+      return reply.send({
+        metrics,
+      });
+    }
+  );
+
+  // GET /api/admin/plans - Listar todos os planos (inclusive inativos)
+  fastify.get(
+    '/plans',
+    {
+      schema: {
+        response: { 200: ref('AdminPlanListResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const plans = await prisma.plan.findMany({
+        include: {
+          _count: {
+            select: { subscriptions: true },
+          },
+        },
+        orderBy: {
+          priceMonthly: 'asc',
+        },
+      });
+
+      return reply.send({
+        plans: plans.map((plan) => ({
+          ...formatPlanResponse(plan),
+          subscriptionCount: plan._count.subscriptions,
+        })),
+      });
+    }
+  );
+
+  // POST /api/admin/plans - Criar plano
+  fastify.post<{ Body: CreatePlanDto }>(
+    '/plans',
+    {
+      schema: {
+        body: ref('CreatePlanDto'),
+        response: { 201: ref('PlanResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Body: CreatePlanDto }>, reply: FastifyReply) => {
+      const data = parsePlanInput(request.body);
+
+      const existing = await prisma.plan.findUnique({
+        where: { name: data.name },
+      });
+
+      if (existing) {
+        throw new AppError('PLAN_NAME_IN_USE');
+      }
+
+      const plan = await prisma.$transaction(async (tx) => {
+        const created = await tx.plan.create({ data });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'plan.create',
+            targetType: 'plan',
+            targetId: created.id,
+            details: { plan: formatPlanResponse(created) },
+          },
+          tx
+        );
+
+        return created;
+      });
+
+      return reply.status(201).send({
+        plan: formatPlanResponse(plan),
+      });
+    }
+  );
+
+  // PUT /api/admin/plans/:planId - Atualizar plano (limites, features, preço, ativação)
+  fastify.put<{ Params: PlanParams; Body: UpdatePlanDto }>(
+    '/plans/:planId',
+    {
+      schema: {
+        params: ref('PlanParams'),
+        body: ref('UpdatePlanDto'),
+        response: { 200: ref('PlanResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Params: PlanParams; Body: UpdatePlanDto }>,
+      reply: FastifyReply
+    ) => {
+      const { planId } = request.params;
+      const data = parsePlanInput(request.body, true);
+
+      const existing = await prisma.plan.findUnique({
+        where: { id: planId },
+      });
+
+      if (!existing) {
+        throw new AppError('PLAN_NOT_FOUND');
+      }
+
+      // O plano gratuito é o padrão de quem não tem assinatura
+      if (
+        existing.name === FREE_PLAN_NAME &&
+        ((data.name !== undefined && data.name !== FREE_PLAN_NAME) || data.isActive === false)
+      ) {
+        throw new AppError('FREE_PLAN_NOT_EDITABLE');
+      }
+
+      if (data.name !== undefined && data.name !== existing.name) {
+        const nameInUse = await prisma.plan.findUnique({
+          where: { name: data.name },
+        });
+
+        if (nameInUse) {
+          throw new AppError('PLAN_NAME_IN_USE');
+        }
+      }
+
+      const plan = await prisma.$transaction(async (tx) => {
+        const updated = await tx.plan.update({
+          where: { id: planId },
+          data,
+        });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'plan.update',
+            targetType: 'plan',
+            targetId: planId,
+            details: { before: formatPlanResponse(existing), changes: request.body },
+          },
+          tx
+        );
+
+        return updated;
+      });
+
+      return reply.send({
+        plan: formatPlanResponse(plan),
+      });
+    }
+  );
+
+  // DELETE /api/admin/plans/:planId - Excluir plano (desativa se já tiver assinaturas)
+  fastify.delete<{ Params: PlanParams }>(
+    '/plans/:planId',
+    {
+      schema: {
+        params: ref('PlanParams'),
+        response: { 200: ref('DeletePlanResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Params: PlanParams }>, reply: FastifyReply) => {
+      const { planId } = request.params;
+
+      const plan = await prisma.plan.findUnique({
+        where: { id: planId },
+        include: {
+          _count: {
+            select: { subscriptions: true },
+          },
+        },
+      });
+
+      if (!plan) {
+        throw new AppError('PLAN_NOT_FOUND');
+      }
+
+      if (plan.name === FREE_PLAN_NAME) {
+        throw new AppError('FREE_PLAN_NOT_DELETABLE');
+      }
+
+      // Assinaturas antigas referenciam o plano: ele só pode ser desativado
+      if (plan._count.subscriptions > 0) {
+        const deactivated = await prisma.$transaction(async (tx) => {
+          const updated = await tx.plan.update({
+            where: { id: planId },
+            data: { isActive: false },
+          });
+
+          await recordAdminAction(
+            request,
+            {
+              action: 'plan.deactivate',
+              targetType: 'plan',
+              targetId: planId,
+              details: { subscriptionCount: plan._count.subscriptions },
+            },
+            tx
+          );
+
+          return updated;
+        });
+
+        return reply.send({
+          message: 'Plano possui assinaturas e foi desativado',
+          plan: formatPlanResponse(deactivated),
+          deactivated: true,
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.plan.delete({
+          where: { id: planId },
+        });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'plan.delete',
+            targetType: 'plan',
+            targetId: planId,
+            details: { plan: formatPlanResponse(plan) },
+          },
+          tx
+        );
+      });
+
+      return reply.send({
+        message: 'Plano excluído com sucesso',
+        deactivated: false,
+      });
+    }
+  );
+
+  // GET /api/admin/users - Listar usuários (busca por nome/email, filtro de suspensos)
+  fastify.get<{ Querystring: AdminUsersQuery }>(
+    '/users',
+    {
+      schema: {
+        querystring: ref('AdminUsersQuery'),
+        response: { 200: ref('AdminUserListResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Querystring: AdminUsersQuery }>,
+      reply: FastifyReply
+    ) => {
+      const { page, limit, skip } = getPagination(request.query);
+      const search = request.query.search?.trim();
+
+      const where: Prisma.SharezinUserWhereInput = {
+        ...(search
+          ? {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { email: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {}),
+        ...(request.query.suspended === true ? { suspendedAt: { not: null } } : {}),
+        ...(request.query.suspended === false ? { suspendedAt: null } : {}),
+      };
+
+      const [users, total] = await Promise.all([
+        prisma.sharezinUser.findMany({
+          where,
+          include: {
+            subscriptions: {
+              where: activeSubscriptionWhere(),
+              include: {
+                plan: true,
+              },
+              orderBy: {
+                startedAt: 'desc',
+              },
+              take: 1,
+            },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: limit,
+          skip,
+        }),
+        prisma.sharezinUser.count({ where }),
+      ]);
+
+      return reply.send({
+        users: users.map((user) =>
+          formatAdminUserResponse(user, user.subscriptions[0]?.plan || null)
+        ),
+        pagination: formatPagination(page, limit, total),
+      });
+    }
+  );
+
+  // GET /api/admin/users/:userId - Detalhes do usuário (assinaturas e contagens)
+  fastify.get<{ Params: UserIdParams }>(
+    '/users/:userId',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        response: { 200: ref('AdminUserDetailResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Params: UserIdParams }>, reply: FastifyReply) => {
+      const { userId } = request.params;
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+        include: {
+          subscriptions: {
+            include: {
+              plan: true,
+            },
+            orderBy: {
+              startedAt: 'desc',
+            },
+          },
+          _count: {
+            select: {
+              receiptsAsCreator: true,
+              participants: true,
+              groups: true,
+            },
+          },
+        },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      const [currentSubscription, activeSessions] = await Promise.all([
+        prisma.userSubscription.findFirst({
+          where: activeSubscriptionWhere(userId),
+          include: {
+            plan: true,
+          },
+          orderBy: {
+            startedAt: 'desc',
+          },
+        }),
+        prisma.userSession.count({
+          where: {
+            userId,
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+        }),
+      ]);
+
+      await recordAdminAction(request, {
+        action: 'user.view',
+        targetType: 'user',
+        targetId: userId,
+      });
+
+      return reply.send({
+        user: formatAdminUserResponse(user, currentSubscription?.plan || null),
+        subscriptions: user.subscriptions.map(formatSubscriptionResponse),
+        stats: {
+          receiptsCreated: user._count.receiptsAsCreator,
+          participations: user._count.participants,
+          groups: user._count.groups,
+          activeSessions,
+        },
+      });
+    }
+  );
+
+  // PATCH /api/admin/users/:userId/role - Alterar papel do usuário
+  fastify.patch<{ Params: UserIdParams; Body: UpdateUserRoleDto }>(
+    '/users/:userId/role',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        body: ref('UpdateUserRoleDto'),
+        response: { 200: ref('AdminUserResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Params: UserIdParams; Body: UpdateUserRoleDto }>,
+      reply: FastifyReply
+    ) => {
+      const { userId } = request.params;
+      const { role } = request.body;
+
+      if (userId === request.userPayload?.id) {
+        throw new AppError('CANNOT_CHANGE_OWN_ROLE');
+      }
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const result = await tx.sharezinUser.update({
+          where: { id: userId },
+          data: { role },
+        });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'user.role_update',
+            targetType: 'user',
+            targetId: userId,
+            details: { from: user.role, to: role },
+          },
+          tx
+        );
+
+        return result;
+      });
+
+      return reply.send({
+        user: formatAdminUserResponse(updated),
+      });
+    }
+  );
+
+  // POST /api/admin/users/:userId/suspend - Suspender usuário (encerra as sessões)
+  fastify.post<{ Params: UserIdParams; Body: SuspendUserDto }>(
+    '/users/:userId/suspend',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        body: ref('SuspendUserDto'),
+        response: { 200: ref('AdminUserResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Params: UserIdParams; Body: SuspendUserDto }>,
+      reply: FastifyReply
+    ) => {
+      const { userId } = request.params;
+      const reason = request.body?.reason?.trim() || null;
+
+      if (userId === request.userPayload?.id) {
+        throw new AppError('CANNOT_SUSPEND_SELF');
+      }
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      if (user.suspendedAt) {
+        throw new AppError('USER_ALREADY_SUSPENDED');
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const result = await tx.sharezinUser.update({
+          where: { id: userId },
+          data: {
+            suspendedAt: new Date(),
+            suspendedReason: reason,
+          },
+        });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'user.suspend',
+            targetType: 'user',
+            targetId: userId,
+            details: { reason },
+          },
+          tx
+        );
+
+        return result;
+      });
+
+      await revokeUserSessions(userId);
+
+      return reply.send({
+        user: formatAdminUserResponse(updated),
+      });
+    }
+  );
+
+  // POST /api/admin/users/:userId/unsuspend - Reativar usuário suspenso
+  fastify.post<{ Params: UserIdParams }>(
+    '/users/:userId/unsuspend',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        response: { 200: ref('AdminUserResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Params: UserIdParams }>, reply: FastifyReply) => {
+      const { userId } = request.params;
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      if (!user.suspendedAt) {
+        throw new AppError('USER_NOT_SUSPENDED');
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const result = await tx.sharezinUser.update({
+          where: { id: userId },
+          data: {
+            suspendedAt: null,
+            suspendedReason: null,
+          },
+        });
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'user.unsuspend',
+            targetType: 'user',
+            targetId: userId,
+            details: { suspendedAt: user.suspendedAt, reason: user.suspendedReason },
+          },
+          tx
+        );
+
+        return result;
+      });
+
+      return reply.send({
+        user: formatAdminUserResponse(updated),
+      });
+    }
+  );
+
+  // POST /api/admin/users/:userId/subscriptions - Conceder plano ao usuário
+  fastify.post<{ Params: UserIdParams; Body: GrantSubscriptionDto }>(
+    '/users/:userId/subscriptions',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        body: ref('GrantSubscriptionDto'),
+        response: { 201: ref('SubscriptionResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Params: UserIdParams; Body: GrantSubscriptionDto }>,
+      reply: FastifyReply
+    ) => {
+      const { userId } = request.params;
+      const { planId, durationMonths } = request.body || ({} as GrantSubscriptionDto);
+
+      if (
+        durationMonths !== undefined &&
+        durationMonths !== null &&
+        (!Number.isInteger(durationMonths) || durationMonths < 1)
+      ) {
+        throw new AppError('INVALID_GRANT_DURATION', {}, { field: 'durationMonths' });
+      }
+
+      const subscription = await prisma.$transaction(async (tx) => {
+        const granted = await grantSubscription(userId, planId, durationMonths, tx);
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'subscription.grant',
+            targetType: 'subscription',
+            targetId: granted.id,
+            details: { userId, planId, durationMonths: durationMonths ?? null },
+          },
+          tx
+        );
+
+        return granted;
+      });
+
+      return reply.status(201).send({
+        subscription: formatSubscriptionResponse(subscription),
+      });
+    }
+  );
+
+  // DELETE /api/admin/users/:userId/subscriptions/:subscriptionId - Revogar assinatura imediatamente
+  fastify.delete<{ Params: UserSubscriptionParams }>(
+    '/users/:userId/subscriptions/:subscriptionId',
+    {
+      schema: {
+        params: ref('UserSubscriptionParams'),
+        response: { 200: ref('SubscriptionResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Params: UserSubscriptionParams }>,
+      reply: FastifyReply
+    ) => {
+      const { userId, subscriptionId } = request.params;
+
+      const subscription = await prisma.$transaction(async (tx) => {
+        const revoked = await revokeSubscription(userId, subscriptionId, tx);
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'subscription.revoke',
+            targetType: 'subscription',
+            targetId: subscriptionId,
+            details: { userId, planId: revoked.planId },
+          },
+          tx
+        );
+
+        return revoked;
+      });
+
+      return reply.send({
+        subscription: formatSubscriptionResponse(subscription),
+      });
+    }
+  );
+
+  // GET /api/admin/receipts - Listar recibos (somente leitura, para suporte)
+  fastify.get<{ Querystring: AdminReceiptsQuery }>(
+    '/receipts',
+    {
+      schema: {
+        querystring: ref('AdminReceiptsQuery'),
+        response: { 200: ref('AdminReceiptListResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Querystring: AdminReceiptsQuery }>,
+      reply: FastifyReply
+    ) => {
+      const { page, limit, skip } = getPagination(request.query);
+      const { userId, status } = request.query;
+      const search = request.query.search?.trim();
+
+      const where: Prisma.ReceiptWhereInput = {
+        ...(userId
+          ? {
+              OR: [
+                { creatorId: userId },
+                { receiptParticipants: { some: { participant: { userId } } } },
+              ],
+            }
+          : {}),
+        ...(search ? { title: { contains: search, mode: 'insensitive' } } : {}),
+        ...(status === 'open' ? { isClosed: false } : {}),
+        ...(status === 'closed' ? { isClosed: true } : {}),
+      };
+
+      const [receipts, total] = await Promise.all([
+        prisma.receipt.findMany({
+          where,
+          include: {
+            creator: true,
+            _count: {
+              select: { receiptParticipants: true },
+            },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: limit,
+          skip,
+        }),
+        prisma.receipt.count({ where }),
+      ]);
+
+      await recordAdminAction(request, {
+        action: 'receipt.list',
+        targetType: 'receipt',
+        details: { userId, search, status, page },
+      });
+
+      return reply.send({
+        receipts: receipts.map(formatAdminReceiptSummary),
+        pagination: formatPagination(page, limit, total),
+      });
+    }
+  );
+
+  // GET /api/admin/receipts/:receiptId - Ver recibo completo (somente leitura)
+  fastify.get<{ Params: AdminReceiptParams }>(
+    '/receipts/:receiptId',
+    {
+      schema: {
+        params: ref('AdminReceiptParams'),
+        response: { 200: ref('AdminReceiptDetailResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Params: AdminReceiptParams }>, reply: FastifyReply) => {
+      const { receiptId } = request.params;
+
+      const receipt = await prisma.receipt.findUnique({
+        where: { id: receiptId },
+        include: {
+          creator: true,
+          receiptParticipants: {
+            include: {
+              participant: true,
+            },
+          },
+          receiptItems: {
+            include: {
+              shares: true,
+            },
+          },
+          pendingParticipants: true,
+          deletionRequests: true,
+        },
+      });
+
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      await recordAdminAction(request, {
+        action: 'receipt.view',
+        targetType: 'receipt',
+        targetId: receiptId,
+      });
+
+      return reply.send({
+        receipt: formatReceiptResponse(receipt),
+        creator: {
+          id: receipt.creator.id,
+          name: receipt.creator.name || '',
+          email: receipt.creator.email,
+        },
+      });
+    }
+  );
+
+  // GET /api/admin/audit-logs - Log de auditoria das ações administrativas
+  fastify.get<{ Querystring: AdminAuditLogsQuery }>(
+    '/audit-logs',
+    {
+      schema: {
+        querystring: ref('AdminAuditLogsQuery'),
+        response: { 200: ref('AuditLogListResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (
+      request: FastifyRequest<{ Querystring: AdminAuditLogsQuery }>,
+      reply: FastifyReply
+    ) => {
+      const { page, limit, skip } = getPagination(request.query);
+      const { adminId, action, targetType, targetId } = request.query;
+
+      const where: Prisma.AdminAuditLogWhereInput = {
+        ...(adminId ? { adminId } : {}),
+        ...(action ? { action } : {}),
+        ...(targetType ? { targetType } : {}),
+        ...(targetId ? { targetId } : {}),
+      };
+
+      const [logs, total] = await Promise.all([
+        prisma.adminAuditLog.findMany({
+          where,
+          include: {
+            admin: true,
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: limit,
+          skip,
+        }),
+        prisma.adminAuditLog.count({ where }),
+      ]);
+
+      return reply.send({
+        logs: logs.map(formatAuditLogResponse),
+        pagination: formatPagination(page, limit, total),
+      });
+    }
+  );
+}
@@ -1,306 +1,489 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import { hashPassword, comparePassword } from '../utils/password';
-import { LoginDto, CreateUserDto, ChangePasswordDto } from '../types';
+import {
+  LoginDto,
+  CreateUserDto,
+  ChangePasswordDto,
+  RefreshTokenDto,
+  VerifyEmailDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  SessionParams,
+} from '../types';
+import { ref } from '../schemas';
 import { authenticate } from '../middleware/auth';
 import { AuthenticatedRequest } from '../types';
+import {
+  createSession,
+  formatSessionResponse,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from '../utils/sessions';
+import {
+  consumeAccountToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from '../utils/account-tokens';
+import { formatUserResponse } from '../utils/users';
+import { AppError } from '../utils/errors';
+
+/**
+ * Dados do dispositivo que abriu a sessão
+ */
+function getDeviceInfo(request: FastifyRequest) {
+  return {
+    userAgent: request.headers['user-agent'],
+    ipAddress: request.ip,
+  };
+}
 
 export async function authRoutes(fastify: FastifyInstance) {
   // Login
   fastify.post<{ Body: LoginDto }>(
     '/login',
+    {
+      schema: {
+        body: ref('LoginDto'),
+        response: { 200: ref('AuthResponse') },
+      },
+    },
     async (request: FastifyRequest<{ Body: LoginDto }>, reply: FastifyReply) => {
-      try {
-        const { email, password } = request.body;
-
-        if (!email || !password) {
-          return reply.status(400).send({
-            error: {
-              message: 'Email e senha são obrigatórios',
-              statusCode: 400,
-            },
-          });
-        }
-
-        // Buscar usuário no banco
-        const user = await prisma.sharezinUser.findUnique({
-          where: { email },
-        });
-
-        if (!user) {
-          return reply.status(401).send({
-            error: {
-              message: 'Credenciais inválidas',
-              statusCode: 401,
-            },
-          });
-        }
-
-        // Verificar senha
-        const isValidPassword = await comparePassword(password, user.passwordHash);
-
-        if (!isValidPassword) {
-          return reply.status(401).send({
-            error: {
-              message: 'Credenciais inválidas',
-              statusCode: 401,
-            },
-          });
-        }
-
-        // Gerar token JWT (usando Fastify JWT)
-        const token = fastify.jwt.sign({
-          id: user.id,
-          email: user.email,
-        });
-
-        return reply.send({
-          token,
-          user: {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            createdAt: user.createdAt.toISOString(),
-          },
-        });
-      } catch (error) {
-        console.error('Login error:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao processar login',
-            statusCode: 500,
-          },
-        });
+      const { email, password } = request.body;
+
+      // Buscar usuário no banco
+      const user = await prisma.sharezinUser.findUnique({
+        where: { email },
+      });
+
+      if (!user) {
+        throw new AppError('INVALID_CREDENTIALS');
+      }
+
+      // Verificar senha
+      const isValidPassword = await comparePassword(password, user.passwordHash);
+
+      if (!isValidPassword) {
+        throw new AppError('INVALID_CREDENTIALS');
       }
+
+      if (user.suspendedAt) {
+        throw new AppError('ACCOUNT_SUSPENDED');
+      }
+
+      // Abrir sessão (access token + refresh token)
+      const tokens = await createSession(fastify, user, getDeviceInfo(request));
+
+      return reply.send({
+        ...tokens,
+        user: formatUserResponse(user),
+      });
     }
   );
 
   // Registrar novo usuário
   fastify.post<{ Body: CreateUserDto }>(
     '/register',
+    {
+      schema: {
+        body: ref('CreateUserDto'),
+        response: { 201: ref('AuthResponse') },
+      },
+    },
     async (request: FastifyRequest<{ Body: CreateUserDto }>, reply: FastifyReply) => {
-      try {
-        const { email, password, name } = request.body;
-
-        if (!email || !password || !name) {
-          return reply.status(400).send({
-            error: {
-              message: 'Nome, email e senha são obrigatórios',
-              statusCode: 400,
-            },
-          });
-        }
-
-        if (password.length < 6) {
-          return reply.status(400).send({
-            error: {
-              message: 'Senha deve ter pelo menos 6 caracteres',
-              statusCode: 400,
-            },
-          });
-        }
-
-        // Verificar se email já existe
-        const existingUser = await prisma.sharezinUser.findUnique({
-          where: { email },
-        });
-
-        if (existingUser) {
-          return reply.status(400).send({
-            error: {
-              message: 'Email já cadastrado',
-              statusCode: 400,
-            },
-          });
-        }
-
-        // Hash da senha
-        const passwordHash = await hashPassword(password);
-
-        // Criar usuário
-        const user = await prisma.sharezinUser.create({
-          data: {
-            email,
-            name,
-            passwordHash,
-          },
-        });
-
-        // Gerar token JWT
-        const token = fastify.jwt.sign({
-          id: user.id,
-          email: user.email,
-        });
-
-        return reply.status(201).send({
-          token,
-          user: {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            createdAt: user.createdAt.toISOString(),
-          },
-        });
-      } catch (error) {
-        console.error('Register error:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao processar registro',
-            statusCode: 500,
-          },
-        });
+      const { email, password, name } = request.body;
+
+      // Verificar se email já existe
+      const existingUser = await prisma.sharezinUser.findUnique({
+        where: { email },
+      });
+
+      if (existingUser) {
+        throw new AppError('EMAIL_IN_USE');
       }
+
+      // Hash da senha
+      const passwordHash = await hashPassword(password);
+
+      // Criar usuário
+      const user = await prisma.sharezinUser.create({
+        data: {
+          email,
+          name,
+          passwordHash,
+        },
+      });
+
+      // Enviar email de confirmação (não bloqueia o registro)
+      sendVerificationEmail(fastify, user).catch(console.error);
+
+      // Abrir sessão (access token + refresh token)
+      const tokens = await createSession(fastify, user, getDeviceInfo(request));
+
+      return reply.status(201).send({
+        ...tokens,
+        user: formatUserResponse(user),
+      });
     }
   );
 
   // Obter informações do usuário autenticado
   fastify.get(
     '/me',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        response: { 200: ref('UserResponse') },
+      },
+      preHandler: [authenticate],
+    },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const user = await prisma.sharezinUser.findUnique({
-          where: { id: request.userPayload.id },
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            createdAt: true,
-          },
-        });
-
-        if (!user) {
-          return reply.status(404).send({
-            error: {
-              message: 'Usuário não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
-
-        return reply.send({
-          user: {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            createdAt: user.createdAt.toISOString(),
-          },
-        });
-      } catch (error) {
-        console.error('Get user error:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
       }
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: request.userPayload.id },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          emailVerifiedAt: true,
+          role: true,
+          createdAt: true,
+        },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      return reply.send({
+        user: formatUserResponse(user),
+      });
     }
   );
 
   // Alterar senha
   fastify.post<{ Body: ChangePasswordDto }>(
     '/change-password',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        body: ref('ChangePasswordDto'),
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
     async (request: FastifyRequest<{ Body: ChangePasswordDto }>, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const { currentPassword, newPassword } = request.body;
-
-        if (!currentPassword || !newPassword) {
-          return reply.status(400).send({
-            error: {
-              message: 'Senha atual e nova senha são obrigatórias',
-              statusCode: 400,
-            },
-          });
-        }
-
-        if (newPassword.length < 6) {
-          return reply.status(400).send({
-            error: {
-              message: 'Nova senha deve ter pelo menos 6 caracteres',
-              statusCode: 400,
-            },
-          });
-        }
-
-        if (currentPassword === newPassword) {
-          return reply.status(400).send({
-            error: {
-              message: 'A nova senha deve ser diferente da senha atual',
-              statusCode: 400,
-            },
-          });
-        }
-
-        // Buscar usuário
-        const user = await prisma.sharezinUser.findUnique({
-          where: { id: request.userPayload.id },
-        });
-
-        if (!user) {
-          return reply.status(404).send({
-            error: {
-              message: 'Usuário não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
-
-        // Verificar senha atual
-        const isValidPassword = await comparePassword(currentPassword, user.passwordHash);
-
-        if (!isValidPassword) {
-          return reply.status(401).send({
-            error: {
-              message: 'Senha atual incorreta',
-              statusCode: 401,
-            },
-          });
-        }
-
-        // Hash da nova senha
-        const newPasswordHash = await hashPassword(newPassword);
-
-        // Atualizar senha
-        await prisma.sharezinUser.update({
-          where: { id: user.id },
-          data: {
-            passwordHash: newPasswordHash,
-          },
-        });
-
-        return reply.send({
-          success: true,
-          message: 'Senha alterada com sucesso',
-        });
-      } catch (error) {
-        console.error('Change password error:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao atualizar senha',
-            statusCode: 500,
-          },
-        });
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { currentPassword, newPassword } = request.body;
+
+      if (currentPassword === newPassword) {
+        throw new AppError('SAME_PASSWORD');
+      }
+
+      // Buscar usuário
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: request.userPayload.id },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      // Verificar senha atual
+      const isValidPassword = await comparePassword(currentPassword, user.passwordHash);
+
+      if (!isValidPassword) {
+        throw new AppError('WRONG_PASSWORD');
+      }
+
+      // Hash da nova senha
+      const newPasswordHash = await hashPassword(newPassword);
+
+      // Atualizar senha
+      await prisma.sharezinUser.update({
+        where: { id: user.id },
+        data: {
+          passwordHash: newPasswordHash,
+        },
+      });
+
+      // Encerrar as outras sessões (mantém a sessão atual)
+      await revokeUserSessions(user.id, request.userPayload.sessionId);
+
+      return reply.send({
+        success: true,
+        message: 'Senha alterada com sucesso',
+      });
+    }
+  );
+
+  // Renovar tokens (rotação do refresh token)
+  fastify.post<{ Body: RefreshTokenDto }>(
+    '/refresh',
+    {
+      schema: {
+        body: ref('RefreshTokenDto'),
+        response: { 200: ref('AuthTokens') },
+      },
+    },
+    async (request: FastifyRequest<{ Body: RefreshTokenDto }>, reply: FastifyReply) => {
+      const refreshToken = request.body?.refreshToken;
+
+      const tokens = await rotateRefreshToken(fastify, refreshToken, getDeviceInfo(request));
+
+      return reply.send(tokens);
+    }
+  );
+
+  // Logout (encerra a sessão atual)
+  fastify.post(
+    '/logout',
+    {
+      schema: {
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload || !request.userPayload.sessionId) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      await revokeSession(request.userPayload.id, request.userPayload.sessionId);
+
+      return reply.send({
+        success: true,
+        message: 'Sessão encerrada',
+      });
+    }
+  );
+
+  // Logout em todos os dispositivos
+  fastify.post(
+    '/logout-all',
+    {
+      schema: {
+        response: { 200: ref('LogoutAllResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const revoked = await revokeUserSessions(request.userPayload.id);
+
+      return reply.send({
+        success: true,
+        message: 'Todas as sessões foram encerradas',
+        revoked,
+      });
+    }
+  );
+
+  // Listar sessões ativas do usuário
+  fastify.get(
+    '/sessions',
+    {
+      schema: {
+        response: { 200: ref('SessionListResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
       }
+
+      const sessions = await prisma.userSession.findMany({
+        where: {
+          userId: request.userPayload.id,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: {
+          lastUsedAt: 'desc',
+        },
+      });
+
+      return reply.send({
+        sessions: sessions.map((session) =>
+          formatSessionResponse(session, request.userPayload!.sessionId)
+        ),
+      });
+    }
+  );
+
+  // Encerrar uma sessão específica
+  fastify.delete<{ Params: SessionParams }>(
+    '/sessions/:sessionId',
+    {
+      schema: {
+        params: ref('SessionParams'),
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: SessionParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { sessionId } = request.params;
+
+      const session = await prisma.userSession.findFirst({
+        where: {
+          id: sessionId,
+          userId: request.userPayload.id,
+          revokedAt: null,
+        },
+      });
+
+      if (!session) {
+        throw new AppError('SESSION_NOT_FOUND');
+      }
+
+      await revokeSession(request.userPayload.id, session.id);
+
+      return reply.send({
+        success: true,
+        message: 'Sessão encerrada',
+      });
+    }
+  );
+
+  // Confirmar email
+  fastify.post<{ Body: VerifyEmailDto }>(
+    '/verify-email',
+    {
+      schema: {
+        body: ref('VerifyEmailDto'),
+        response: { 200: ref('SuccessResponse') },
+      },
+    },
+    async (request: FastifyRequest<{ Body: VerifyEmailDto }>, reply: FastifyReply) => {
+      const token = request.body?.token;
+
+      const userId = await consumeAccountToken(fastify, token, 'email_verification');
+
+      await prisma.sharezinUser.update({
+        where: { id: userId },
+        data: {
+          emailVerifiedAt: new Date(),
+        },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Email confirmado com sucesso',
+      });
+    }
+  );
+
+  // Reenviar email de confirmação
+  fastify.post(
+    '/resend-verification',
+    {
+      schema: {
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: request.userPayload.id },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      if (user.emailVerifiedAt) {
+        throw new AppError('EMAIL_ALREADY_VERIFIED');
+      }
+
+      await sendVerificationEmail(fastify, user);
+
+      return reply.send({
+        success: true,
+        message: 'Email de confirmação enviado',
+      });
+    }
+  );
+
+  // Esqueci minha senha (envia o link de redefinição)
+  fastify.post<{ Body: ForgotPasswordDto }>(
+    '/forgot-password',
+    {
+      schema: {
+        body: ref('ForgotPasswordDto'),
+        response: { 200: ref('SuccessResponse') },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ForgotPasswordDto }>, reply: FastifyReply) => {
+      const email = request.body?.email;
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { email },
+      });
+
+      // Mesma resposta exista ou não a conta (não revela emails cadastrados)
+      if (user) {
+        sendPasswordResetEmail(fastify, user).catch(console.error);
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Se o email estiver cadastrado, você receberá um link para redefinir a senha',
+      });
+    }
+  );
+
+  // Redefinir senha com o token recebido por email
+  fastify.post<{ Body: ResetPasswordDto }>(
+    '/reset-password',
+    {
+      schema: {
+        body: ref('ResetPasswordDto'),
+        response: { 200: ref('SuccessResponse') },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ResetPasswordDto }>, reply: FastifyReply) => {
+      const { token, newPassword } = request.body || ({} as ResetPasswordDto);
+
+      const userId = await consumeAccountToken(fastify, token, 'password_reset');
+
+      const passwordHash = await hashPassword(newPassword);
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      // O link chegou ao email da conta, então ele também fica confirmado
+      await prisma.sharezinUser.update({
+        where: { id: userId },
+        data: {
+          passwordHash,
+          emailVerifiedAt: user?.emailVerifiedAt || new Date(),
+        },
+      });
+
+      // Quem tinha a senha antiga perde o acesso
+      await revokeUserSessions(userId);
+
+      return reply.send({
+        success: true,
+        message: 'Senha redefinida com sucesso',
+      });
     }
   );
 }
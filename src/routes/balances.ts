@@ -0,0 +1,218 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import {
+  buildUserSettleUp,
+  formatBalancePaymentResponse,
+  getGroupBalances,
+  getPairBalance,
+  getUserBalances,
+  recordBalancePayment,
+} from '../utils/balances';
+import { checkGroupAccess } from '../utils/groups';
+import { notifyBalancePayment } from '../utils/notifications';
+import { fromCents, toCents } from '../utils/splits';
+import { CreateBalancePaymentDto, GroupParams, UserIdParams } from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+export async function balanceRoutes(fastify: FastifyInstance) {
+  // GET /api/balances - Saldo do usuário com cada outro usuário
+  fastify.get(
+    '/',
+    {
+      schema: {
+        response: { 200: ref('UserBalancesResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const balances = await getUserBalances(request.userPayload.id);
+
+      const totalOwedToYouCents = balances
+        .filter((b) => b.balance > 0)
+        .reduce((sum, b) => sum + toCents(b.balance), 0);
+      const totalYouOweCents = balances
+        .filter((b) => b.balance < 0)
+        .reduce((sum, b) => sum - toCents(b.balance), 0);
+
+      return reply.send({
+        balances,
+        totalOwedToYou: fromCents(totalOwedToYouCents),
+        totalYouOwe: fromCents(totalYouOweCents),
+      });
+    }
+  );
+
+  // GET /api/balances/settle-up - Plano para zerar os saldos do usuário
+  fastify.get(
+    '/settle-up',
+    {
+      schema: {
+        response: { 200: ref('SettleUpResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+
+      const [user, balances] = await Promise.all([
+        prisma.sharezinUser.findUnique({
+          where: { id: userId },
+        }),
+        getUserBalances(userId),
+      ]);
+
+      return reply.send({
+        transfers: buildUserSettleUp(userId, user?.name || user?.email || '', balances),
+      });
+    }
+  );
+
+  // GET /api/balances/users/:userId - Saldo detalhado com outro usuário
+  fastify.get<{ Params: UserIdParams }>(
+    '/users/:userId',
+    {
+      schema: {
+        params: ref('UserIdParams'),
+        response: { 200: ref('PairBalanceResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: UserIdParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { userId } = request.params;
+
+      if (userId === request.userPayload.id) {
+        throw new AppError('COUNTERPART_REQUIRED');
+      }
+
+      const otherUser = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      if (!otherUser) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      const balance = await getPairBalance(request.userPayload.id, userId);
+
+      return reply.send({
+        ...balance,
+        name: otherUser.name || otherUser.email,
+      });
+    }
+  );
+
+  // GET /api/balances/groups/:groupId - Saldos do grupo e plano de acerto simplificado
+  fastify.get<{ Params: GroupParams }>(
+    '/groups/:groupId',
+    {
+      schema: {
+        params: ref('GroupParams'),
+        response: { 200: ref('GroupBalancesResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId } = request.params;
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.exists) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_ACCESS_DENIED');
+      }
+
+      const { balances, settleUp } = await getGroupBalances(groupId);
+
+      return reply.send({
+        groupId,
+        balances,
+        settleUp,
+      });
+    }
+  );
+
+  // GET /api/balances/payments - Pagamentos registrados pelo ou para o usuário
+  fastify.get(
+    '/payments',
+    {
+      schema: {
+        response: { 200: ref('BalancePaymentListResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+
+      const payments = await prisma.balancePayment.findMany({
+        where: {
+          OR: [{ fromUserId: userId }, { toUserId: userId }],
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      return reply.send({
+        payments: payments.map(formatBalancePaymentResponse),
+      });
+    }
+  );
+
+  // POST /api/balances/payments - Registrar pagamento entre usuários
+  fastify.post<{ Body: CreateBalancePaymentDto }>(
+    '/payments',
+    {
+      schema: {
+        body: ref('CreateBalancePaymentDto'),
+        response: { 201: ref('BalancePaymentResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Body: CreateBalancePaymentDto }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+
+      const payment = await recordBalancePayment(userId, request.body || {});
+
+      // Notifica o outro usuário (assíncrono)
+      notifyBalancePayment(
+        payment.fromUserId,
+        payment.toUserId,
+        payment.amount,
+        userId
+      ).catch(console.error);
+
+      return reply.status(201).send({
+        payment: payment,
+      });
+    }
+  );
+}
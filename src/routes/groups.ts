@@ -0,0 +1,451 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../utils/errors';
+import { checkGroupAccess, formatGroupResponse, resolveGroupMember } from '../utils/groups';
+import {
+  CreateGroupDto,
+  GroupMemberDto,
+  UpdateGroupDto,
+  UpdateGroupMemberDto,
+  GroupMemberParams,
+  GroupParams,
+} from '../types';
+import { ref } from '../schemas';
+
+const MAX_GROUP_MEMBERS = 50;
+
+/**
+ * Busca grupo com os membros para retornar (GROUP_NOT_FOUND se foi excluído nesse meio tempo)
+ */
+async function findGroupWithMembers(id: string) {
+  const group = await prisma.group.findUnique({
+    where: { id },
+    include: {
+      participants: {
+        include: {
+          user: true,
+        },
+      },
+    },
+  });
+
+  if (!group) {
+    throw new AppError('GROUP_NOT_FOUND');
+  }
+
+  return group;
+}
+
+/**
+ * Valida o nome do grupo (o schema limita o tamanho; aqui só barra nomes em branco)
+ */
+function assertGroupName(name: unknown): asserts name is string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new AppError('GROUP_NAME_REQUIRED', {}, { field: 'name' });
+  }
+}
+
+export async function groupRoutes(fastify: FastifyInstance) {
+  // GET /api/groups - Listar grupos do usuário (dono ou membro)
+  fastify.get(
+    '/',
+    {
+      schema: {
+        response: { 200: ref('GroupListResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+
+      const groups = await prisma.group.findMany({
+        where: {
+          OR: [{ userId }, { participants: { some: { userId } } }],
+        },
+        include: {
+          participants: {
+            include: {
+              user: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      return reply.send({
+        groups: groups.map(formatGroupResponse),
+      });
+    }
+  );
+
+  // GET /api/groups/:groupId - Obter grupo
+  fastify.get<{ Params: GroupParams }>(
+    '/:groupId',
+    {
+      schema: {
+        params: ref('GroupParams'),
+        response: { 200: ref('GroupResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId } = request.params;
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      const group = await findGroupWithMembers(groupId);
+
+      return reply.send({
+        group: formatGroupResponse(group),
+      });
+    }
+  );
+
+  // POST /api/groups - Criar grupo (o criador entra como membro)
+  fastify.post<{ Body: CreateGroupDto }>(
+    '/',
+    {
+      schema: {
+        body: ref('CreateGroupDto'),
+        response: { 201: ref('GroupResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Body: CreateGroupDto }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+      const { name, members = [] } = request.body || {};
+
+      assertGroupName(name);
+
+      if (members.length + 1 > MAX_GROUP_MEMBERS) {
+        throw new AppError('GROUP_MEMBER_LIMIT', { max: MAX_GROUP_MEMBERS });
+      }
+
+      // Cria grupo e membros em transação (qualquer membro inválido desfaz tudo)
+      const groupId = await prisma.$transaction(async (tx) => {
+        const user = await tx.sharezinUser.findUnique({
+          where: { id: userId },
+        });
+
+        const group = await tx.group.create({
+          data: {
+            name: name.trim(),
+            userId,
+          },
+        });
+
+        await tx.participant.create({
+          data: {
+            name: user?.name || user?.email || 'Participante',
+            userId,
+            groupId: group.id,
+          },
+        });
+
+        for (const [index, input] of members.entries()) {
+          const member = await resolveGroupMember(group.id, input, tx, `members.${index}`);
+
+          await tx.participant.create({
+            data: {
+              ...member,
+              groupId: group.id,
+            },
+          });
+        }
+
+        return group.id;
+      });
+
+      const group = await findGroupWithMembers(groupId);
+
+      return reply.status(201).send({
+        group: formatGroupResponse(group),
+      });
+    }
+  );
+
+  // PUT /api/groups/:groupId - Renomear grupo (apenas dono)
+  fastify.put<{ Params: GroupParams; Body: UpdateGroupDto }>(
+    '/:groupId',
+    {
+      schema: {
+        params: ref('GroupParams'),
+        body: ref('UpdateGroupDto'),
+        response: { 200: ref('GroupResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Params: GroupParams; Body: UpdateGroupDto }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId } = request.params;
+      const { name } = request.body || {};
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      if (!access.isOwner) {
+        throw new AppError('GROUP_OWNER_ONLY');
+      }
+
+      assertGroupName(name);
+
+      await prisma.group.update({
+        where: { id: groupId },
+        data: {
+          name: name.trim(),
+        },
+      });
+
+      const group = await findGroupWithMembers(groupId);
+
+      return reply.send({
+        group: formatGroupResponse(group),
+      });
+    }
+  );
+
+  // DELETE /api/groups/:groupId - Excluir grupo (apenas dono; recibos e participantes são mantidos)
+  fastify.delete<{ Params: GroupParams }>(
+    '/:groupId',
+    {
+      schema: {
+        params: ref('GroupParams'),
+        response: { 200: ref('MessageResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId } = request.params;
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      if (!access.isOwner) {
+        throw new AppError('GROUP_OWNER_ONLY');
+      }
+
+      await prisma.group.delete({
+        where: { id: groupId },
+      });
+
+      return reply.send({
+        message: 'Grupo excluído com sucesso',
+      });
+    }
+  );
+
+  // POST /api/groups/:groupId/members - Adicionar membro (usuário cadastrado ou convidado só com nome)
+  fastify.post<{ Params: GroupParams; Body: GroupMemberDto }>(
+    '/:groupId/members',
+    {
+      schema: {
+        params: ref('GroupParams'),
+        body: ref('GroupMemberDto'),
+        response: { 201: ref('GroupMemberResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Params: GroupParams; Body: GroupMemberDto }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId } = request.params;
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      if (!access.isOwner) {
+        throw new AppError('GROUP_OWNER_ONLY');
+      }
+
+      const memberCount = await prisma.participant.count({
+        where: { groupId },
+      });
+
+      if (memberCount >= MAX_GROUP_MEMBERS) {
+        throw new AppError('GROUP_MEMBER_LIMIT', { max: MAX_GROUP_MEMBERS });
+      }
+
+      const member = await prisma.participant.create({
+        data: {
+          ...(await resolveGroupMember(groupId, request.body)),
+          groupId,
+        },
+      });
+
+      const group = await findGroupWithMembers(groupId);
+
+      return reply.status(201).send({
+        memberId: member.id,
+        group: formatGroupResponse(group),
+      });
+    }
+  );
+
+  // PATCH /api/groups/:groupId/members/:participantId - Renomear convidado (apenas dono)
+  fastify.patch<{
+    Params: GroupMemberParams;
+    Body: UpdateGroupMemberDto;
+  }>(
+    '/:groupId/members/:participantId',
+    {
+      schema: {
+        params: ref('GroupMemberParams'),
+        body: ref('UpdateGroupMemberDto'),
+        response: { 200: ref('GroupResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{
+        Params: GroupMemberParams;
+        Body: UpdateGroupMemberDto;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId, participantId } = request.params;
+      const { name } = request.body;
+
+      const access = await checkGroupAccess(request.userPayload.id, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      if (!access.isOwner) {
+        throw new AppError('GROUP_OWNER_ONLY');
+      }
+
+      assertGroupName(name);
+
+      const member = await prisma.participant.findFirst({
+        where: {
+          id: participantId,
+          groupId,
+        },
+      });
+
+      if (!member) {
+        throw new AppError('GROUP_MEMBER_NOT_FOUND');
+      }
+
+      await prisma.participant.update({
+        where: { id: participantId },
+        data: { name: name.trim() },
+      });
+
+      const group = await findGroupWithMembers(groupId);
+
+      return reply.send({
+        group: formatGroupResponse(group),
+      });
+    }
+  );
+
+  // DELETE /api/groups/:groupId/members/:participantId - Remover membro (dono) ou sair do grupo (próprio membro)
+  fastify.delete<{ Params: GroupMemberParams }>(
+    '/:groupId/members/:participantId',
+    {
+      schema: {
+        params: ref('GroupMemberParams'),
+        response: { 200: ref('MessageResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Params: GroupMemberParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { groupId, participantId } = request.params;
+      const userId = request.userPayload.id;
+
+      const access = await checkGroupAccess(userId, groupId);
+
+      if (!access.hasAccess) {
+        throw new AppError('GROUP_NOT_FOUND');
+      }
+
+      const member = await prisma.participant.findFirst({
+        where: {
+          id: participantId,
+          groupId,
+        },
+        include: {
+          group: true,
+        },
+      });
+
+      if (!member) {
+        throw new AppError('GROUP_MEMBER_NOT_FOUND');
+      }
+
+      if (!access.isOwner && member.userId !== userId) {
+        throw new AppError('GROUP_OWNER_ONLY');
+      }
+
+      if (member.userId && member.userId === member.group?.userId) {
+        throw new AppError('GROUP_OWNER_CANNOT_LEAVE');
+      }
+
+      // O participante continua nos recibos em que já está; só deixa o grupo
+      await prisma.participant.update({
+        where: { id: participantId },
+        data: { groupId: null },
+      });
+
+      return reply.send({
+        message: 'Membro removido com sucesso',
+      });
+    }
+  );
+}
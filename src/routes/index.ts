@@ -3,6 +3,17 @@ import { authRoutes } from './auth';
 import { userRoutes } from './users';
 import { realtimeRoutes } from './realtime';
 import { receiptRoutes } from './receipts';
+import { receiptItemRoutes } from './receipt-items';
+import { receiptSettlementRoutes } from './receipt-settlements';
+import { receiptExportRoutes } from './receipt-exports';
+import { notificationRoutes } from './notifications';
+import { planRoutes } from './plans';
+import { subscriptionRoutes } from './subscriptions';
+import { meRoutes } from './me';
+import { balanceRoutes } from './balances';
+import { groupRoutes } from './groups';
+import { adminRoutes } from './admin';
+import { ref } from '../schemas';
 
 export async function registerRoutes(fastify: FastifyInstance) {
   // Rotas de autenticação
@@ -17,12 +28,48 @@ export async function registerRoutes(fastify: FastifyInstance) {
   // Rotas de recibos
   await fastify.register(receiptRoutes, { prefix: '/api/receipts' });
 
+  // Rotas de itens dos recibos
+  await fastify.register(receiptItemRoutes, { prefix: '/api/receipts' });
+
+  // Rotas de acerto de contas dos recibos
+  await fastify.register(receiptSettlementRoutes, { prefix: '/api/receipts' });
+
+  // Rotas de exportação dos recibos
+  await fastify.register(receiptExportRoutes, { prefix: '/api/receipts' });
+
+  // Rotas de notificações
+  await fastify.register(notificationRoutes, { prefix: '/api/notifications' });
+
+  // Rotas de planos e assinaturas
+  await fastify.register(planRoutes, { prefix: '/api/plans' });
+  await fastify.register(subscriptionRoutes, { prefix: '/api/subscriptions' });
+
+  // Consumo do plano do usuário autenticado
+  await fastify.register(meRoutes, { prefix: '/api/me' });
+
+  // Rotas de grupos
+  await fastify.register(groupRoutes, { prefix: '/api/groups' });
+
+  // Rotas de saldos entre usuários e grupos
+  await fastify.register(balanceRoutes, { prefix: '/api/balances' });
+
+  // Rotas do console administrativo
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
+
   // Health check
-  fastify.get('/health', async (request, reply) => {
-    return reply.send({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-    });
-  });
+  fastify.get(
+    '/health',
+    {
+      schema: {
+        response: { 200: ref('HealthResponse') },
+      },
+    },
+    async (request, reply) => {
+      return reply.send({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+      });
+    }
+  );
 }
@@ -0,0 +1,67 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authenticate } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan-features';
+import { getUserUsage, getVisibleHistoryReceiptIds } from '../utils/plans';
+import { buildExpenseHistorySheet, resolveExpenseRange } from '../utils/spreadsheet-exports';
+import {
+  SPREADSHEET_CONTENT_TYPES,
+  SpreadsheetFormat,
+  streamCsv,
+  streamXlsx,
+} from '../utils/spreadsheet';
+import { ExpenseExportQuery } from '../types';
+import { fileResponse, ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+export async function meRoutes(fastify: FastifyInstance) {
+  // GET /api/me/usage - Consumo atual em cada limite do plano
+  fastify.get(
+    '/usage',
+    {
+      schema: {
+        response: { 200: ref('UsageResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      return reply.send(await getUserUsage(request.userPayload.id));
+    }
+  );
+
+  // GET /api/me/expenses/export.xlsx e /api/me/expenses/export.csv - Histórico de despesas no período
+  for (const format of ['xlsx', 'csv'] as SpreadsheetFormat[]) {
+    fastify.get<{ Querystring: ExpenseExportQuery }>(
+      `/expenses/export.${format}`,
+      {
+        schema: {
+          querystring: ref('ExpenseExportQuery'),
+          response: {
+            200: fileResponse(SPREADSHEET_CONTENT_TYPES[format], `Histórico de despesas em ${format.toUpperCase()}`),
+            402: ref('ErrorResponse'),
+          },
+        },
+        preHandler: [authenticate, requirePlanFeature('excelExport')],
+      },
+      async (request: FastifyRequest<{ Querystring: ExpenseExportQuery }>, reply: FastifyReply) => {
+        if (!request.userPayload) {
+          throw new AppError('UNAUTHENTICATED');
+        }
+
+        const userId = request.userPayload.id;
+        const range = resolveExpenseRange(request.query);
+        // Recibos fora do histórico do plano ficam fora da planilha
+        const sheet = buildExpenseHistorySheet(userId, range, await getVisibleHistoryReceiptIds(userId));
+        const period = [range.from, range.to].map((date) => date.toISOString().slice(0, 10)).join('_');
+
+        return reply
+          .header('Content-Type', SPREADSHEET_CONTENT_TYPES[format])
+          .header('Content-Disposition', `attachment; filename="despesas_${period}.${format}"`)
+          .send(format === 'xlsx' ? streamXlsx([sheet]) : streamCsv(sheet));
+      }
+    );
+  }
+}
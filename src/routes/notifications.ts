@@ -0,0 +1,278 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { checkIsAdmin } from '../middleware/user-permissions';
+import { recordAdminAction } from '../utils/audit';
+import { createNotification, formatNotificationResponse } from '../utils/notifications';
+import {
+  CreateNotificationDto,
+  MarkNotificationsReadDto,
+  IdParams,
+  ListNotificationsQuery,
+} from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // GET /api/notifications - Listar notificações do usuário
+  fastify.get<{ Querystring: ListNotificationsQuery }>(
+    '/',
+    {
+      schema: {
+        querystring: ref('ListNotificationsQuery'),
+        response: { 200: ref('NotificationListResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Querystring: ListNotificationsQuery }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+      const query = request.query;
+      const unreadOnly = query.unreadOnly === true;
+      const page = Math.max(query.page || 1, 1);
+      const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const where = {
+        userId,
+        ...(unreadOnly ? { isRead: false } : {}),
+      };
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: limit,
+          skip: (page - 1) * limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({
+          where: {
+            userId,
+            isRead: false,
+          },
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return reply.send({
+        notifications: notifications.map(formatNotificationResponse),
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasMore: page < totalPages,
+        },
+      });
+    }
+  );
+
+  // GET /api/notifications/unread-count - Contar notificações não lidas
+  fastify.get(
+    '/unread-count',
+    {
+      schema: {
+        response: { 200: ref('UnreadCountResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const unreadCount = await prisma.notification.count({
+        where: {
+          userId: request.userPayload.id,
+          isRead: false,
+        },
+      });
+
+      return reply.send({
+        unreadCount,
+      });
+    }
+  );
+
+  // POST /api/notifications - Enviar notificação a um usuário (apenas admin, com auditoria)
+  fastify.post<{ Body: CreateNotificationDto }>(
+    '/',
+    {
+      schema: {
+        body: ref('CreateNotificationDto'),
+        response: { 201: ref('NotificationResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
+    async (request: FastifyRequest<{ Body: CreateNotificationDto }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const adminId = request.userPayload.id;
+      const { userId, type, title, message, receiptId } = request.body || {};
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      // O remetente é sempre quem enviou, para a notificação não se passar por outro usuário
+      const notification = await prisma.$transaction(async (tx) => {
+        const created = await createNotification(
+          { userId, type, title, message, receiptId, relatedUserId: adminId },
+          tx
+        );
+
+        await recordAdminAction(
+          request,
+          {
+            action: 'notification.send',
+            targetType: 'user',
+            targetId: userId,
+            details: { notificationId: created.id, type, title },
+          },
+          tx
+        );
+
+        return created;
+      });
+
+      return reply.status(201).send({
+        success: true,
+        notification: formatNotificationResponse(notification),
+      });
+    }
+  );
+
+  // PUT /api/notifications - Marcar notificações como lidas
+  fastify.put<{ Body: MarkNotificationsReadDto }>(
+    '/',
+    {
+      schema: {
+        body: ref('MarkNotificationsReadDto'),
+        response: { 200: ref('MarkNotificationsReadResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Body: MarkNotificationsReadDto }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+      const { markAllAsRead, notificationIds } = request.body || {};
+
+      const hasIds = Array.isArray(notificationIds) && notificationIds.length > 0;
+
+      if (!markAllAsRead && !hasIds) {
+        throw new AppError('NOTIFICATION_SELECTION_REQUIRED');
+      }
+
+      // Sempre restringe ao usuário autenticado
+      const result = await prisma.notification.updateMany({
+        where: {
+          userId,
+          isRead: false,
+          ...(markAllAsRead ? {} : { id: { in: notificationIds } }),
+        },
+        data: {
+          isRead: true,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        updated: result.count,
+      });
+    }
+  );
+
+  // PUT /api/notifications/:id - Marcar uma notificação como lida
+  fastify.put<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id } = request.params;
+
+      const result = await prisma.notification.updateMany({
+        where: {
+          id,
+          userId: request.userPayload.id,
+        },
+        data: {
+          isRead: true,
+        },
+      });
+
+      if (result.count === 0) {
+        throw new AppError('NOTIFICATION_NOT_FOUND');
+      }
+
+      return reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // DELETE /api/notifications/:id - Deletar notificação
+  fastify.delete<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('SuccessResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id } = request.params;
+
+      // deleteMany garante que apenas notificações do próprio usuário sejam removidas
+      const result = await prisma.notification.deleteMany({
+        where: {
+          id,
+          userId: request.userPayload.id,
+        },
+      });
+
+      if (result.count === 0) {
+        throw new AppError('NOTIFICATION_NOT_FOUND');
+      }
+
+      return reply.send({
+        success: true,
+      });
+    }
+  );
+}
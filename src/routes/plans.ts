@@ -0,0 +1,30 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { formatPlanResponse } from '../utils/plans';
+import { ref } from '../schemas';
+
+export async function planRoutes(fastify: FastifyInstance) {
+  // GET /api/plans - Listar planos ativos
+  fastify.get(
+    '/',
+    {
+      schema: {
+        response: { 200: ref('PlanListResponse') },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const plans = await prisma.plan.findMany({
+        where: {
+          isActive: true,
+        },
+        orderBy: {
+          priceMonthly: 'asc',
+        },
+      });
+
+      return reply.send({
+        plans: plans.map(formatPlanResponse),
+      });
+    }
+  );
+}
@@ -1,78 +1,164 @@
-import { FastifyInstance } from 'fastify';
-import { createClient } from '@supabase/supabase-js';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { checkReceiptAccess } from '../utils/receipts';
+import { isSessionActive } from '../utils/sessions';
+import {
+  RealtimeConnection,
+  registerConnection,
+  removeConnection,
+  subscribeToReceipt,
+  unsubscribeFromReceipt,
+} from '../utils/realtime';
+import { RealtimeQuery } from '../types';
+import { ref } from '../schemas';
 
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || '';
+/**
+ * Extrai o token JWT do header Authorization ou do parâmetro ?token=
+ * (navegadores não permitem headers customizados no WebSocket)
+ */
+function getRequestToken(request: FastifyRequest<{ Querystring: RealtimeQuery }>) {
+  const header = request.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length);
+  }
+
+  return request.query?.token;
+}
 
 export async function realtimeRoutes(fastify: FastifyInstance) {
   await fastify.register(async function (fastify) {
-    // WebSocket endpoint para realtime
-    fastify.get('/ws', { websocket: true }, (connection, req) => {
-      const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    // WebSocket endpoint para eventos dos recibos (requer autenticação)
+    fastify.get<{ Querystring: RealtimeQuery }>(
+      '/ws',
+      {
+        websocket: true,
+        schema: {
+          querystring: ref('RealtimeQuery'),
+        },
+      },
+      (socket, request) => {
+        const token = getRequestToken(request);
 
-      connection.on('message', async (message: Buffer) => {
+        let payload: { id: string; email: string; sid?: string };
         try {
-          const data = JSON.parse(message.toString());
+          if (!token) {
+            throw new Error('Missing token');
+          }
+          payload = fastify.jwt.verify<{ id: string; email: string; sid?: string }>(token);
+        } catch (error) {
+          socket.send(
+            JSON.stringify({
+              type: 'error',
+              message: 'Invalid or expired token',
+            })
+          );
+          socket.close(4401, 'Unauthorized');
+          return;
+        }
+
+        const userId = payload.id;
+        const connection: RealtimeConnection = {
+          userId,
+          sessionId: payload.sid,
+          send: (message) => {
+            if (socket.readyState === socket.OPEN) {
+              socket.send(message);
+            }
+          },
+          close: () => socket.close(4401, 'Session revoked'),
+        };
 
-          // Exemplo: Subscribe to changes in users table
-          if (data.type === 'subscribe' && data.table) {
-            const channel = supabase
-              .channel(`realtime:${data.table}`)
-              .on(
-                'postgres_changes',
-                {
-                  event: '*',
-                  schema: 'public',
-                  table: data.table,
-                },
-                (payload) => {
-                  connection.send(
-                    JSON.stringify({
-                      type: 'change',
-                      table: data.table,
-                      payload,
-                    })
-                  );
-                }
-              )
-              .subscribe();
+        // Mensagens que chegarem antes da verificação da sessão aguardam o resultado
+        const sessionCheck = payload.sid
+          ? isSessionActive(payload.sid, userId).catch(() => false)
+          : Promise.resolve(false);
 
+        sessionCheck.then((active) => {
+          if (!active) {
             connection.send(
               JSON.stringify({
-                type: 'subscribed',
-                table: data.table,
+                type: 'error',
+                message: 'Session expired or revoked',
               })
             );
-
-            // Cleanup on close
-            connection.on('close', () => {
-              supabase.removeChannel(channel);
-            });
-          } else if (data.type === 'ping') {
-            connection.send(JSON.stringify({ type: 'pong' }));
+            socket.close(4401, 'Unauthorized');
+            return;
           }
-        } catch (error) {
-          console.error('WebSocket error:', error);
+
+          registerConnection(connection);
+
+          // Send welcome message
           connection.send(
             JSON.stringify({
-              type: 'error',
-              message: 'Invalid message format',
+              type: 'connected',
+              message: 'Connected to realtime server',
+              userId,
             })
           );
-        }
-      });
+        });
+
+        socket.on('message', async (message: Buffer) => {
+          if (!(await sessionCheck)) {
+            return;
+          }
+
+          try {
+            const data = JSON.parse(message.toString());
+
+            if (data.type === 'subscribe' && typeof data.receiptId === 'string') {
+              const access = await checkReceiptAccess(userId, data.receiptId);
 
-      connection.on('close', () => {
-        console.log('WebSocket connection closed');
-      });
+              if (!access.hasAccess) {
+                connection.send(
+                  JSON.stringify({
+                    type: 'error',
+                    receiptId: data.receiptId,
+                    message: 'Sem permissão para acessar este recibo',
+                  })
+                );
+                return;
+              }
+
+              subscribeToReceipt(connection, data.receiptId);
+              connection.send(
+                JSON.stringify({
+                  type: 'subscribed',
+                  receiptId: data.receiptId,
+                })
+              );
+            } else if (data.type === 'unsubscribe' && typeof data.receiptId === 'string') {
+              unsubscribeFromReceipt(connection, data.receiptId);
+              connection.send(
+                JSON.stringify({
+                  type: 'unsubscribed',
+                  receiptId: data.receiptId,
+                })
+              );
+            } else if (data.type === 'ping') {
+              connection.send(JSON.stringify({ type: 'pong' }));
+            } else {
+              connection.send(
+                JSON.stringify({
+                  type: 'error',
+                  message: 'Unknown message type',
+                })
+              );
+            }
+          } catch (error) {
+            console.error('WebSocket error:', error);
+            connection.send(
+              JSON.stringify({
+                type: 'error',
+                message:
+                  error instanceof SyntaxError ? 'Invalid message format' : 'Internal server error',
+              })
+            );
+          }
+        });
 
-      // Send welcome message
-      connection.send(
-        JSON.stringify({
-          type: 'connected',
-          message: 'Connected to realtime server',
-        })
-      );
-    });
+        socket.on('close', () => {
+          removeConnection(connection);
+        });
+      }
+    );
   });
 }
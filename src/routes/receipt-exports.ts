@@ -0,0 +1,125 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authenticate } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan-features';
+import { checkIsParticipantInHistory } from '../middleware/receipt-permissions';
+import { getExportFileName, getReceiptStatement } from '../utils/receipt-statement';
+import { renderReceiptPdf } from '../utils/receipt-pdf';
+import { buildReceiptSheets } from '../utils/spreadsheet-exports';
+import { SPREADSHEET_CONTENT_TYPES, streamCsv, streamXlsx } from '../utils/spreadsheet';
+import { IdParams, ReceiptCsvExportQuery } from '../types';
+import { fileResponse, ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+export async function receiptExportRoutes(fastify: FastifyInstance) {
+  // GET /api/receipts/:id/export.pdf - Extrato do recibo fechado em PDF
+  fastify.get<{ Params: IdParams }>(
+    '/:id/export.pdf',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: {
+          200: fileResponse('application/pdf', 'Extrato do recibo em PDF'),
+          402: ref('ErrorResponse'),
+        },
+      },
+      preHandler: [authenticate, checkIsParticipantInHistory, requirePlanFeature('pdfExport')],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const statement = await getReceiptStatement(request.params.id);
+
+      if (!statement) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      // Enquanto aberto, os valores de cada pessoa ainda podem mudar
+      if (!statement.isClosed) {
+        throw new AppError('RECEIPT_NOT_CLOSED');
+      }
+
+      const pdf = await renderReceiptPdf(statement);
+
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header(
+          'Content-Disposition',
+          `attachment; filename="${getExportFileName(statement.title, 'pdf')}"`
+        )
+        .send(pdf);
+    }
+  );
+
+  // GET /api/receipts/:id/export.xlsx - Planilhas de itens, participantes e totais
+  fastify.get<{ Params: IdParams }>(
+    '/:id/export.xlsx',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: {
+          200: fileResponse(SPREADSHEET_CONTENT_TYPES.xlsx, 'Recibo em XLSX (abas Itens, Participantes e Totais)'),
+          402: ref('ErrorResponse'),
+        },
+      },
+      preHandler: [authenticate, checkIsParticipantInHistory, requirePlanFeature('excelExport')],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const statement = await getReceiptStatement(request.params.id);
+
+      if (!statement) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      const { items, participants, totals } = buildReceiptSheets(statement);
+
+      return reply
+        .header('Content-Type', SPREADSHEET_CONTENT_TYPES.xlsx)
+        .header(
+          'Content-Disposition',
+          `attachment; filename="${getExportFileName(statement.title, 'xlsx')}"`
+        )
+        .send(streamXlsx([items, participants, totals]));
+    }
+  );
+
+  // GET /api/receipts/:id/export.csv - Uma das planilhas do recibo em CSV
+  fastify.get<{ Params: IdParams; Querystring: ReceiptCsvExportQuery }>(
+    '/:id/export.csv',
+    {
+      schema: {
+        params: ref('IdParams'),
+        querystring: ref('ReceiptCsvExportQuery'),
+        response: {
+          200: fileResponse(SPREADSHEET_CONTENT_TYPES.csv, 'Planilha do recibo em CSV'),
+          402: ref('ErrorResponse'),
+        },
+      },
+      preHandler: [authenticate, checkIsParticipantInHistory, requirePlanFeature('excelExport')],
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Querystring: ReceiptCsvExportQuery }>,
+      reply: FastifyReply
+    ) => {
+      const statement = await getReceiptStatement(request.params.id);
+
+      if (!statement) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      const sheet = request.query.sheet || 'items';
+      const sheets = buildReceiptSheets(statement);
+      const csv =
+        sheet === 'participants'
+          ? streamCsv(sheets.participants)
+          : sheet === 'totals'
+            ? streamCsv(sheets.totals)
+            : streamCsv(sheets.items);
+
+      return reply
+        .header('Content-Type', SPREADSHEET_CONTENT_TYPES.csv)
+        .header(
+          'Content-Disposition',
+          `attachment; filename="${getExportFileName(`${statement.title} ${sheet}`, 'csv')}"`
+        )
+        .send(csv);
+    }
+  );
+}
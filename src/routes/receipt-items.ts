@@ -0,0 +1,433 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { checkIsParticipantAndNotClosed } from '../middleware/receipt-permissions';
+import {
+  formatReceiptItemResponse,
+  recalculateReceiptTotal,
+  assertReceiptItemInput,
+} from '../utils/receipts';
+import { publishReceiptEvent } from '../utils/realtime';
+import { assertItemShares } from '../utils/splits';
+import {
+  CreateReceiptItemDto,
+  CreateReceiptItemsDto,
+  UpdateItemSharesDto,
+  UpdateReceiptItemDto,
+  IdParams,
+  ReceiptItemParams,
+} from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+import { addItems, getReceipt } from '../services/receipts';
+
+export async function receiptItemRoutes(fastify: FastifyInstance) {
+  // POST /api/receipts/:id/items - Adicionar item
+  fastify.post<{ Params: IdParams; Body: CreateReceiptItemDto }>(
+    '/:id/items',
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('CreateReceiptItemDto'),
+        response: { 201: ref('ReceiptItemResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Body: CreateReceiptItemDto }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id } = request.params;
+
+      const [item] = await addItems(id, request.userPayload.id, [request.body]);
+
+      const receipt = await getReceipt(id);
+
+      return reply.status(201).send({
+        item,
+        receipt,
+      });
+    }
+  );
+
+  // POST /api/receipts/:id/items/batch - Adicionar vários itens
+  fastify.post<{ Params: IdParams; Body: CreateReceiptItemsDto }>(
+    '/:id/items/batch',
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('CreateReceiptItemsDto'),
+        response: { 201: ref('ReceiptItemsResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Body: CreateReceiptItemsDto }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id } = request.params;
+      const items = await addItems(
+        id,
+        request.userPayload.id,
+        request.body.items,
+        (index) => `items.${index}.`
+      );
+
+      const receipt = await getReceipt(id);
+
+      return reply.status(201).send({
+        items,
+        receipt,
+      });
+    }
+  );
+
+  // PATCH /api/receipts/:id/items/:itemId - Editar item
+  fastify.patch<{ Params: ReceiptItemParams; Body: UpdateReceiptItemDto }>(
+    '/:id/items/:itemId',
+    {
+      schema: {
+        params: ref('ReceiptItemParams'),
+        body: ref('UpdateReceiptItemDto'),
+        response: { 200: ref('ReceiptItemResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{
+        Params: ReceiptItemParams;
+        Body: UpdateReceiptItemDto;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, itemId } = request.params;
+      const userId = request.userPayload.id;
+      const body = request.body || {};
+
+      const item = await prisma.receiptItem.findFirst({
+        where: {
+          id: itemId,
+          receiptId: id,
+        },
+        include: {
+          participant: true,
+          receipt: true,
+        },
+      });
+
+      if (!item) {
+        throw new AppError('ITEM_NOT_FOUND');
+      }
+
+      const isCreator = item.receipt.creatorId === userId;
+      const isOwner = item.participant.userId === userId;
+
+      if (!isCreator && !isOwner) {
+        throw new AppError('ITEM_OWNER_ONLY');
+      }
+
+      assertReceiptItemInput(body, true);
+
+      // Reatribuir o item a outro participante é exclusivo do criador
+      if (body.participantId !== undefined && body.participantId !== item.participantId) {
+        if (!isCreator) {
+          throw new AppError('ITEM_REASSIGN_DENIED');
+        }
+
+        const target = await prisma.receiptParticipant.findFirst({
+          where: {
+            receiptId: id,
+            participantId: body.participantId,
+          },
+        });
+
+        if (!target) {
+          throw new AppError(
+            'PARTICIPANT_NOT_IN_RECEIPT',
+            { participantId: body.participantId },
+            { field: 'participantId' }
+          );
+        }
+      }
+
+      const updatedItem = await prisma.$transaction(async (tx) => {
+        const updated = await tx.receiptItem.update({
+          where: { id: itemId },
+          data: {
+            ...(body.name !== undefined && { name: body.name.trim() }),
+            ...(body.quantity !== undefined && { quantity: body.quantity }),
+            ...(body.price !== undefined && { price: body.price }),
+            ...(body.participantId !== undefined && { participantId: body.participantId }),
+          },
+          include: {
+            shares: true,
+          },
+        });
+
+        await recalculateReceiptTotal(id, tx);
+
+        return updated;
+      });
+
+      const receipt = await getReceipt(id);
+
+      const formattedItem = formatReceiptItemResponse(updatedItem);
+      publishReceiptEvent(id, 'item_updated', { item: formattedItem }, userId);
+
+      return reply.send({
+        item: formattedItem,
+        receipt,
+      });
+    }
+  );
+
+  // DELETE /api/receipts/:id/items/:itemId - Excluir item
+  fastify.delete<{ Params: ReceiptItemParams }>(
+    '/:id/items/:itemId',
+    {
+      schema: {
+        params: ref('ReceiptItemParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptItemParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, itemId } = request.params;
+      const userId = request.userPayload.id;
+
+      const item = await prisma.receiptItem.findFirst({
+        where: {
+          id: itemId,
+          receiptId: id,
+        },
+        include: {
+          participant: true,
+          receipt: true,
+        },
+      });
+
+      if (!item) {
+        throw new AppError('ITEM_NOT_FOUND');
+      }
+
+      // Demais participantes devem solicitar a exclusão
+      if (item.receipt.creatorId !== userId && item.participant.userId !== userId) {
+        throw new AppError('ITEM_DELETE_DENIED');
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.receiptItem.delete({
+          where: { id: itemId },
+        });
+
+        await recalculateReceiptTotal(id, tx);
+      });
+
+      publishReceiptEvent(id, 'item_deleted', { itemId }, userId);
+
+      const receipt = await getReceipt(id);
+
+      return reply.send({
+        receipt,
+      });
+    }
+  );
+
+  // PUT /api/receipts/:id/items/:itemId/shares - Dividir item entre participantes
+  fastify.put<{ Params: ReceiptItemParams; Body: UpdateItemSharesDto }>(
+    '/:id/items/:itemId/shares',
+    {
+      schema: {
+        params: ref('ReceiptItemParams'),
+        body: ref('UpdateItemSharesDto'),
+        response: { 200: ref('ReceiptItemResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{
+        Params: ReceiptItemParams;
+        Body: UpdateItemSharesDto;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, itemId } = request.params;
+      const userId = request.userPayload.id;
+      const body = request.body || {};
+
+      const item = await prisma.receiptItem.findFirst({
+        where: {
+          id: itemId,
+          receiptId: id,
+        },
+        include: {
+          participant: true,
+          receipt: {
+            include: {
+              receiptParticipants: true,
+            },
+          },
+        },
+      });
+
+      if (!item) {
+        throw new AppError('ITEM_NOT_FOUND');
+      }
+
+      if (item.receipt.creatorId !== userId && item.participant.userId !== userId) {
+        throw new AppError('ITEM_OWNER_ONLY');
+      }
+
+      assertItemShares(body, Number(item.quantity) * Number(item.price));
+
+      const receiptParticipantIds = new Set(
+        item.receipt.receiptParticipants.map((rp) => rp.participantId)
+      );
+      const outsiderIndex = body.shares.findIndex(
+        (share) => !receiptParticipantIds.has(share.participantId)
+      );
+      if (outsiderIndex !== -1) {
+        throw new AppError(
+          'PARTICIPANT_NOT_IN_RECEIPT',
+          { participantId: body.shares[outsiderIndex].participantId },
+          { field: `shares.${outsiderIndex}.participantId` }
+        );
+      }
+
+      const updatedItem = await prisma.$transaction(async (tx) => {
+        await tx.receiptItemShare.deleteMany({
+          where: { itemId },
+        });
+
+        await tx.receiptItemShare.createMany({
+          data: body.shares.map((share) => ({
+            itemId,
+            participantId: share.participantId,
+            weight: body.mode === 'weight' ? share.weight : null,
+            amount: body.mode === 'fixed' ? share.amount : null,
+          })),
+        });
+
+        const updated = await tx.receiptItem.update({
+          where: { id: itemId },
+          data: {
+            splitMode: body.mode,
+          },
+          include: {
+            shares: true,
+          },
+        });
+
+        await recalculateReceiptTotal(id, tx);
+
+        return updated;
+      });
+
+      const receipt = await getReceipt(id);
+
+      const formattedItem = formatReceiptItemResponse(updatedItem);
+      publishReceiptEvent(id, 'item_updated', { item: formattedItem }, userId);
+
+      return reply.send({
+        item: formattedItem,
+        receipt,
+      });
+    }
+  );
+
+  // DELETE /api/receipts/:id/items/:itemId/shares - Desfazer divisão do item
+  fastify.delete<{ Params: ReceiptItemParams }>(
+    '/:id/items/:itemId/shares',
+    {
+      schema: {
+        params: ref('ReceiptItemParams'),
+        response: { 200: ref('ReceiptItemResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptItemParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, itemId } = request.params;
+      const userId = request.userPayload.id;
+
+      const item = await prisma.receiptItem.findFirst({
+        where: {
+          id: itemId,
+          receiptId: id,
+        },
+        include: {
+          participant: true,
+          receipt: true,
+        },
+      });
+
+      if (!item) {
+        throw new AppError('ITEM_NOT_FOUND');
+      }
+
+      if (item.receipt.creatorId !== userId && item.participant.userId !== userId) {
+        throw new AppError('ITEM_OWNER_ONLY');
+      }
+
+      // O valor volta a ser integralmente do dono do item
+      const updatedItem = await prisma.$transaction(async (tx) => {
+        await tx.receiptItemShare.deleteMany({
+          where: { itemId },
+        });
+
+        const updated = await tx.receiptItem.update({
+          where: { id: itemId },
+          data: {
+            splitMode: 'none',
+          },
+          include: {
+            shares: true,
+          },
+        });
+
+        await recalculateReceiptTotal(id, tx);
+
+        return updated;
+      });
+
+      const receipt = await getReceipt(id);
+
+      const formattedItem = formatReceiptItemResponse(updatedItem);
+      publishReceiptEvent(id, 'item_updated', { item: formattedItem }, userId);
+
+      return reply.send({
+        item: formattedItem,
+        receipt,
+      });
+    }
+  );
+}
@@ -0,0 +1,247 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { checkIsCreator, checkIsParticipant } from '../middleware/receipt-permissions';
+import { publishReceiptEvent } from '../utils/realtime';
+import { toCents } from '../utils/splits';
+import {
+  findReceiptForSettlement,
+  formatSettlementTransferResponse,
+  getReceiptSettlement,
+  storeSettlementTransfers,
+} from '../utils/settlement';
+import {
+  SetReceiptPayersDto,
+  UpdateSettlementTransferDto,
+  IdParams,
+  SettlementTransferParams,
+} from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+export async function receiptSettlementRoutes(fastify: FastifyInstance) {
+  // GET /api/receipts/:id/payers - Listar quem pagou a conta
+  fastify.get<{ Params: IdParams }>(
+    '/:id/payers',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('ReceiptPayersResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipant],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const settlement = await getReceiptSettlement(id);
+
+      if (!settlement) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      return reply.send({
+        payers: settlement.payers,
+        totalPaid: settlement.totalPaid,
+        totalOwed: settlement.totalOwed,
+        isBalanced: settlement.isBalanced,
+      });
+    }
+  );
+
+  // PUT /api/receipts/:id/payers - Definir quem pagou a conta (apenas criador)
+  fastify.put<{ Params: IdParams; Body: SetReceiptPayersDto }>(
+    '/:id/payers',
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('SetReceiptPayersDto'),
+        response: { 200: ref('ReceiptSettlementResponse') },
+      },
+      preHandler: [authenticate, checkIsCreator],
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Body: SetReceiptPayersDto }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const payers = request.body?.payers;
+
+      if (!Array.isArray(payers) || payers.length === 0) {
+        throw new AppError('PAYERS_REQUIRED');
+      }
+
+      const receipt = await findReceiptForSettlement(id);
+
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      const participantIds = new Set(receipt.receiptParticipants.map((rp) => rp.participantId));
+      const seen = new Set<string>();
+
+      for (const [index, payer] of payers.entries()) {
+        const field = `payers.${index}`;
+
+        if (!payer || typeof payer.participantId !== 'string' || !payer.participantId) {
+          throw new AppError('PARTICIPANT_REQUIRED', {}, { field: `${field}.participantId` });
+        }
+
+        if (!participantIds.has(payer.participantId)) {
+          throw new AppError(
+            'PARTICIPANT_NOT_IN_RECEIPT',
+            { participantId: payer.participantId },
+            { field: `${field}.participantId` }
+          );
+        }
+
+        if (seen.has(payer.participantId)) {
+          throw new AppError('DUPLICATE_PAYER', {}, { field: `${field}.participantId` });
+        }
+        seen.add(payer.participantId);
+
+        if (
+          typeof payer.amount !== 'number' ||
+          !Number.isFinite(payer.amount) ||
+          toCents(payer.amount) <= 0
+        ) {
+          throw new AppError('INVALID_PAID_AMOUNT', {}, { field: `${field}.amount` });
+        }
+      }
+
+      // Pagadores novos invalidam as transferências calculadas anteriormente
+      const settlement = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM receipts WHERE id = ${id}::uuid FOR UPDATE`;
+
+        const paidTransfers = await tx.settlementTransfer.count({
+          where: { receiptId: id, isPaid: true },
+        });
+
+        if (paidTransfers > 0) {
+          throw new AppError('SETTLEMENT_HAS_PAID_TRANSFERS');
+        }
+
+        await tx.settlementTransfer.deleteMany({
+          where: { receiptId: id },
+        });
+        await tx.receiptPayment.deleteMany({
+          where: { receiptId: id },
+        });
+        await tx.receiptPayment.createMany({
+          data: payers.map((payer) => ({
+            receiptId: id,
+            participantId: payer.participantId,
+            amount: payer.amount,
+          })),
+        });
+
+        await storeSettlementTransfers(id, tx);
+
+        return await getReceiptSettlement(id, tx);
+      });
+
+      if (settlement) {
+        publishReceiptEvent(id, 'settlement_updated', { settlement }, request.userPayload?.id);
+      }
+
+      return reply.send({
+        settlement,
+      });
+    }
+  );
+
+  // GET /api/receipts/:id/settlement - Acerto de contas (quem paga quem)
+  fastify.get<{ Params: IdParams }>(
+    '/:id/settlement',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('ReceiptSettlementResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipant],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const settlement = await getReceiptSettlement(id);
+
+      if (!settlement) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      return reply.send({
+        settlement,
+      });
+    }
+  );
+
+  // PATCH /api/receipts/:id/settlement/transfers/:transferId - Marcar transferência como paga
+  fastify.patch<{
+    Params: SettlementTransferParams;
+    Body: UpdateSettlementTransferDto;
+  }>(
+    '/:id/settlement/transfers/:transferId',
+    {
+      schema: {
+        params: ref('SettlementTransferParams'),
+        body: ref('UpdateSettlementTransferDto'),
+        response: { 200: ref('SettlementTransferResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipant],
+    },
+    async (
+      request: FastifyRequest<{
+        Params: SettlementTransferParams;
+        Body: UpdateSettlementTransferDto;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, transferId } = request.params;
+      const { isPaid } = request.body;
+      const userId = request.userPayload.id;
+
+      const transfer = await prisma.settlementTransfer.findFirst({
+        where: {
+          id: transferId,
+          receiptId: id,
+        },
+        include: {
+          receipt: true,
+          toParticipant: true,
+        },
+      });
+
+      if (!transfer) {
+        throw new AppError('TRANSFER_NOT_FOUND');
+      }
+
+      // Quem recebe ou o criador do recibo; o devedor não confirma o próprio pagamento
+      const canUpdate =
+        transfer.receipt.creatorId === userId || transfer.toParticipant.userId === userId;
+
+      if (!canUpdate) {
+        throw new AppError('TRANSFER_UPDATE_DENIED');
+      }
+
+      const updated = await prisma.settlementTransfer.update({
+        where: { id: transferId },
+        data: {
+          isPaid,
+          paidAt: isPaid ? transfer.paidAt || new Date() : null,
+        },
+      });
+
+      const settlement = await getReceiptSettlement(id);
+      if (settlement) {
+        publishReceiptEvent(id, 'settlement_updated', { settlement }, userId);
+      }
+
+      return reply.send({
+        transfer: formatSettlementTransferResponse(updated),
+      });
+    }
+  );
+}
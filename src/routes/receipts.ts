@@ -1,1460 +1,1067 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { authenticate } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan-features';
 import {
-  generateInviteCode,
   formatReceiptResponse,
   checkReceiptAccess,
   recalculateReceiptTotal,
-  calculateReceiptTotal,
+  receiptMemberWhere,
 } from '../utils/receipts';
-import { checkReceiptLimit, getUserActivePlan, checkHistoryLimit, checkParticipantLimit } from '../utils/plans';
+import { AppError } from '../utils/errors';
+import { REQUIRE_EMAIL_VERIFICATION } from '../utils/account-tokens';
+import { publishReceiptEvent, revokeReceiptAccess } from '../utils/realtime';
+import {
+  assertReceiptInHistory,
+  checkParticipantLimit,
+  getVisibleHistoryReceiptIds,
+  getVisibleHistoryWhere,
+  hasPlanFeature,
+} from '../utils/plans';
+import { getDashboardStats, resolveDashboardRange } from '../utils/dashboard';
 import {
-  notifyReceiptClosed,
-  notifyItemAdded,
   notifyParticipantRequest,
-  notifyCreatorTransferred,
+  notifyParticipantApproved,
+  notifyParticipantRejected,
+  notifyDeletionRequest,
+  notifyDeletionApproved,
+  notifyDeletionRejected,
 } from '../utils/notifications';
+import {
+  RECEIPT_INCLUDE,
+  closeParticipation,
+  closeReceipt,
+  createReceipt,
+  getReceipt,
+  removeParticipant,
+  transferCreator,
+} from '../services/receipts';
 import {
   checkIsCreator,
   checkIsParticipant,
   checkReceiptNotClosed,
   checkIsCreatorAndNotClosed,
+  checkIsParticipantAndNotClosed,
 } from '../middleware/receipt-permissions';
 import {
   CreateReceiptDto,
   UpdateReceiptDto,
   RequestJoinDto,
   TransferCreatorDto,
+  IdParams,
+  InviteCodeParams,
+  ReceiptDeletionRequestParams,
+  ReceiptItemParams,
+  ReceiptParticipantParams,
+  ReceiptPendingParams,
+  ListReceiptsQuery,
+  DashboardStatsQuery,
 } from '../types';
+import { ref } from '../schemas';
 
 export async function receiptRoutes(fastify: FastifyInstance) {
   // GET /api/receipts - Listar recibos
-  fastify.get<{
-    Querystring: {
-      includeClosed?: string;
-      onlyClosed?: string;
-      limit?: string;
-      offset?: string;
-    };
-  }>(
+  fastify.get<{ Querystring: ListReceiptsQuery }>(
     '/',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const userId = request.userPayload.id;
-        const query = request.query as { includeClosed?: string; onlyClosed?: string; limit?: string; offset?: string };
-        const includeClosed = query.includeClosed === 'true';
-        const onlyClosed = query.onlyClosed === 'true';
-        const limit = parseInt(query.limit || '100', 10);
-        const offset = parseInt(query.offset || '0', 10);
-
-        // Busca plano para verificar limite de histórico
-        const plan = await getUserActivePlan(userId);
-        const historyLimit = await checkHistoryLimit(userId, plan);
-
-        // Busca recibos onde o usuário é criador ou participante
-        const receipts = await prisma.receipt.findMany({
-          where: {
-            OR: [
-              { creatorId: userId },
-              {
-                receiptParticipants: {
-                  some: {
-                    participant: {
-                      userId: userId,
-                    },
-                  },
-                },
-              },
-            ],
-            ...(onlyClosed
-              ? { isClosed: true }
-              : includeClosed
-              ? {}
-              : { isClosed: false }),
-          },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-          orderBy: {
-            createdAt: 'desc',
-          },
-          take: onlyClosed && historyLimit ? Math.min(limit, historyLimit) : limit,
-          skip: offset,
-        });
-
-        const total = await prisma.receipt.count({
-          where: {
-            OR: [
-              { creatorId: userId },
-              {
-                receiptParticipants: {
-                  some: {
-                    participant: {
-                      userId: userId,
-                    },
-                  },
-                },
-              },
-            ],
-            ...(onlyClosed
-              ? { isClosed: true }
-              : includeClosed
-              ? {}
-              : { isClosed: false }),
-          },
-        });
-
-        return reply.send({
-          receipts: receipts.map(formatReceiptResponse),
-          total,
-        });
-      } catch (error) {
-        console.error('Error fetching receipts:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao buscar recibos',
-            statusCode: 500,
-          },
-        });
+    {
+      schema: {
+        querystring: ref('ListReceiptsQuery'),
+        response: { 200: ref('ReceiptListResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Querystring: ListReceiptsQuery }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
       }
+
+      const userId = request.userPayload.id;
+      const query = request.query;
+      const includeClosed = query.includeClosed === true;
+      const onlyClosed = query.onlyClosed === true;
+      const limit = query.limit ?? 100;
+      const offset = query.offset ?? 0;
+
+      // Recibos fechados além do limite de histórico do plano ficam ocultos
+      const statusWhere: Prisma.ReceiptWhereInput = onlyClosed
+        ? await getVisibleHistoryWhere(userId)
+        : includeClosed
+        ? { OR: [{ isClosed: false }, await getVisibleHistoryWhere(userId)] }
+        : { isClosed: false };
+      const where: Prisma.ReceiptWhereInput = {
+        AND: [receiptMemberWhere(userId), statusWhere],
+      };
+
+      // Busca recibos onde o usuário é criador ou participante
+      const receipts = await prisma.receipt.findMany({
+        where,
+        include: RECEIPT_INCLUDE,
+        orderBy: {
+          createdAt: 'desc',
+        },
+        take: limit,
+        skip: offset,
+      });
+
+      const total = await prisma.receipt.count({ where });
+
+      return reply.send({
+        receipts: receipts.map(formatReceiptResponse),
+        total,
+      });
     }
   );
 
   // GET /api/receipts/:id - Buscar recibo por ID
-  fastify.get<{ Params: { id: string } }>(
+  fastify.get<{ Params: IdParams }>(
     '/:id',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const { id } = request.params;
-        const userId = request.userPayload.id;
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        // Verifica acesso
-        const access = await checkReceiptAccess(userId, id);
-        if (!access.hasAccess) {
-          return reply.status(403).send({
-            error: {
-              message: 'Sem permissão para acessar este recibo',
-              statusCode: 403,
-            },
-          });
-        }
+      const { id } = request.params;
+      const userId = request.userPayload.id;
 
-        // Busca recibo completo
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-        });
+      // Verifica acesso
+      const access = await checkReceiptAccess(userId, id);
+      if (!access.hasAccess) {
+        throw new AppError('RECEIPT_ACCESS_DENIED');
+      }
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      await assertReceiptInHistory(userId, id);
 
-        return reply.send({
-          receipt: formatReceiptResponse(receipt),
-        });
-      } catch (error) {
-        console.error('Error fetching receipt:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao processar requisição',
-            statusCode: 500,
-          },
-        });
-      }
+      return reply.send({
+        receipt: await getReceipt(id),
+      });
     }
   );
 
   // GET /api/receipts/invite/:inviteCode - Buscar recibo por código de convite
-  fastify.get<{ Params: { inviteCode: string } }>(
+  fastify.get<{ Params: InviteCodeParams }>(
     '/invite/:inviteCode',
+    {
+      schema: {
+        params: ref('InviteCodeParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+    },
     async (
-      request: FastifyRequest<{ Params: { inviteCode: string } }>,
+      request: FastifyRequest<{ Params: InviteCodeParams }>,
       reply: FastifyReply
     ) => {
-      try {
-        const { inviteCode } = request.params;
-
-        const receipt = await prisma.receipt.findUnique({
-          where: { inviteCode },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-        });
+      const { inviteCode } = request.params;
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Código de convite inválido',
-              statusCode: 404,
-            },
-          });
-        }
+      const receipt = await prisma.receipt.findUnique({
+        where: { inviteCode },
+        include: RECEIPT_INCLUDE,
+      });
 
-        return reply.send({
-          receipt: formatReceiptResponse(receipt),
-        });
-      } catch (error) {
-        console.error('Error fetching receipt by invite code:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao processar requisição',
-            statusCode: 500,
-          },
-        });
+      if (!receipt) {
+        throw new AppError('INVALID_INVITE_CODE');
       }
+
+      return reply.send({
+        receipt: formatReceiptResponse(receipt),
+      });
     }
   );
 
   // POST /api/receipts - Criar recibo
   fastify.post<{ Body: CreateReceiptDto }>(
     '/',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        body: ref('CreateReceiptDto'),
+        response: { 201: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate],
+    },
     async (request: FastifyRequest<{ Body: CreateReceiptDto }>, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const userId = request.userPayload.id;
-        const { title, serviceChargePercent, cover, groupId } = request.body;
-
-        // Valida título
-        if (!title || title.trim() === '') {
-          return reply.status(400).send({
-            error: {
-              message: 'Título é obrigatório',
-              statusCode: 400,
-            },
-          });
-        }
-
-        // Verifica limite de recibos
-        const limitCheck = await checkReceiptLimit(userId);
-        if (!limitCheck.canCreate) {
-          return reply.status(403).send({
-            error: {
-              message: limitCheck.message || 'Limite de recibos atingido',
-              statusCode: 403,
-            },
-          });
-        }
-
-        // Gera invite code único
-        const inviteCode = await generateInviteCode();
-
-        // Cria recibo e participante em transação
-        const result = await prisma.$transaction(async (tx) => {
-          // Cria recibo
-          const receipt = await tx.receipt.create({
-            data: {
-              title: title.trim(),
-              creatorId: userId,
-              inviteCode,
-              serviceChargePercent: serviceChargePercent || 0,
-              cover: cover || 0,
-              total: 0,
-              isClosed: false,
-            },
-          });
-
-          // Busca ou cria participante para o criador
-          let creatorParticipant = await tx.participant.findFirst({
-            where: {
-              userId: userId,
-              groupId: groupId || null,
-            },
-          });
-
-          if (!creatorParticipant) {
-            const user = await tx.sharezinUser.findUnique({
-              where: { id: userId },
-            });
-
-            creatorParticipant = await tx.participant.create({
-              data: {
-                name: user?.name || user?.email || 'Participante',
-                userId: userId,
-                groupId: groupId || null,
-                isClosed: false,
-              },
-            });
-          }
-
-          // Adiciona criador como participante do recibo
-          await tx.receiptParticipant.create({
-            data: {
-              receiptId: receipt.id,
-              participantId: creatorParticipant.id,
-            },
-          });
-
-          // Se grupo fornecido, adiciona participantes do grupo
-          if (groupId) {
-            const groupParticipants = await tx.participant.findMany({
-              where: {
-                groupId: groupId,
-                userId: { not: userId }, // Exclui o criador que já foi adicionado
-                isClosed: false,
-              },
-            });
-
-            for (const participant of groupParticipants) {
-              await tx.receiptParticipant.create({
-                data: {
-                  receiptId: receipt.id,
-                  participantId: participant.id,
-                },
-              });
-            }
-          }
-
-          // Busca recibo completo para retornar
-          return await tx.receipt.findUnique({
-            where: { id: receipt.id },
-            include: {
-              receiptParticipants: {
-                include: {
-                  participant: {
-                    include: {
-                      user: true,
-                    },
-                  },
-                },
-              },
-              receiptItems: true,
-              pendingParticipants: {
-                include: {
-                  user: true,
-                },
-              },
-              deletionRequests: true,
-            },
-          });
-        });
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        if (!result) {
-          throw new Error('Erro ao criar recibo');
-        }
+      const receipt = await createReceipt(request.userPayload.id, request.body);
 
-        return reply.status(201).send({
-          receipt: formatReceiptResponse(result),
-        });
-      } catch (error) {
-        console.error('Error creating receipt:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao criar recibo',
-            statusCode: 500,
-          },
-        });
-      }
+      return reply.status(201).send({
+        receipt,
+      });
     }
   );
 
   // PUT /api/receipts/:id - Atualizar recibo
-  fastify.put<{ Params: { id: string }; Body: UpdateReceiptDto }>(
+  fastify.put<{ Params: IdParams; Body: UpdateReceiptDto }>(
     '/:id',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('UpdateReceiptDto'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string }; Body: UpdateReceiptDto }>,
+      request: FastifyRequest<{ Params: IdParams; Body: UpdateReceiptDto }>,
       reply: FastifyReply
     ) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        const { id } = request.params;
-        const userId = request.userPayload.id;
-        const body = request.body;
-
-        // Verifica acesso e permissões
-        const access = await checkReceiptAccess(userId, id);
-        if (!access.hasAccess) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      const { id } = request.params;
+      const userId = request.userPayload.id;
+      const body = request.body;
 
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptItems: true,
-            receiptParticipants: {
-              include: {
-                participant: true,
-              },
-            },
-          },
-        });
+      // Verifica acesso e permissões
+      const access = await checkReceiptAccess(userId, id);
+      if (!access.hasAccess) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      const receipt = await prisma.receipt.findUnique({
+        where: { id },
+        select: { isClosed: true },
+      });
 
-        // Se recibo está fechado, não permite adicionar itens
-        if (receipt.isClosed && body.items && body.items.length > 0) {
-          return reply.status(403).send({
-            error: {
-              message: 'Não é possível adicionar produtos a um recibo fechado',
-              statusCode: 403,
-            },
-          });
-        }
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
 
-        // Criador pode modificar campos do recibo
-        const updateData: any = {};
-        if (access.isCreator) {
-          if (body.title !== undefined) updateData.title = body.title.trim();
-          if (body.serviceChargePercent !== undefined)
-            updateData.serviceChargePercent = body.serviceChargePercent;
-          if (body.cover !== undefined) updateData.cover = body.cover;
-          if (body.isClosed !== undefined) updateData.isClosed = body.isClosed;
-        }
+      // Criador pode modificar campos do recibo
+      const updateData: any = {};
+      if (access.isCreator) {
+        if (body.title !== undefined) updateData.title = body.title.trim();
+        if (body.category !== undefined) updateData.category = body.category;
 
-        // Participantes podem apenas adicionar itens
-        if (body.items && body.items.length > 0) {
+        // Taxa e cover já entraram nas despesas gravadas no fechamento
+        if (body.serviceChargePercent !== undefined || body.cover !== undefined) {
           if (receipt.isClosed) {
-            return reply.status(403).send({
-              error: {
-                message: 'Não é possível adicionar produtos a um recibo fechado',
-                statusCode: 403,
-              },
-            });
-          }
-
-          // Verifica limite de participantes ao aceitar pendentes
-          if (body.pendingParticipants && body.pendingParticipants.length > 0) {
-            const plan = await getUserActivePlan(userId);
-            const participantLimit = await checkParticipantLimit(id, plan);
-            if (!participantLimit.canAdd) {
-              return reply.status(403).send({
-                error: {
-                  message: participantLimit.message || 'Limite de participantes atingido',
-                  statusCode: 403,
-                },
-              });
-            }
-          }
-
-          // Adiciona novos itens
-          for (const item of body.items) {
-            // Verifica se participante existe
-            const participant = await prisma.participant.findUnique({
-              where: { id: item.participantId },
-            });
-
-            if (!participant) {
-              return reply.status(400).send({
-                error: {
-                  message: `Participante ${item.participantId} não encontrado`,
-                  statusCode: 400,
-                },
-              });
-            }
-
-            await prisma.receiptItem.create({
-              data: {
-                receiptId: id,
-                name: item.name,
-                quantity: item.quantity,
-                price: item.price,
-                participantId: item.participantId,
-              },
-            });
-
-            // Notifica outros participantes (assíncrono)
-            notifyItemAdded(id, item.participantId, userId).catch(console.error);
+            throw new AppError('RECEIPT_CLOSED');
           }
+          if (body.serviceChargePercent !== undefined)
+            updateData.serviceChargePercent = body.serviceChargePercent;
+          if (body.cover !== undefined) updateData.cover = body.cover;
         }
+      }
 
-        // Atualiza recibo se houver mudanças
-        if (Object.keys(updateData).length > 0) {
-          await prisma.receipt.update({
-            where: { id },
-            data: updateData,
-          });
-        }
-
-        // Recalcula total
-        await recalculateReceiptTotal(id);
-
-        // Busca recibo atualizado
-        const updatedReceipt = await prisma.receipt.findUnique({
+      // Atualiza recibo se houver mudanças
+      if (Object.keys(updateData).length > 0) {
+        await prisma.receipt.update({
           where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
+          data: updateData,
         });
+      }
 
-        if (!updatedReceipt) {
-          throw new Error('Erro ao buscar recibo atualizado');
-        }
+      // Recalcula total
+      await recalculateReceiptTotal(id);
 
-        return reply.send({
-          receipt: formatReceiptResponse(updatedReceipt),
-        });
-      } catch (error) {
-        console.error('Error updating receipt:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao atualizar recibo',
-            statusCode: 500,
-          },
-        });
-      }
+      const formattedReceipt = await getReceipt(id);
+      publishReceiptEvent(id, 'receipt_updated', { receipt: formattedReceipt }, userId);
+
+      return reply.send({
+        receipt: formattedReceipt,
+      });
     }
   );
 
   // DELETE /api/receipts/:id - Deletar recibo
-  fastify.delete<{ Params: { id: string } }>(
+  fastify.delete<{ Params: IdParams }>(
     '/:id',
-    { preHandler: [authenticate, checkIsCreator] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        const { id } = request.params;
-
-        await prisma.receipt.delete({
-          where: { id },
-        });
-
-        return reply.status(204).send();
-      } catch (error) {
-        console.error('Error deleting receipt:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao excluir recibo',
-            statusCode: 500,
-          },
-        });
-      }
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 204: { type: 'null' } },
+      },
+      preHandler: [authenticate, checkIsCreator],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      await prisma.receipt.delete({
+        where: { id },
+      });
+
+      publishReceiptEvent(id, 'receipt_deleted', {}, request.userPayload?.id);
+      revokeReceiptAccess(id);
+
+      return reply.status(204).send();
     }
   );
 
   // POST /api/receipts/:id/close - Fechar recibo
-  fastify.post<{ Params: { id: string } }>(
+  fastify.post<{ Params: IdParams }>(
     '/:id/close',
-    { preHandler: [authenticate, checkIsCreator] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        const { id } = request.params;
-        const userId = request.userPayload?.id;
-
-        if (!userId) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate, checkIsCreator],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        // Busca recibo com todos os dados necessários
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptItems: true,
-            receiptParticipants: {
-              include: {
-                participant: true,
-              },
-            },
-          },
-        });
+      const receipt = await closeReceipt(request.params.id, request.userPayload.id);
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      return reply.send({
+        receipt,
+      });
+    }
+  );
 
-        // Recalcula total final
-        const itemsTotal = receipt.receiptItems.reduce(
-          (sum, item) => sum + Number(item.quantity) * Number(item.price),
-          0
-        );
-        const total = calculateReceiptTotal(
-          itemsTotal,
-          receipt.serviceChargePercent ? Number(receipt.serviceChargePercent) : null,
-          receipt.cover ? Number(receipt.cover) : null
-        );
-
-        // Fecha recibo e cria registros de despesas em transação
-        const updatedReceipt = await prisma.$transaction(async (tx) => {
-          // Atualiza recibo
-          const updated = await tx.receipt.update({
-            where: { id },
-            data: {
-              isClosed: true,
-              total,
-            },
-          });
+  // POST /api/receipts/:id/request-join - Solicitar entrada em recibo
+  fastify.post<{ Params: IdParams; Body: RequestJoinDto }>(
+    '/:id/request-join',
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('RequestJoinDto'),
+        response: { 201: ref('RequestJoinResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Body: RequestJoinDto }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-          // Cria registros em user_receipt_expenses para cada participante
-          for (const rp of receipt.receiptParticipants) {
-            if (rp.participant.userId && !rp.participant.isClosed) {
-              // Calcula total gasto pelo participante
-              const participantItems = receipt.receiptItems.filter(
-                (item) => item.participantId === rp.participant.id
-              );
-              const itemsTotal = participantItems.reduce(
-                (sum, item) => sum + Number(item.quantity) * Number(item.price),
-                0
-              );
-              const serviceChargeAmount =
-                (itemsTotal * Number(receipt.serviceChargePercent || 0)) / 100;
-              const coverAmount = Number(receipt.cover || 0);
-              const totalSpent = itemsTotal + serviceChargeAmount + coverAmount;
-
-              // Calcula período
-              const receiptDate = receipt.date;
-              const periodMonth = `${receiptDate.getFullYear()}-${String(receiptDate.getMonth() + 1).padStart(2, '0')}`;
-              const periodDay = `${receiptDate.getFullYear()}-${String(receiptDate.getMonth() + 1).padStart(2, '0')}-${String(receiptDate.getDate()).padStart(2, '0')}`;
-
-              await tx.userReceiptExpense.create({
-                data: {
-                  userId: rp.participant.userId,
-                  receiptId: id,
-                  participantId: rp.participant.id,
-                  itemsTotal,
-                  serviceChargeAmount,
-                  coverAmount,
-                  totalSpent,
-                  receiptDate: receipt.date,
-                  receiptTitle: receipt.title,
-                  isClosed: true,
-                  periodMonth,
-                  periodDay,
-                },
-              });
-            }
-          }
+      const { id } = request.params;
+      const userId = request.userPayload.id;
+      const { name } = request.body;
 
-          return updated;
+      if (REQUIRE_EMAIL_VERIFICATION) {
+        const user = await prisma.sharezinUser.findUnique({
+          where: { id: userId },
+          select: { emailVerifiedAt: true },
         });
 
-        // Notifica participantes (assíncrono)
-        notifyReceiptClosed(id, userId).catch(console.error);
+        if (!user?.emailVerifiedAt) {
+          throw new AppError('EMAIL_NOT_VERIFIED');
+        }
+      }
 
-        // Busca recibo completo para retornar
-        const receiptWithRelations = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
+      // Busca recibo
+      const receipt = await prisma.receipt.findUnique({
+        where: { id },
+        include: {
+          receiptParticipants: {
+            include: {
+              participant: true,
             },
-            deletionRequests: true,
           },
-        });
+          pendingParticipants: true,
+        },
+      });
 
-        if (!receiptWithRelations) {
-          throw new Error('Erro ao buscar recibo');
-        }
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
 
-        return reply.send({
-          receipt: formatReceiptResponse(receiptWithRelations),
-        });
-      } catch (error) {
-        console.error('Error closing receipt:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao fechar recibo',
-            statusCode: 500,
-          },
-        });
+      // Validações
+      if (receipt.isClosed) {
+        throw new AppError('RECEIPT_CLOSED');
       }
+
+      if (receipt.creatorId === userId) {
+        throw new AppError('RECEIPT_OWNER_CANNOT_JOIN');
+      }
+
+      // Verifica se já é participante
+      const isParticipant = receipt.receiptParticipants.some(
+        (rp) => rp.participant.userId === userId && !rp.isClosed
+      );
+
+      if (isParticipant) {
+        throw new AppError('ALREADY_PARTICIPANT');
+      }
+
+      // Verifica se já tem solicitação pendente
+      const hasPendingRequest = receipt.pendingParticipants.some(
+        (pp) => pp.userId === userId && pp.status === 'pending'
+      );
+
+      if (hasPendingRequest) {
+        throw new AppError('JOIN_ALREADY_REQUESTED');
+      }
+
+      // Busca nome do usuário
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id: userId },
+      });
+
+      // Cria solicitação pendente
+      const pendingParticipant = await prisma.pendingParticipant.create({
+        data: {
+          receiptId: id,
+          userId: userId,
+          name: name || user?.name || user?.email || 'Participante',
+        },
+      });
+
+      // Notifica criador (assíncrono)
+      notifyParticipantRequest(id, userId, receipt.creatorId).catch(console.error);
+
+      const formattedPending = {
+        id: pendingParticipant.id,
+        name: pendingParticipant.name,
+        userId: pendingParticipant.userId,
+        requestedAt: pendingParticipant.requestedAt.toISOString(),
+      };
+      publishReceiptEvent(
+        id,
+        'participant_requested',
+        { pendingParticipant: formattedPending },
+        userId
+      );
+
+      return reply.status(201).send({
+        message: 'Solicitação de entrada enviada com sucesso',
+        pendingParticipant: formattedPending,
+      });
     }
   );
 
-  // POST /api/receipts/:id/request-join - Solicitar entrada em recibo
-  fastify.post<{ Params: { id: string }; Body: RequestJoinDto }>(
-    '/:id/request-join',
-    { preHandler: [authenticate] },
+  // POST /api/receipts/:id/pending/:pendingId/approve - Aprovar solicitação de entrada
+  fastify.post<{ Params: ReceiptPendingParams }>(
+    '/:id/pending/:pendingId/approve',
+    {
+      schema: {
+        params: ref('ReceiptPendingParams'),
+        response: { 200: ref('ReceiptActionResponse') },
+      },
+      preHandler: [authenticate, checkIsCreatorAndNotClosed],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string }; Body: RequestJoinDto }>,
+      request: FastifyRequest<{ Params: ReceiptPendingParams }>,
       reply: FastifyReply
     ) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { id, pendingId } = request.params;
+      const userId = request.userPayload.id;
+
+      const pendingParticipant = await prisma.pendingParticipant.findFirst({
+        where: {
+          id: pendingId,
+          receiptId: id,
+        },
+        include: {
+          receipt: true,
+        },
+      });
+
+      if (!pendingParticipant) {
+        throw new AppError('JOIN_REQUEST_NOT_FOUND');
+      }
+
+      if (pendingParticipant.status === 'rejected') {
+        throw new AppError('REQUEST_ALREADY_REJECTED');
+      }
+
+      // Se a solicitação já foi aprovada, apenas retorna o recibo (idempotente)
+      if (pendingParticipant.status === 'pending') {
+        const approvedParticipant = await prisma.$transaction(async (tx) => {
+          // Marca como aprovada apenas se ainda estiver pendente (evita aprovação dupla)
+          const claimed = await tx.pendingParticipant.updateMany({
+            where: {
+              id: pendingId,
+              status: 'pending',
+            },
+            data: {
+              status: 'approved',
+              resolvedAt: new Date(),
             },
           });
-        }
 
-        const { id } = request.params;
-        const userId = request.userPayload.id;
-        const { name } = request.body;
+          if (claimed.count === 0) {
+            return null;
+          }
 
-        // Busca recibo
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: true,
+          // Reaproveita participação existente do usuário neste recibo
+          const existing = await tx.receiptParticipant.findFirst({
+            where: {
+              receiptId: id,
+              participant: {
+                userId: pendingParticipant.userId,
               },
             },
-            pendingParticipants: true,
-          },
-        });
-
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
+            include: {
+              participant: true,
             },
           });
-        }
 
-        // Validações
-        if (receipt.isClosed) {
-          return reply.status(400).send({
-            error: {
-              message: 'Não é possível solicitar entrada em um recibo fechado',
-              statusCode: 400,
+          // Quem fechou a participação volta ao recibo com a mesma participação reaberta
+          if (existing) {
+            if (existing.isClosed) {
+              await tx.receiptParticipant.update({
+                where: { id: existing.id },
+                data: { isClosed: false },
+              });
+            }
+
+            return existing.participant;
+          }
+
+          // Limite de participantes é o do plano do criador do recibo (a aprovação é desfeita)
+          const participantLimit = await checkParticipantLimit(id, tx);
+          if (!participantLimit.canAdd) {
+            throw new AppError('PARTICIPANT_LIMIT_REACHED', { limit: participantLimit.limit ?? 0 });
+          }
+
+          const participant = await tx.participant.create({
+            data: {
+              name: pendingParticipant.name,
+              userId: pendingParticipant.userId,
             },
           });
-        }
 
-        if (receipt.creatorId === userId) {
-          return reply.status(400).send({
-            error: {
-              message: 'Você é o responsável por este recibo',
-              statusCode: 400,
+          await tx.receiptParticipant.create({
+            data: {
+              receiptId: id,
+              participantId: participant.id,
             },
           });
-        }
 
-        // Verifica se já é participante
-        const isParticipant = receipt.receiptParticipants.some(
-          (rp) => rp.participant.userId === userId && !rp.participant.isClosed
-        );
+          return participant;
+        });
 
-        if (isParticipant) {
-          return reply.status(400).send({
-            error: {
-              message: 'Você já é participante deste recibo',
-              statusCode: 400,
+        if (approvedParticipant) {
+          // Notifica solicitante (assíncrono)
+          notifyParticipantApproved(id, approvedParticipant.id, userId).catch(console.error);
+
+          publishReceiptEvent(
+            id,
+            'participant_joined',
+            {
+              participant: {
+                id: approvedParticipant.id,
+                name: approvedParticipant.name,
+                userId: approvedParticipant.userId || undefined,
+                isClosed: false,
+              },
             },
+            userId
+          );
+        } else {
+          // Outra requisição resolveu a solicitação ao mesmo tempo
+          const resolved = await prisma.pendingParticipant.findUnique({
+            where: { id: pendingId },
           });
+
+          if (resolved?.status === 'rejected') {
+            throw new AppError('REQUEST_ALREADY_REJECTED');
+          }
         }
+      }
+
+      return reply.send({
+        message: 'Participante aprovado com sucesso',
+        receipt: await getReceipt(id),
+      });
+    }
+  );
 
-        // Verifica se já tem solicitação pendente
-        const hasPendingRequest = receipt.pendingParticipants.some(
-          (pp) => pp.userId === userId
-        );
+  // POST /api/receipts/:id/pending/:pendingId/reject - Rejeitar solicitação de entrada
+  fastify.post<{ Params: ReceiptPendingParams }>(
+    '/:id/pending/:pendingId/reject',
+    {
+      schema: {
+        params: ref('ReceiptPendingParams'),
+        response: { 200: ref('ReceiptActionResponse') },
+      },
+      preHandler: [authenticate, checkIsCreatorAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptPendingParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        if (hasPendingRequest) {
-          return reply.status(400).send({
-            error: {
-              message: 'Você já solicitou entrada neste recibo',
-              statusCode: 400,
-            },
-          });
-        }
+      const { id, pendingId } = request.params;
+      const userId = request.userPayload.id;
 
-        // Busca nome do usuário
-        const user = await prisma.sharezinUser.findUnique({
-          where: { id: userId },
-        });
+      const pendingParticipant = await prisma.pendingParticipant.findFirst({
+        where: {
+          id: pendingId,
+          receiptId: id,
+        },
+      });
 
-        // Cria solicitação pendente
-        const pendingParticipant = await prisma.pendingParticipant.create({
-          data: {
-            receiptId: id,
-            userId: userId,
-            name: name || user?.name || user?.email || 'Participante',
-          },
-        });
+      if (!pendingParticipant) {
+        throw new AppError('JOIN_REQUEST_NOT_FOUND');
+      }
 
-        // Notifica criador (assíncrono)
-        notifyParticipantRequest(id, userId, receipt.creatorId).catch(console.error);
+      if (pendingParticipant.status === 'approved') {
+        throw new AppError('REQUEST_ALREADY_APPROVED');
+      }
 
-        return reply.status(201).send({
-          message: 'Solicitação de entrada enviada com sucesso',
-          pendingParticipant: {
-            id: pendingParticipant.id,
-            name: pendingParticipant.name,
-            userId: pendingParticipant.userId,
-            requestedAt: pendingParticipant.requestedAt.toISOString(),
+      // Se a solicitação já foi rejeitada, apenas retorna o recibo (idempotente)
+      if (pendingParticipant.status === 'pending') {
+        const rejected = await prisma.pendingParticipant.updateMany({
+          where: {
+            id: pendingId,
+            status: 'pending',
           },
-        });
-      } catch (error) {
-        console.error('Error creating join request:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao criar solicitação de entrada',
-            statusCode: 500,
+          data: {
+            status: 'rejected',
+            resolvedAt: new Date(),
           },
         });
+
+        if (rejected.count > 0) {
+          // Notifica solicitante (assíncrono)
+          notifyParticipantRejected(id, pendingParticipant.userId, userId).catch(
+            console.error
+          );
+
+          publishReceiptEvent(
+            id,
+            'participant_rejected',
+            { pendingParticipantId: pendingId },
+            userId
+          );
+        }
       }
+
+      return reply.send({
+        message: 'Solicitação rejeitada',
+        receipt: await getReceipt(id),
+      });
     }
   );
 
-  // PUT /api/receipts/:id/transfer-creator - Transferir criador
-  fastify.put<{ Params: { id: string }; Body: TransferCreatorDto }>(
-    '/:id/transfer-creator',
-    { preHandler: [authenticate, checkIsCreatorAndNotClosed] },
+  // POST /api/receipts/:id/items/:itemId/deletion-requests - Solicitar exclusão de item
+  fastify.post<{ Params: ReceiptItemParams }>(
+    '/:id/items/:itemId/deletion-requests',
+    {
+      schema: {
+        params: ref('ReceiptItemParams'),
+        response: { 201: ref('DeletionRequestResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string }; Body: TransferCreatorDto }>,
+      request: FastifyRequest<{ Params: ReceiptItemParams }>,
       reply: FastifyReply
     ) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const { id } = request.params;
-        const userId = request.userPayload.id;
-        const { newCreatorParticipantId } = request.body;
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        if (!newCreatorParticipantId) {
-          return reply.status(400).send({
-            error: {
-              message: 'ID do novo criador é obrigatório',
-              statusCode: 400,
-            },
-          });
-        }
+      const { id, itemId } = request.params;
+      const userId = request.userPayload.id;
+
+      const item = await prisma.receiptItem.findFirst({
+        where: {
+          id: itemId,
+          receiptId: id,
+        },
+        include: {
+          participant: true,
+        },
+      });
+
+      if (!item) {
+        throw new AppError('ITEM_NOT_FOUND');
+      }
 
-        // Busca recibo
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: true,
-              },
-            },
+      // Participação do solicitante neste recibo
+      const requester = await prisma.receiptParticipant.findFirst({
+        where: {
+          receiptId: id,
+          isClosed: false,
+          participant: {
+            userId,
           },
-        });
+        },
+      });
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
-
-        if (receipt.isClosed) {
-          return reply.status(400).send({
-            error: {
-              message: 'Não é possível transferir criador de um recibo fechado',
-              statusCode: 400,
-            },
-          });
-        }
+      if (!requester) {
+        throw new AppError('NOT_A_PARTICIPANT');
+      }
 
-        // Busca novo criador (participante)
-        const newCreatorParticipant = await prisma.participant.findUnique({
-          where: { id: newCreatorParticipantId },
-        });
+      if (item.participant.userId === userId) {
+        throw new AppError('ITEM_OWNER_CAN_DELETE');
+      }
 
-        if (!newCreatorParticipant || !newCreatorParticipant.userId) {
-          return reply.status(400).send({
-            error: {
-              message: 'Novo criador não encontrado',
-              statusCode: 400,
-            },
-          });
-        }
+      const existingRequest = await prisma.deletionRequest.findFirst({
+        where: {
+          itemId,
+          participantId: requester.participantId,
+        },
+      });
 
-        if (newCreatorParticipant.userId === userId) {
-          return reply.status(400).send({
-            error: {
-              message: 'Não é possível transferir para si mesmo',
-              statusCode: 400,
-            },
-          });
-        }
+      if (existingRequest) {
+        throw new AppError('DELETION_ALREADY_REQUESTED');
+      }
 
-        // Verifica se é participante do recibo
-        const isParticipant = receipt.receiptParticipants.some(
-          (rp) => rp.participantId === newCreatorParticipantId
-        );
+      const deletionRequest = await prisma.deletionRequest.create({
+        data: {
+          receiptId: id,
+          itemId,
+          participantId: requester.participantId,
+        },
+      });
+
+      // Notifica criador e dono do item (assíncrono)
+      notifyDeletionRequest(id, itemId, userId).catch(console.error);
+
+      const formattedRequest = {
+        id: deletionRequest.id,
+        itemId: deletionRequest.itemId,
+        participantId: deletionRequest.participantId,
+        requestedAt: deletionRequest.requestedAt.toISOString(),
+      };
+      publishReceiptEvent(
+        id,
+        'deletion_requested',
+        { deletionRequest: formattedRequest },
+        userId
+      );
+
+      return reply.status(201).send({
+        message: 'Solicitação de exclusão enviada com sucesso',
+        deletionRequest: formattedRequest,
+      });
+    }
+  );
 
-        if (!isParticipant) {
-          return reply.status(400).send({
-            error: {
-              message: 'O novo criador deve ser um participante do recibo',
-              statusCode: 400,
-            },
-          });
-        }
+  // POST /api/receipts/:id/deletion-requests/:requestId/approve - Aprovar exclusão de item
+  fastify.post<{ Params: ReceiptDeletionRequestParams }>(
+    '/:id/deletion-requests/:requestId/approve',
+    {
+      schema: {
+        params: ref('ReceiptDeletionRequestParams'),
+        response: { 200: ref('ReceiptActionResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptDeletionRequestParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        if (newCreatorParticipant.isClosed) {
-          return reply.status(400).send({
-            error: {
-              message: 'Não é possível transferir para um participante que fechou sua participação',
-              statusCode: 400,
+      const { id, requestId } = request.params;
+      const userId = request.userPayload.id;
+
+      const deletionRequest = await prisma.deletionRequest.findFirst({
+        where: {
+          id: requestId,
+          receiptId: id,
+        },
+        include: {
+          receipt: true,
+          participant: true,
+          item: {
+            include: {
+              participant: true,
             },
-          });
-        }
-
-        // Atualiza criador
-        const updatedReceipt = await prisma.receipt.update({
-          where: { id },
-          data: {
-            creatorId: newCreatorParticipant.userId,
           },
-        });
+        },
+      });
 
-        // Notifica transferência (assíncrono)
-        notifyCreatorTransferred(id, userId, newCreatorParticipant.userId).catch(
-          console.error
-        );
+      if (!deletionRequest) {
+        throw new AppError('DELETION_REQUEST_NOT_FOUND');
+      }
 
-        // Busca recibo completo para retornar
-        const receiptWithRelations = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-        });
+      // Apenas o criador do recibo ou o dono do item podem decidir
+      const isCreator = deletionRequest.receipt.creatorId === userId;
+      const isItemOwner = deletionRequest.item.participant.userId === userId;
 
-        if (!receiptWithRelations) {
-          throw new Error('Erro ao buscar recibo');
-        }
+      if (!isCreator && !isItemOwner) {
+        throw new AppError('DELETION_REVIEW_DENIED');
+      }
 
-        return reply.send({
-          receipt: formatReceiptResponse(receiptWithRelations),
-        });
-      } catch (error) {
-        console.error('Error transferring creator:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao transferir criador',
-            statusCode: 500,
+      // Remove item (e suas solicitações, em cascata) e recalcula total
+      await prisma.$transaction(async (tx) => {
+        await tx.receiptItem.deleteMany({
+          where: {
+            id: deletionRequest.itemId,
+            receiptId: id,
           },
         });
+
+        await recalculateReceiptTotal(id, tx);
+      });
+
+      publishReceiptEvent(
+        id,
+        'deletion_resolved',
+        { requestId, itemId: deletionRequest.itemId, approved: true },
+        userId
+      );
+      publishReceiptEvent(id, 'item_deleted', { itemId: deletionRequest.itemId }, userId);
+
+      // Notifica solicitante (assíncrono)
+      if (deletionRequest.participant.userId) {
+        notifyDeletionApproved(
+          id,
+          deletionRequest.item.name,
+          deletionRequest.participant.userId,
+          userId
+        ).catch(console.error);
       }
+
+      return reply.send({
+        message: 'Exclusão aprovada com sucesso',
+        receipt: await getReceipt(id),
+      });
     }
   );
 
-  // DELETE /api/receipts/:id/participants/:participantId - Remover participante
-  fastify.delete<{ Params: { id: string; participantId: string } }>(
-    '/:id/participants/:participantId',
-    { preHandler: [authenticate, checkIsCreator] },
+  // POST /api/receipts/:id/deletion-requests/:requestId/reject - Rejeitar exclusão de item
+  fastify.post<{ Params: ReceiptDeletionRequestParams }>(
+    '/:id/deletion-requests/:requestId/reject',
+    {
+      schema: {
+        params: ref('ReceiptDeletionRequestParams'),
+        response: { 200: ref('ReceiptActionResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipantAndNotClosed],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string; participantId: string } }>,
+      request: FastifyRequest<{ Params: ReceiptDeletionRequestParams }>,
       reply: FastifyReply
     ) => {
-      try {
-        const { id, participantId } = request.params;
-
-        // Remove participante e seus itens em transação
-        await prisma.$transaction(async (tx) => {
-          // Remove itens do participante
-          await tx.receiptItem.deleteMany({
-            where: {
-              receiptId: id,
-              participantId: participantId,
-            },
-          });
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-          // Remove participante do recibo
-          await tx.receiptParticipant.deleteMany({
-            where: {
-              receiptId: id,
-              participantId: participantId,
+      const { id, requestId } = request.params;
+      const userId = request.userPayload.id;
+
+      const deletionRequest = await prisma.deletionRequest.findFirst({
+        where: {
+          id: requestId,
+          receiptId: id,
+        },
+        include: {
+          receipt: true,
+          participant: true,
+          item: {
+            include: {
+              participant: true,
             },
-          });
-        });
+          },
+        },
+      });
 
-        // Recalcula total
-        await recalculateReceiptTotal(id);
+      if (!deletionRequest) {
+        throw new AppError('DELETION_REQUEST_NOT_FOUND');
+      }
 
-        // Busca recibo atualizado
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-        });
+      // Apenas o criador do recibo ou o dono do item podem decidir
+      const isCreator = deletionRequest.receipt.creatorId === userId;
+      const isItemOwner = deletionRequest.item.participant.userId === userId;
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      if (!isCreator && !isItemOwner) {
+        throw new AppError('DELETION_REVIEW_DENIED');
+      }
 
-        return reply.send({
-          receipt: formatReceiptResponse(receipt),
-        });
-      } catch (error) {
-        console.error('Error removing participant:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao remover participante',
-            statusCode: 500,
-          },
-        });
+      await prisma.deletionRequest.deleteMany({
+        where: { id: requestId },
+      });
+
+      publishReceiptEvent(
+        id,
+        'deletion_resolved',
+        { requestId, itemId: deletionRequest.itemId, approved: false },
+        userId
+      );
+
+      // Notifica solicitante (assíncrono)
+      if (deletionRequest.participant.userId) {
+        notifyDeletionRejected(
+          id,
+          deletionRequest.item.name,
+          deletionRequest.participant.userId,
+          userId
+        ).catch(console.error);
       }
+
+      return reply.send({
+        message: 'Exclusão rejeitada',
+        receipt: await getReceipt(id),
+      });
     }
   );
 
-  // POST /api/receipts/:id/participants/:participantId/close - Fechar participação
-  fastify.post<{ Params: { id: string; participantId: string } }>(
-    '/:id/participants/:participantId/close',
-    { preHandler: [authenticate] },
+  // PUT /api/receipts/:id/transfer-creator - Transferir criador
+  fastify.put<{ Params: IdParams; Body: TransferCreatorDto }>(
+    '/:id/transfer-creator',
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('TransferCreatorDto'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate, checkIsCreatorAndNotClosed],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string; participantId: string } }>,
+      request: FastifyRequest<{ Params: IdParams; Body: TransferCreatorDto }>,
       reply: FastifyReply
     ) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const { id, participantId } = request.params;
-        const userId = request.userPayload.id;
-
-        // Verifica se é o participante ou criador
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: true,
-              },
-            },
-          },
-        });
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      const receipt = await transferCreator(
+        request.params.id,
+        request.userPayload.id,
+        request.body.newCreatorParticipantId
+      );
 
-        const receiptParticipant = receipt.receiptParticipants.find(
-          (rp) => rp.participantId === participantId
-        );
+      return reply.send({
+        receipt,
+      });
+    }
+  );
 
-        if (!receiptParticipant) {
-          return reply.status(404).send({
-            error: {
-              message: 'Participante não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+  // DELETE /api/receipts/:id/participants/:participantId - Remover participante
+  fastify.delete<{ Params: ReceiptParticipantParams }>(
+    '/:id/participants/:participantId',
+    {
+      schema: {
+        params: ref('ReceiptParticipantParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate, checkIsCreator],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptParticipantParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        // Verifica permissão (pode ser o próprio participante ou criador)
-        const isCreator = receipt.creatorId === userId;
-        const isParticipant = receiptParticipant.participant.userId === userId;
+      const { id, participantId } = request.params;
 
-        if (!isCreator && !isParticipant) {
-          return reply.status(403).send({
-            error: {
-              message: 'Sem permissão para fechar esta participação',
-              statusCode: 403,
-            },
-          });
-        }
+      const receipt = await removeParticipant(id, request.userPayload.id, participantId);
 
-        // Fecha participação
-        await prisma.participant.update({
-          where: { id: participantId },
-          data: { isClosed: true },
-        });
+      return reply.send({
+        receipt,
+      });
+    }
+  );
 
-        // Recalcula total
-        await recalculateReceiptTotal(id);
+  // POST /api/receipts/:id/participants/:participantId/close - Fechar participação
+  fastify.post<{ Params: ReceiptParticipantParams }>(
+    '/:id/participants/:participantId/close',
+    {
+      schema: {
+        params: ref('ReceiptParticipantParams'),
+        response: { 200: ref('ReceiptResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (
+      request: FastifyRequest<{ Params: ReceiptParticipantParams }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        // Busca recibo atualizado
-        const updatedReceipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: {
-                  include: {
-                    user: true,
-                  },
-                },
-              },
-            },
-            receiptItems: true,
-            pendingParticipants: {
-              include: {
-                user: true,
-              },
-            },
-            deletionRequests: true,
-          },
-        });
+      const { id, participantId } = request.params;
 
-        if (!updatedReceipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      const receipt = await closeParticipation(id, request.userPayload.id, participantId);
 
-        return reply.send({
-          receipt: formatReceiptResponse(updatedReceipt),
-        });
-      } catch (error) {
-        console.error('Error closing participant:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao fechar participação',
-            statusCode: 500,
-          },
-        });
-      }
+      return reply.send({
+        receipt,
+      });
     }
   );
 
   // GET /api/receipts/:id/participants/user-ids - Buscar user IDs dos participantes
-  fastify.get<{ Params: { id: string } }>(
+  fastify.get<{ Params: IdParams }>(
     '/:id/participants/user-ids',
-    { preHandler: [authenticate, checkIsParticipant] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        const { id } = request.params;
-
-        const receipt = await prisma.receipt.findUnique({
-          where: { id },
-          include: {
-            receiptParticipants: {
-              include: {
-                participant: true,
-              },
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('ReceiptUserIdsResponse') },
+      },
+      preHandler: [authenticate, checkIsParticipant],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const receipt = await prisma.receipt.findUnique({
+        where: { id },
+        include: {
+          receiptParticipants: {
+            include: {
+              participant: true,
             },
           },
-        });
+        },
+      });
 
-        if (!receipt) {
-          return reply.status(404).send({
-            error: {
-              message: 'Recibo não encontrado',
-              statusCode: 404,
-            },
-          });
-        }
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
 
-        const userIds = receipt.receiptParticipants
-          .map((rp) => rp.participant.userId)
-          .filter((userId): userId is string => userId !== null);
+      const userIds = receipt.receiptParticipants
+        .map((rp) => rp.participant.userId)
+        .filter((userId): userId is string => userId !== null);
 
-        return reply.send({
-          userIds,
-        });
-      } catch (error) {
-        console.error('Error fetching participant user IDs:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao buscar user IDs',
-            statusCode: 500,
-          },
-        });
-      }
+      return reply.send({
+        userIds,
+      });
     }
   );
 
   // GET /api/receipts/dashboard-stats - Estatísticas do dashboard
-  fastify.get<{ Querystring: { year?: string } }>(
+  fastify.get<{ Querystring: DashboardStatsQuery }>(
     '/dashboard-stats',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        if (!request.userPayload) {
-          return reply.status(401).send({
-            error: {
-              message: 'Não autenticado',
-              statusCode: 401,
-            },
-          });
-        }
-
-        const userId = request.userPayload.id;
-        const query = request.query as { year?: string };
-        const year = query.year
-          ? parseInt(query.year, 10)
-          : new Date().getFullYear();
-
-        // Busca despesas do usuário (apenas recibos fechados)
-        const expenses = await prisma.userReceiptExpense.findMany({
-          where: {
-            userId,
-            isClosed: true,
-            receiptDate: {
-              gte: new Date(`${year}-01-01`),
-              lt: new Date(`${year + 1}-01-01`),
-            },
-          },
-          orderBy: {
-            receiptDate: 'asc',
-          },
-        });
-
-        // Agrupa por período (mês)
-        const expensesByPeriodMap = new Map<string, { total: number; receiptCount: number }>();
-        expenses.forEach((expense) => {
-          const period = expense.periodMonth;
-          if (!period) return;
-          const current = expensesByPeriodMap.get(period) || { total: 0, receiptCount: 0 };
-          expensesByPeriodMap.set(period, {
-            total: current.total + Number(expense.totalSpent),
-            receiptCount: current.receiptCount + 1,
-          });
-        });
+    {
+      schema: {
+        querystring: ref('DashboardStatsQuery'),
+        response: {
+          200: ref('DashboardStats'),
+          402: ref('ErrorResponse'),
+        },
+      },
+      preHandler: [authenticate, requirePlanFeature('dashboard')],
+    },
+    async (request: FastifyRequest<{ Querystring: DashboardStatsQuery }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        const expensesByPeriod = Array.from(expensesByPeriodMap.entries())
-          .map(([period, data]) => ({
-            period,
-            total: data.total,
-            receiptCount: data.receiptCount,
-          }))
-          .sort((a, b) => a.period.localeCompare(b.period));
-
-        // Agrupa por dia
-        const expensesByDayMap = new Map<string, { total: number; receiptCount: number }>();
-        expenses.forEach((expense) => {
-          const day = expense.periodDay;
-          if (!day) return;
-          const current = expensesByDayMap.get(day) || { total: 0, receiptCount: 0 };
-          expensesByDayMap.set(day, {
-            total: current.total + Number(expense.totalSpent),
-            receiptCount: current.receiptCount + 1,
-          });
-        });
+      const userId = request.userPayload.id;
+      const range = resolveDashboardRange(request.query);
 
-        const expensesByDay = Array.from(expensesByDayMap.entries())
-          .map(([day, data]) => ({
-            day,
-            total: data.total,
-            receiptCount: data.receiptCount,
-          }))
-          .sort((a, b) => a.day.localeCompare(b.day));
-
-        // Distribuição de gastos
-        const expenseDistributionMap = new Map<
-          string,
-          {
-            receiptId: string;
-            receiptTitle: string;
-            receiptDate: string;
-            totalSpent: number;
-            isClosed: boolean;
-          }
-        >();
-
-        expenses.forEach((expense) => {
-          const key = expense.receiptId;
-          if (!key) return;
-          const current = expenseDistributionMap.get(key);
-          if (current) {
-            expenseDistributionMap.set(key, {
-              ...current,
-              totalSpent: current.totalSpent + Number(expense.totalSpent),
-            });
-          } else {
-            expenseDistributionMap.set(key, {
-              receiptId: key,
-              receiptTitle: expense.receiptTitle || '',
-              receiptDate: expense.receiptDate.toISOString(),
-              totalSpent: Number(expense.totalSpent),
-              isClosed: expense.isClosed,
-            });
-          }
-        });
+      // Recibos fora do histórico do plano não entram nas estatísticas
+      const scope = { userId, visibleReceiptIds: await getVisibleHistoryReceiptIds(userId) };
 
-        const expenseDistribution = Array.from(expenseDistributionMap.values()).sort(
-          (a, b) => new Date(b.receiptDate).getTime() - new Date(a.receiptDate).getTime()
-        );
+      // Sem o recurso analytics, só as somas básicas (analytics: null)
+      const stats = await getDashboardStats(scope, range, {
+        analytics: await hasPlanFeature(userId, 'analytics'),
+      });
 
-        return reply.send({
-          expensesByPeriod,
-          expensesByDay,
-          expenseDistribution,
-        });
-      } catch (error) {
-        console.error('Error fetching dashboard stats:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Erro ao buscar estatísticas',
-            statusCode: 500,
-          },
-        });
-      }
+      return reply.send(stats);
     }
   );
 }
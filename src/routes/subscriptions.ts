@@ -0,0 +1,137 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { authenticate } from '../middleware/auth';
+import { FREE_PLAN_NAME, formatPlanResponse } from '../utils/plans';
+import {
+  cancelSubscription,
+  expireSubscriptions,
+  formatSubscriptionResponse,
+  getCurrentSubscription,
+  getSubscriptionExpiresAt,
+  subscribeToPlan,
+} from '../utils/subscriptions';
+import { CancelSubscriptionDto, CreateSubscriptionDto } from '../types';
+import { ref } from '../schemas';
+import { AppError } from '../utils/errors';
+
+/**
+ * Cancela a assinatura do usuário autenticado (compartilhado por PUT / e POST /cancel)
+ */
+async function handleCancel(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.userPayload) {
+    throw new AppError('UNAUTHENTICATED');
+  }
+
+  const subscription = await cancelSubscription(request.userPayload.id);
+
+  return reply.send({
+    message: 'Assinatura cancelada com sucesso',
+    subscription: formatSubscriptionResponse(subscription),
+  });
+}
+
+export async function subscriptionRoutes(fastify: FastifyInstance) {
+  // GET /api/subscriptions - Obter assinatura atual
+  fastify.get(
+    '/',
+    {
+      schema: {
+        response: { 200: ref('CurrentSubscriptionResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const userId = request.userPayload.id;
+
+      await expireSubscriptions(userId);
+
+      const [current, scheduled] = await Promise.all([
+        getCurrentSubscription(userId),
+        prisma.userSubscription.findFirst({
+          where: {
+            userId,
+            status: 'active',
+            startedAt: { gt: new Date() },
+          },
+          include: {
+            plan: true,
+          },
+        }),
+      ]);
+
+      // Sem assinatura, o usuário está no plano gratuito
+      const plan = current
+        ? current.plan
+        : await prisma.plan.findUnique({
+            where: { name: FREE_PLAN_NAME },
+          });
+
+      return reply.send({
+        subscription: current ? formatSubscriptionResponse(current) : null,
+        plan: plan ? formatPlanResponse(plan) : null,
+        expiresAt: current ? getSubscriptionExpiresAt(current).toISOString() : null,
+        scheduledSubscription: scheduled ? formatSubscriptionResponse(scheduled) : null,
+      });
+    }
+  );
+
+  // POST /api/subscriptions - Assinar, fazer upgrade ou downgrade de plano
+  fastify.post<{ Body: CreateSubscriptionDto }>(
+    '/',
+    {
+      schema: {
+        body: ref('CreateSubscriptionDto'),
+        response: { 200: ref('SubscribeResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Body: CreateSubscriptionDto }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
+
+      const { planId } = request.body || {};
+
+      const { subscription, change } = await subscribeToPlan(request.userPayload.id, planId);
+
+      return reply.send({
+        subscription: formatSubscriptionResponse(subscription),
+        expiresAt: getSubscriptionExpiresAt(subscription).toISOString(),
+        change,
+      });
+    }
+  );
+
+  // PUT /api/subscriptions - Cancelar assinatura
+  fastify.put<{ Body: CancelSubscriptionDto }>(
+    '/',
+    {
+      schema: {
+        body: ref('CancelSubscriptionDto'),
+        response: { 200: ref('CancelSubscriptionResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Body: CancelSubscriptionDto }>, reply: FastifyReply) => {
+      return await handleCancel(request, reply);
+    }
+  );
+
+  // POST /api/subscriptions/cancel - Cancelar assinatura (alternativo)
+  fastify.post(
+    '/cancel',
+    {
+      schema: {
+        response: { 200: ref('CancelSubscriptionResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return await handleCancel(request, reply);
+    }
+  );
+}
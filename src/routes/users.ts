@@ -1,237 +1,250 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import { authenticate } from '../middleware/auth';
-import { AuthenticatedRequest, CreateUserDto, UpdateUserDto } from '../types';
+import { checkIsAdmin, checkIsSelfOrAdmin } from '../middleware/user-permissions';
+import {
+  AuthenticatedRequest,
+  CreateUserDto,
+  UpdateUserDto,
+  IdParams,
+  UserSearchQuery,
+} from '../types';
+import { ref } from '../schemas';
+import { publishReceiptEvent, revokeReceiptAccess } from '../utils/realtime';
+import { notifyCreatorReassigned } from '../utils/notifications';
+import {
+  deleteUserAccount,
+  formatUserResponse,
+  formatUserSearchResult,
+} from '../utils/users';
+import { AppError } from '../utils/errors';
+
+const MIN_SEARCH_LENGTH = 3;
+const MAX_SEARCH_RESULTS = 10;
 
 export async function userRoutes(fastify: FastifyInstance) {
-  // Listar todos os usuários
+  // Listar todos os usuários (apenas administradores)
   fastify.get(
     '/',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        response: { 200: ref('UserListResponse') },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        const users = await prisma.sharezinUser.findMany({
-          orderBy: {
-            createdAt: 'desc',
-          },
-        });
-
-        return reply.send({
-          data: users,
-          count: users.length,
-        });
-      } catch (error) {
-        console.error('Error fetching users:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
-      }
+      const users = await prisma.sharezinUser.findMany({
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      return reply.send({
+        data: users.map(formatUserResponse),
+        count: users.length,
+      });
     }
   );
 
-  // Buscar usuário por ID
-  fastify.get<{ Params: { id: string } }>(
-    '/:id',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        const { id } = request.params;
+  // Buscar usuários para adicionar em recibos (retorna apenas nome e dica do email)
+  fastify.get<{ Querystring: UserSearchQuery }>(
+    '/search',
+    {
+      schema: {
+        querystring: ref('UserSearchQuery'),
+        response: { 200: ref('UserSearchResponse') },
+      },
+      preHandler: [authenticate],
+    },
+    async (request: FastifyRequest<{ Querystring: UserSearchQuery }>, reply: FastifyReply) => {
+      if (!request.userPayload) {
+        throw new AppError('UNAUTHENTICATED');
+      }
 
-        const user = await prisma.sharezinUser.findUnique({
-          where: { id },
-        });
+      const query = (request.query.q || '').trim();
 
-        if (!user) {
-          return reply.status(404).send({
-            error: {
-              message: 'User not found',
-              statusCode: 404,
-            },
-          });
-        }
+      if (query.length < MIN_SEARCH_LENGTH) {
+        throw new AppError('SEARCH_TOO_SHORT', { min: MIN_SEARCH_LENGTH });
+      }
 
-        return reply.send({
-          data: user,
-        });
-      } catch (error) {
-        console.error('Error fetching user:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
+      // Por email só encontra o endereço exato (não permite descobrir emails por prefixo)
+      const users = await prisma.sharezinUser.findMany({
+        where: {
+          id: { not: request.userPayload.id },
+          ...(query.includes('@')
+            ? { email: { equals: query, mode: 'insensitive' as const } }
+            : { name: { contains: query, mode: 'insensitive' as const } }),
+        },
+        orderBy: {
+          name: 'asc',
+        },
+        take: MAX_SEARCH_RESULTS,
+      });
+
+      return reply.send({
+        data: users.map(formatUserSearchResult),
+        count: users.length,
+      });
+    }
+  );
+
+  // Buscar usuário por ID (próprio usuário ou administrador)
+  fastify.get<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('UserDataResponse') },
+      },
+      preHandler: [authenticate, checkIsSelfOrAdmin],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const user = await prisma.sharezinUser.findUnique({
+        where: { id },
+      });
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
       }
+
+      return reply.send({
+        data: formatUserResponse(user),
+      });
     }
   );
 
-  // Criar novo usuário
+  // Criar novo usuário (apenas administradores)
   fastify.post<{ Body: CreateUserDto }>(
     '/',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        body: ref('CreateUserDto'),
+        response: {
+          400: ref('ErrorResponse'),
+          409: ref('ErrorResponse'),
+        },
+      },
+      preHandler: [authenticate, checkIsAdmin],
+    },
     async (request: FastifyRequest<{ Body: CreateUserDto }>, reply: FastifyReply) => {
-      try {
-        const { email, name } = request.body;
-
-        if (!email) {
-          return reply.status(400).send({
-            error: {
-              message: 'Email is required',
-              statusCode: 400,
-            },
-          });
-        }
+      const { email, name } = request.body;
 
-        // Verificar se email já existe
-        const existingUser = await prisma.sharezinUser.findUnique({
-          where: { email },
-        });
+      // Verificar se email já existe
+      const existingUser = await prisma.sharezinUser.findUnique({
+        where: { email },
+      });
 
-        if (existingUser) {
-          return reply.status(409).send({
-            error: {
-              message: 'User with this email already exists',
-              statusCode: 409,
-            },
-          });
-        }
-
-        // Esta rota não deve criar usuários com senha - use /api/auth/register
-        // Por enquanto, retornar erro
-        return reply.status(400).send({
-          error: {
-            message: 'Use /api/auth/register to create users with passwords',
-            statusCode: 400,
-          },
-        });
-
-        // Esta rota não deve criar usuários - use /api/auth/register
-        return reply.status(400).send({
-          error: {
-            message: 'Use /api/auth/register to create users',
-            statusCode: 400,
-          },
-        });
-      } catch (error) {
-        console.error('Error creating user:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
+      if (existingUser) {
+        throw new AppError('EMAIL_IN_USE');
       }
+
+      throw new AppError('USE_REGISTER_ROUTE');
     }
   );
 
-  // Atualizar usuário
-  fastify.put<{ Params: { id: string }; Body: UpdateUserDto }>(
+  // Atualizar usuário (próprio usuário ou administrador)
+  fastify.put<{ Params: IdParams; Body: UpdateUserDto }>(
     '/:id',
-    { preHandler: [authenticate] },
+    {
+      schema: {
+        params: ref('IdParams'),
+        body: ref('UpdateUserDto'),
+        response: { 200: ref('UpdateUserResponse') },
+      },
+      preHandler: [authenticate, checkIsSelfOrAdmin],
+    },
     async (
-      request: FastifyRequest<{ Params: { id: string }; Body: UpdateUserDto }>,
+      request: FastifyRequest<{ Params: IdParams; Body: UpdateUserDto }>,
       reply: FastifyReply
     ) => {
-      try {
-        const { id } = request.params;
-        const body = request.body as UpdateUserDto;
-        const { email, name } = body;
-
-        // Verificar se usuário existe
-        const existingUser = await prisma.sharezinUser.findUnique({
-          where: { id },
-        });
+      const { id } = request.params;
+      const body = request.body as UpdateUserDto;
+      const { email, name } = body;
 
-        if (!existingUser) {
-          return reply.status(404).send({
-            error: {
-              message: 'User not found',
-              statusCode: 404,
-            },
-          });
-        }
+      // Verificar se usuário existe
+      const existingUser = await prisma.sharezinUser.findUnique({
+        where: { id },
+      });
 
-        // Se email está sendo atualizado, verificar se já existe
-        if (email && email !== existingUser.email) {
-          const emailExists = await prisma.sharezinUser.findUnique({
-            where: { email },
-          });
-
-          if (emailExists) {
-            return reply.status(409).send({
-              error: {
-                message: 'Email already in use',
-                statusCode: 409,
-              },
-            });
-          }
-        }
+      if (!existingUser) {
+        throw new AppError('USER_NOT_FOUND');
+      }
 
-        const user = await prisma.sharezinUser.update({
-          where: { id },
-          data: {
-            ...(email && { email }),
-            ...(name !== undefined && { name }),
-          },
+      // Se email está sendo atualizado, verificar se já existe
+      if (email && email !== existingUser.email) {
+        const emailExists = await prisma.sharezinUser.findUnique({
+          where: { email },
         });
 
-        return reply.send({
-          message: 'User updated successfully',
-          data: user,
-        });
-      } catch (error) {
-        console.error('Error updating user:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
+        if (emailExists) {
+          throw new AppError('EMAIL_IN_USE');
+        }
       }
+
+      const user = await prisma.sharezinUser.update({
+        where: { id },
+        data: {
+          ...(email && { email }),
+          // Email novo precisa ser confirmado de novo
+          ...(email && email !== existingUser.email && { emailVerifiedAt: null }),
+          ...(name !== undefined && { name }),
+        },
+      });
+
+      return reply.send({
+        message: 'User updated successfully',
+        data: formatUserResponse(user),
+      });
     }
   );
 
-  // Deletar usuário
-  fastify.delete<{ Params: { id: string } }>(
+  // Deletar usuário (próprio usuário ou administrador)
+  // Recibos compartilhados criados por ele passam para outro participante
+  fastify.delete<{ Params: IdParams }>(
     '/:id',
-    { preHandler: [authenticate] },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
-      try {
-        const { id } = request.params;
-
-        // Verificar se usuário existe
-        const existingUser = await prisma.sharezinUser.findUnique({
-          where: { id },
-        });
-
-        if (!existingUser) {
-          return reply.status(404).send({
-            error: {
-              message: 'User not found',
-              statusCode: 404,
-            },
-          });
-        }
+    {
+      schema: {
+        params: ref('IdParams'),
+        response: { 200: ref('DeleteUserResponse') },
+      },
+      preHandler: [authenticate, checkIsSelfOrAdmin],
+    },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      // Verificar se usuário existe
+      const existingUser = await prisma.sharezinUser.findUnique({
+        where: { id },
+      });
+
+      if (!existingUser) {
+        throw new AppError('USER_NOT_FOUND');
+      }
 
-        await prisma.sharezinUser.delete({
-          where: { id },
-        });
+      const { result, reassignments, deletedReceiptIds } = await deleteUserAccount(id);
+      const formerCreatorName = existingUser.name || existingUser.email;
+
+      for (const { receiptId, newCreatorId } of reassignments) {
+        notifyCreatorReassigned(receiptId, newCreatorId, formerCreatorName).catch(console.error);
+        publishReceiptEvent(
+          receiptId,
+          'creator_transferred',
+          { previousCreatorId: id, newCreatorId },
+          request.userPayload?.id
+        );
+      }
 
-        return reply.send({
-          message: 'User deleted successfully',
-        });
-      } catch (error) {
-        console.error('Error deleting user:', error);
-        return reply.status(500).send({
-          error: {
-            message: 'Internal server error',
-            statusCode: 500,
-          },
-        });
+      for (const receiptId of deletedReceiptIds) {
+        publishReceiptEvent(receiptId, 'receipt_deleted', {}, request.userPayload?.id);
+        revokeReceiptAccess(receiptId);
       }
+
+      return reply.send({
+        message: 'User deleted successfully',
+        data: result,
+      });
     }
   );
 }
@@ -0,0 +1,68 @@
+import { FastifyInstance } from 'fastify';
+import generated from './types.json';
+
+// Definições geradas a partir de src/types/index.ts (npm run schemas:generate)
+const definitions: Record<string, object> = generated.definitions;
+
+export type SchemaName = keyof typeof generated.definitions;
+
+/**
+ * Referência para um tipo gerado (ex.: ref('CreateReceiptDto'))
+ */
+export function ref(name: SchemaName) {
+  return { $ref: `${name}#` };
+}
+
+/**
+ * Resposta com um arquivo (PDF, planilhas), documentada pelo tipo de conteúdo
+ */
+export function fileResponse(contentType: string, description: string) {
+  return {
+    description,
+    content: {
+      [contentType]: {
+        schema: { type: 'string', format: 'binary' },
+      },
+    },
+  };
+}
+
+/**
+ * Troca as referências internas do arquivo gerado (#/definitions/X) pelo $id do schema compartilhado
+ */
+function resolveRefs(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(resolveRefs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) =>
+        key === '$ref' && typeof item === 'string'
+          ? [key, item.replace(/^#\/definitions\/(.+)$/, '$1#')]
+          : [key, resolveRefs(item)]
+      )
+    );
+  }
+  return value;
+}
+
+/**
+ * Registra cada tipo gerado como schema compartilhado (o $id é o nome do tipo),
+ * para que as rotas possam referenciá-los com ref() e a documentação OpenAPI os liste pelo nome
+ */
+export function registerSchemas(fastify: FastifyInstance) {
+  for (const [name, schema] of Object.entries(definitions)) {
+    fastify.addSchema({
+      $id: name,
+      ...(resolveRefs(schema) as object),
+    });
+  }
+
+  // Requisição sem corpo é validada como objeto vazio: rotas só com campos opcionais a aceitam
+  // e as demais respondem com a lista de campos obrigatórios
+  fastify.addHook('preValidation', async (request) => {
+    if (request.body === undefined && request.routeOptions.schema?.body) {
+      request.body = {};
+    }
+  });
+}
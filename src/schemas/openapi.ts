@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { FastifyInstance, RouteOptions } from 'fastify';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+import { authenticate } from '../middleware/auth';
+
+export const DOCS_PREFIX = '/api/docs';
+
+const { version } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')
+) as { version: string };
+
+type DocumentedRoute = {
+  method: string;
+  url: string;
+  hasResponseSchema: boolean;
+};
+
+// Rotas registradas em cada servidor, para conferir se todas estão na especificação
+const registeredRoutes = new WeakMap<FastifyInstance, DocumentedRoute[]>();
+
+/**
+ * Tag da rota na documentação: segmento após /api (ex.: /api/receipts/:id -> receipts)
+ */
+function getRouteTag(url: string): string {
+  const [, scope, name] = url.split('/');
+  return scope === 'api' && name ? name : 'health';
+}
+
+/**
+ * Converte /api/receipts/:id para o formato do OpenAPI (/api/receipts/{id})
+ */
+function toOpenApiPath(url: string): string {
+  return url.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function requiresAuthentication(route: RouteOptions): boolean {
+  return [route.onRequest, route.preHandler].flat().includes(authenticate as never);
+}
+
+/**
+ * Registra a geração da especificação OpenAPI 3.1 (a partir das rotas e seus schemas)
+ * e a interface interativa em /api/docs. Precisa ser chamada antes de registrar as rotas.
+ */
+export async function registerOpenApi(fastify: FastifyInstance) {
+  const routes: DocumentedRoute[] = [];
+  registeredRoutes.set(fastify, routes);
+
+  fastify.addHook('onRoute', (route) => {
+    if (route.method === 'HEAD' || route.schema?.hide) {
+      return;
+    }
+
+    route.schema = {
+      tags: [getRouteTag(route.url)],
+      ...(requiresAuthentication(route) && { security: [{ bearerAuth: [] }] }),
+      ...route.schema,
+    };
+
+    for (const method of [route.method].flat()) {
+      routes.push({
+        method: method.toLowerCase(),
+        url: route.url,
+        hasResponseSchema: !!route.schema.response || !!route.websocket,
+      });
+    }
+  });
+
+  await fastify.register(swagger, {
+    openapi: {
+      openapi: '3.1.0',
+      info: {
+        title: 'Sharezin API',
+        description: 'API do Sharezin - divisão de recibos entre amigos',
+        version,
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+          },
+        },
+      },
+    },
+    // Schemas compartilhados aparecem em components.schemas com o nome do tipo
+    refResolver: {
+      buildLocalReference(json, baseUri, fragment, i) {
+        return typeof json.$id === 'string' ? json.$id : `def-${i}`;
+      },
+    },
+  });
+
+  await fastify.register(swaggerUi, {
+    routePrefix: DOCS_PREFIX,
+  });
+}
+
+/**
+ * Lista as rotas que não aparecem na especificação gerada ou não documentam a resposta
+ * (usado pelo npm run openapi:check)
+ */
+export function findUndocumentedRoutes(fastify: FastifyInstance): string[] {
+  const routes = registeredRoutes.get(fastify) || [];
+  const spec = fastify.swagger() as { paths?: Record<string, Record<string, unknown>> };
+  const problems: string[] = [];
+
+  for (const route of routes) {
+    const label = `${route.method.toUpperCase()} ${route.url}`;
+    // Rotas '/' de um prefixo também são registradas sem a barra; a especificação traz só uma delas
+    const openApiPath = toOpenApiPath(route.url);
+    const documented = [openApiPath, `${openApiPath}/`].some(
+      (candidate) => spec.paths?.[candidate]?.[route.method]
+    );
+
+    if (!documented) {
+      problems.push(`${label}: ausente da especificação`);
+    } else if (!route.hasResponseSchema) {
+      problems.push(`${label}: sem schema de resposta`);
+    }
+  }
+
+  return problems;
+}
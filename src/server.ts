@@ -5,18 +5,23 @@ import jwt from '@fastify/jwt';
 import websocket from '@fastify/websocket';
 import dotenv from 'dotenv';
 import { registerRoutes } from './routes';
+import { registerSchemas } from './schemas';
+import { DOCS_PREFIX, registerOpenApi } from './schemas/openapi';
 import { errorHandler, notFoundHandler } from './utils/errors';
-import { prisma } from './config/database';
+import { disconnectDatabase } from './config/database';
+import { assertDatabaseMigrated } from './config/migrations';
+import { assertMailerConfigured } from './utils/mailer';
+import { registerReceiptEventHandlers } from './services/receipt-subscribers';
 
 dotenv.config();
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const HOST = process.env.HOST || '0.0.0.0';
 
-async function buildServer() {
+export async function buildServer() {
   const fastify = Fastify({
     logger: {
-      level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+      level: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'info' : 'debug'),
       transport:
         process.env.NODE_ENV === 'development'
           ? {
@@ -28,6 +33,12 @@ async function buildServer() {
             }
           : undefined,
     },
+    ajv: {
+      // Reporta todos os campos inválidos de uma vez, não só o primeiro
+      customOptions: {
+        allErrors: true,
+      },
+    },
   });
 
   // Plugins de segurança e CORS
@@ -52,6 +63,15 @@ async function buildServer() {
   fastify.setErrorHandler(errorHandler);
   fastify.setNotFoundHandler(notFoundHandler);
 
+  // Schemas de validação (gerados a partir de src/types)
+  registerSchemas(fastify);
+
+  // Documentação OpenAPI gerada das rotas (antes das rotas, para capturá-las)
+  await registerOpenApi(fastify);
+
+  // Efeitos colaterais dos eventos de recibo (realtime e notificações)
+  registerReceiptEventHandlers();
+
   // Registrar rotas
   await fastify.register(registerRoutes);
 
@@ -60,12 +80,16 @@ async function buildServer() {
 
 async function start() {
   try {
+    // Não sobe contra um schema desatualizado
+    await assertDatabaseMigrated();
+    assertMailerConfigured();
+
     const server = await buildServer();
 
     await server.listen({ port: PORT, host: HOST });
 
     console.log(`🚀 Server running on http://${HOST}:${PORT}`);
-    console.log(`📚 API Documentation available at http://${HOST}:${PORT}/health`);
+    console.log(`📚 API Documentation available at http://${HOST}:${PORT}${DOCS_PREFIX}`);
   } catch (error) {
     console.error('Error starting server:', error);
     process.exit(1);
@@ -75,12 +99,14 @@ async function start() {
 // Graceful shutdown
 const shutdown = async () => {
   console.log('Shutting down gracefully...');
-  await prisma.$disconnect();
+  await disconnectDatabase();
   process.exit(0);
 };
 
-process.on('SIGTERM', shutdown);
-process.on('SIGINT', shutdown);
+// Iniciar servidor apenas quando executado diretamente (scripts importam buildServer)
+if (require.main === module) {
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
 
-// Iniciar servidor
-start();
+  start();
+}
@@ -0,0 +1,87 @@
+import { Receipt, ReceiptItem } from '../types';
+
+/**
+ * Eventos de domínio publicados pelo serviço de recibos (após o commit da transação)
+ */
+export interface ReceiptDomainEventPayloads {
+  receipt_created: { receipt: Receipt };
+  receipt_closed: { receipt: Receipt };
+  items_added: { items: ReceiptItem[] };
+  creator_transferred: { previousCreatorId: string; newCreatorId: string };
+  participant_removed: { participantId: string; userId?: string };
+  participation_closed: { participantId: string; userId?: string; creatorId: string };
+}
+
+export type ReceiptDomainEventType = keyof ReceiptDomainEventPayloads;
+
+export interface ReceiptDomainEvent<K extends ReceiptDomainEventType = ReceiptDomainEventType> {
+  type: K;
+  receiptId: string;
+  actorId: string;
+  data: ReceiptDomainEventPayloads[K];
+  occurredAt: Date;
+}
+
+export type ReceiptDomainEventHandler<K extends ReceiptDomainEventType> = (
+  event: ReceiptDomainEvent<K>
+) => void | Promise<void>;
+
+/**
+ * Registra um evento durante a operação; ele só é publicado se a operação terminar sem erro
+ */
+export type EmitReceiptEvent = <K extends ReceiptDomainEventType>(
+  receiptId: string,
+  type: K,
+  data: ReceiptDomainEventPayloads[K]
+) => void;
+
+const handlers = new Map<ReceiptDomainEventType, Set<ReceiptDomainEventHandler<any>>>();
+
+/**
+ * Inscreve um handler em um tipo de evento. Retorna a função que cancela a inscrição.
+ */
+export function onReceiptEvent<K extends ReceiptDomainEventType>(
+  type: K,
+  handler: ReceiptDomainEventHandler<K>
+): () => void {
+  if (!handlers.has(type)) {
+    handlers.set(type, new Set());
+  }
+  handlers.get(type)!.add(handler);
+
+  return () => {
+    handlers.get(type)?.delete(handler);
+  };
+}
+
+/**
+ * Entrega o evento aos handlers inscritos (assíncrono; falhas são apenas registradas)
+ */
+function dispatchReceiptEvent(event: ReceiptDomainEvent) {
+  for (const handler of handlers.get(event.type) || []) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch((error) => console.error(`Error handling receipt event ${event.type}:`, error));
+  }
+}
+
+/**
+ * Executa uma operação que emite eventos e os publica, na ordem, depois que ela termina.
+ * Se a operação falhar (e a transação for desfeita), nenhum evento é publicado.
+ */
+export async function withReceiptEvents<T>(
+  actorId: string,
+  operation: (emit: EmitReceiptEvent) => Promise<T>
+): Promise<T> {
+  const events: ReceiptDomainEvent[] = [];
+
+  const result = await operation((receiptId, type, data) => {
+    events.push({ type, receiptId, actorId, data, occurredAt: new Date() });
+  });
+
+  for (const event of events) {
+    dispatchReceiptEvent(event);
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+import {
+  notifyCreatorTransferred,
+  notifyItemAdded,
+  notifyReceiptClosed,
+} from '../utils/notifications';
+import { publishReceiptEvent, revokeReceiptAccess } from '../utils/realtime';
+import { onReceiptEvent } from './receipt-events';
+
+let registered = false;
+
+/**
+ * Liga os eventos do serviço de recibos aos efeitos colaterais: eventos de realtime,
+ * revogação de inscrições e notificações. Chamado uma vez na criação do servidor.
+ */
+export function registerReceiptEventHandlers() {
+  if (registered) {
+    return;
+  }
+  registered = true;
+
+  onReceiptEvent('items_added', async ({ receiptId, actorId, data }) => {
+    publishReceiptEvent(receiptId, 'item_added', { items: data.items }, actorId);
+
+    // Notifica outros participantes
+    await Promise.all(data.items.map((item) => notifyItemAdded(receiptId, item.id, actorId)));
+  });
+
+  onReceiptEvent('receipt_closed', async ({ receiptId, actorId, data }) => {
+    publishReceiptEvent(receiptId, 'receipt_closed', { receipt: data.receipt }, actorId);
+
+    await notifyReceiptClosed(receiptId, actorId);
+  });
+
+  onReceiptEvent('creator_transferred', async ({ receiptId, actorId, data }) => {
+    publishReceiptEvent(receiptId, 'creator_transferred', data, actorId);
+
+    await notifyCreatorTransferred(receiptId, data.previousCreatorId, data.newCreatorId);
+  });
+
+  onReceiptEvent('participant_removed', ({ receiptId, actorId, data }) => {
+    publishReceiptEvent(receiptId, 'participant_removed', data, actorId);
+
+    // Quem foi removido deixa de receber os eventos do recibo
+    if (data.userId) {
+      revokeReceiptAccess(receiptId, data.userId);
+    }
+  });
+
+  onReceiptEvent('participation_closed', ({ receiptId, actorId, data }) => {
+    publishReceiptEvent(receiptId, 'participant_closed', { participantId: data.participantId }, actorId);
+
+    // Participação fechada não dá mais acesso ao recibo (exceto ao criador)
+    if (data.userId && data.userId !== data.creatorId) {
+      revokeReceiptAccess(receiptId, data.userId);
+    }
+  });
+}
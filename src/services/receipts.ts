@@ -0,0 +1,556 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  assertReceiptItemInput,
+  calculateParticipantTotals,
+  calculateReceiptTotal,
+  formatReceiptItemResponse,
+  formatReceiptResponse,
+  generateInviteCode,
+  recalculateReceiptTotal,
+} from '../utils/receipts';
+import { fromCents } from '../utils/splits';
+import { AppError } from '../utils/errors';
+import { checkGroupAccess } from '../utils/groups';
+import { checkParticipantLimit, checkReceiptLimit } from '../utils/plans';
+import { storeSettlementTransfers } from '../utils/settlement';
+import { CreateReceiptDto, CreateReceiptItemDto, Receipt, ReceiptItem } from '../types';
+import { withReceiptEvents } from './receipt-events';
+
+/**
+ * Relações carregadas para montar a resposta completa de um recibo
+ */
+export const RECEIPT_INCLUDE = {
+  receiptParticipants: {
+    include: {
+      participant: {
+        include: {
+          user: true,
+        },
+      },
+    },
+  },
+  receiptItems: {
+    include: {
+      shares: true,
+    },
+  },
+  pendingParticipants: {
+    include: {
+      user: true,
+    },
+  },
+  deletionRequests: true,
+} satisfies Prisma.ReceiptInclude;
+
+/**
+ * Busca recibo com todas as relações da resposta da API
+ */
+export async function findReceiptWithRelations(
+  id: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return await client.receipt.findUnique({
+    where: { id },
+    include: RECEIPT_INCLUDE,
+  });
+}
+
+/**
+ * Busca e formata o recibo completo (o recibo deve existir)
+ */
+export async function getReceipt(
+  id: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Receipt> {
+  const receipt = await findReceiptWithRelations(id, client);
+
+  if (!receipt) {
+    throw new AppError('RECEIPT_NOT_FOUND');
+  }
+
+  return formatReceiptResponse(receipt);
+}
+
+/**
+ * Trava a linha do recibo até o fim da transação e garante que ele ainda está aberto,
+ * para que itens e participantes não mudem durante um fechamento concorrente
+ */
+async function lockOpenReceipt(id: string, tx: Prisma.TransactionClient): Promise<void> {
+  const [receipt] = await tx.$queryRaw<Array<{ is_closed: boolean }>>`
+    SELECT is_closed FROM receipts WHERE id = ${id}::uuid FOR UPDATE
+  `;
+
+  if (!receipt) {
+    throw new AppError('RECEIPT_NOT_FOUND');
+  }
+
+  if (receipt.is_closed) {
+    throw new AppError('RECEIPT_CLOSED');
+  }
+}
+
+/**
+ * Busca o recibo com os participantes para validar uma operação
+ */
+async function findReceiptWithParticipants(id: string, client: Prisma.TransactionClient) {
+  const receipt = await client.receipt.findUnique({
+    where: { id },
+    include: {
+      receiptParticipants: {
+        include: {
+          participant: true,
+        },
+      },
+    },
+  });
+
+  if (!receipt) {
+    throw new AppError('RECEIPT_NOT_FOUND');
+  }
+
+  return receipt;
+}
+
+/**
+ * Cria um recibo com o criador como participante.
+ * Com grupo, os membros do grupo entram no recibo (respeitando o limite de participantes do plano).
+ */
+export async function createReceipt(userId: string, input: CreateReceiptDto): Promise<Receipt> {
+  const { title, serviceChargePercent, cover, category, groupId } = input;
+
+  if (!title || title.trim() === '') {
+    throw new AppError('RECEIPT_TITLE_REQUIRED');
+  }
+
+  if (groupId) {
+    const groupAccess = await checkGroupAccess(userId, groupId);
+    if (!groupAccess.hasAccess) {
+      throw new AppError('GROUP_NOT_FOUND');
+    }
+  }
+
+  const inviteCode = await generateInviteCode();
+
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      // Conta os recibos do mês na mesma transação que cria o novo
+      const limitCheck = await checkReceiptLimit(userId, tx);
+      if (!limitCheck.canCreate) {
+        throw new AppError('RECEIPT_LIMIT_REACHED', { limit: limitCheck.limit ?? 0 });
+      }
+
+      const receipt = await tx.receipt.create({
+        data: {
+          title: title.trim(),
+          creatorId: userId,
+          inviteCode,
+          serviceChargePercent: serviceChargePercent || 0,
+          cover: cover || 0,
+          category: category ?? null,
+          total: 0,
+          isClosed: false,
+        },
+      });
+
+      // Busca ou cria participante para o criador
+      let creatorParticipant = await tx.participant.findFirst({
+        where: {
+          userId,
+          groupId: groupId || null,
+        },
+      });
+
+      if (!creatorParticipant) {
+        const user = await tx.sharezinUser.findUnique({
+          where: { id: userId },
+        });
+
+        creatorParticipant = await tx.participant.create({
+          data: {
+            name: user?.name || user?.email || 'Participante',
+            userId,
+            groupId: groupId || null,
+          },
+        });
+      }
+
+      await tx.receiptParticipant.create({
+        data: {
+          receiptId: receipt.id,
+          participantId: creatorParticipant.id,
+        },
+      });
+
+      // Se grupo fornecido, adiciona os membros do grupo (usuários e convidados)
+      if (groupId) {
+        const groupParticipants = await tx.participant.findMany({
+          where: {
+            groupId,
+            id: { not: creatorParticipant.id },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        });
+
+        for (const participant of groupParticipants) {
+          const participantLimit = await checkParticipantLimit(receipt.id, tx);
+          if (!participantLimit.canAdd) {
+            // Desfaz a criação do recibo
+            throw new AppError('GROUP_EXCEEDS_PARTICIPANT_LIMIT', {
+              limit: participantLimit.limit ?? 0,
+              members: groupParticipants.length + 1,
+            });
+          }
+
+          await tx.receiptParticipant.create({
+            data: {
+              receiptId: receipt.id,
+              participantId: participant.id,
+            },
+          });
+        }
+      }
+
+      const created = await getReceipt(receipt.id, tx);
+      emit(receipt.id, 'receipt_created', { receipt: created });
+
+      return created;
+    })
+  );
+}
+
+/**
+ * Valida e cria itens no recibo, recalculando o total na mesma transação.
+ * Participantes só adicionam itens para si; o criador pode adicionar para qualquer participante.
+ * `path` aponta o item no corpo da requisição quando há erro (ex.: items.2.)
+ */
+export async function addItems(
+  receiptId: string,
+  userId: string,
+  inputs: CreateReceiptItemDto[],
+  path: (index: number) => string = () => ''
+): Promise<ReceiptItem[]> {
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      await lockOpenReceipt(receiptId, tx);
+      const receipt = await findReceiptWithParticipants(receiptId, tx);
+
+      const isCreator = receipt.creatorId === userId;
+      const ownParticipant = receipt.receiptParticipants.find(
+        (rp) => rp.participant.userId === userId && !rp.isClosed
+      );
+
+      const data: Array<{
+        name: string;
+        quantity: number;
+        price: number;
+        participantId: string;
+      }> = [];
+
+      for (const [index, input] of inputs.entries()) {
+        const prefix = path(index);
+
+        assertReceiptItemInput(input || {}, false, prefix);
+
+        const participantId = input.participantId || ownParticipant?.participantId;
+        const field = `${prefix}participantId`;
+        if (!participantId) {
+          throw new AppError('PARTICIPANT_REQUIRED', {}, { field });
+        }
+
+        const target = receipt.receiptParticipants.find((rp) => rp.participantId === participantId);
+        if (!target) {
+          throw new AppError('PARTICIPANT_NOT_IN_RECEIPT', { participantId }, { field });
+        }
+
+        if (!isCreator && target.participant.userId !== userId) {
+          throw new AppError('ITEM_FOR_SELF_ONLY', {}, { field });
+        }
+
+        if (!isCreator && target.isClosed) {
+          throw new AppError('PARTICIPATION_CLOSED');
+        }
+
+        data.push({
+          name: input.name.trim(),
+          quantity: input.quantity ?? 1,
+          price: input.price,
+          participantId,
+        });
+      }
+
+      const items: ReceiptItem[] = [];
+      for (const item of data) {
+        const created = await tx.receiptItem.create({
+          data: {
+            receiptId,
+            ...item,
+          },
+        });
+        items.push(formatReceiptItemResponse(created));
+      }
+
+      await recalculateReceiptTotal(receiptId, tx);
+
+      emit(receiptId, 'items_added', { items });
+
+      return items;
+    })
+  );
+}
+
+/**
+ * Fecha o recibo: grava o total final e as despesas de cada participante com usuário
+ */
+export async function closeReceipt(receiptId: string, userId: string): Promise<Receipt> {
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      // Reivindica o fechamento antes de ler os itens: um segundo fechamento concorrente
+      // espera esta transação e não encontra mais o recibo aberto (duplicaria as despesas)
+      const claimed = await tx.receipt.updateMany({
+        where: { id: receiptId, isClosed: false },
+        data: { isClosed: true },
+      });
+
+      if (claimed.count === 0) {
+        const exists = await tx.receipt.count({ where: { id: receiptId } });
+        throw new AppError(exists ? 'RECEIPT_CLOSED' : 'RECEIPT_NOT_FOUND');
+      }
+
+      const receipt = await tx.receipt.findUnique({
+        where: { id: receiptId },
+        include: {
+          receiptItems: {
+            include: {
+              shares: true,
+            },
+          },
+          receiptParticipants: {
+            include: {
+              participant: true,
+            },
+          },
+        },
+      });
+
+      if (!receipt) {
+        throw new AppError('RECEIPT_NOT_FOUND');
+      }
+
+      await tx.receipt.update({
+        where: { id: receiptId },
+        data: {
+          total: calculateReceiptTotal(receipt),
+        },
+      });
+
+      // Valor de cada participante, considerando itens divididos (em centavos)
+      const participantTotals = calculateParticipantTotals(receipt);
+
+      const receiptDate = receipt.date;
+      const periodMonth = `${receiptDate.getFullYear()}-${String(receiptDate.getMonth() + 1).padStart(2, '0')}`;
+      const periodDay = `${periodMonth}-${String(receiptDate.getDate()).padStart(2, '0')}`;
+
+      // Cria registros em user_receipt_expenses para cada participante
+      for (const rp of receipt.receiptParticipants) {
+        if (rp.participant.userId && !rp.isClosed) {
+          const totals = participantTotals.get(rp.participant.id);
+
+          await tx.userReceiptExpense.create({
+            data: {
+              userId: rp.participant.userId,
+              receiptId,
+              participantId: rp.participant.id,
+              itemsTotal: fromCents(totals?.itemsCents || 0),
+              serviceChargeAmount: fromCents(totals?.serviceChargeCents || 0),
+              coverAmount: fromCents(totals?.coverCents || 0),
+              totalSpent: fromCents(totals?.totalCents || 0),
+              receiptDate,
+              receiptTitle: receipt.title,
+              isClosed: true,
+              periodMonth,
+              periodDay,
+            },
+          });
+        }
+      }
+
+      // Transferências do acerto (pagadores já definidos ou, sem eles, o criador)
+      await storeSettlementTransfers(receiptId, tx);
+
+      const closed = await getReceipt(receiptId, tx);
+      emit(receiptId, 'receipt_closed', { receipt: closed });
+
+      return closed;
+    })
+  );
+}
+
+/**
+ * Transfere a responsabilidade do recibo para outro participante com usuário
+ */
+export async function transferCreator(
+  receiptId: string,
+  userId: string,
+  newCreatorParticipantId: string
+): Promise<Receipt> {
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      const receipt = await findReceiptWithParticipants(receiptId, tx);
+
+      if (receipt.isClosed) {
+        throw new AppError('RECEIPT_CLOSED');
+      }
+
+      const newCreatorParticipant = await tx.participant.findUnique({
+        where: { id: newCreatorParticipantId },
+      });
+
+      if (!newCreatorParticipant || !newCreatorParticipant.userId) {
+        throw new AppError('NEW_CREATOR_NOT_FOUND');
+      }
+
+      if (newCreatorParticipant.userId === userId) {
+        throw new AppError('TRANSFER_TO_SELF');
+      }
+
+      const newCreatorReceiptParticipant = receipt.receiptParticipants.find(
+        (rp) => rp.participantId === newCreatorParticipantId
+      );
+
+      if (!newCreatorReceiptParticipant) {
+        throw new AppError('NEW_CREATOR_NOT_PARTICIPANT');
+      }
+
+      if (newCreatorReceiptParticipant.isClosed) {
+        throw new AppError('NEW_CREATOR_CLOSED');
+      }
+
+      // O recibo passa a seguir o limite de participantes do plano do novo criador
+      const participantLimit = await checkParticipantLimit(receiptId, tx, {
+        adding: 0,
+        creatorId: newCreatorParticipant.userId,
+      });
+      if (!participantLimit.canAdd) {
+        throw new AppError('TRANSFER_EXCEEDS_PARTICIPANT_LIMIT', {
+          limit: participantLimit.limit ?? 0,
+          participants: participantLimit.currentCount,
+        });
+      }
+
+      await tx.receipt.update({
+        where: { id: receiptId },
+        data: {
+          creatorId: newCreatorParticipant.userId,
+        },
+      });
+
+      emit(receiptId, 'creator_transferred', {
+        previousCreatorId: receipt.creatorId,
+        newCreatorId: newCreatorParticipant.userId,
+      });
+
+      return await getReceipt(receiptId, tx);
+    })
+  );
+}
+
+/**
+ * Remove o participante do recibo, junto com os itens dele e as divisões em que aparece
+ */
+export async function removeParticipant(
+  receiptId: string,
+  userId: string,
+  participantId: string
+): Promise<Receipt> {
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      // Num recibo fechado a despesa e o acerto do participante já foram gravados
+      await lockOpenReceipt(receiptId, tx);
+
+      const removedParticipant = await tx.participant.findUnique({
+        where: { id: participantId },
+      });
+
+      await tx.receiptItem.deleteMany({
+        where: {
+          receiptId,
+          participantId,
+        },
+      });
+
+      await tx.receiptItemShare.deleteMany({
+        where: {
+          participantId,
+          item: {
+            receiptId,
+          },
+        },
+      });
+
+      await tx.receiptParticipant.deleteMany({
+        where: {
+          receiptId,
+          participantId,
+        },
+      });
+
+      await recalculateReceiptTotal(receiptId, tx);
+
+      emit(receiptId, 'participant_removed', {
+        participantId,
+        userId: removedParticipant?.userId || undefined,
+      });
+
+      return await getReceipt(receiptId, tx);
+    })
+  );
+}
+
+/**
+ * Fecha a participação no recibo (o próprio participante ou o criador)
+ */
+export async function closeParticipation(
+  receiptId: string,
+  userId: string,
+  participantId: string
+): Promise<Receipt> {
+  return await withReceiptEvents(userId, (emit) =>
+    prisma.$transaction(async (tx) => {
+      const receipt = await findReceiptWithParticipants(receiptId, tx);
+
+      const receiptParticipant = receipt.receiptParticipants.find(
+        (rp) => rp.participantId === participantId
+      );
+
+      if (!receiptParticipant) {
+        throw new AppError('PARTICIPANT_NOT_FOUND');
+      }
+
+      const isCreator = receipt.creatorId === userId;
+      const isParticipant = receiptParticipant.participant.userId === userId;
+
+      if (!isCreator && !isParticipant) {
+        throw new AppError('CLOSE_PARTICIPATION_DENIED');
+      }
+
+      // Só nesta participação: o mesmo participante (ex.: membro de grupo) pode estar em outros recibos
+      await tx.receiptParticipant.update({
+        where: { id: receiptParticipant.id },
+        data: { isClosed: true },
+      });
+
+      await recalculateReceiptTotal(receiptId, tx);
+
+      emit(receiptId, 'participation_closed', {
+        participantId,
+        userId: receiptParticipant.participant.userId || undefined,
+        creatorId: receipt.creatorId,
+      });
+
+      return await getReceipt(receiptId, tx);
+    })
+  );
+}
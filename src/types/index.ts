@@ -1,9 +1,16 @@
 import { FastifyRequest } from 'fastify';
 
+// Os JSON schemas das rotas são gerados a partir destes tipos (npm run schemas:generate).
+// Anotações JSDoc como @minLength, @minimum e @format viram regras de validação.
+
+/** @format uuid */
+export type UUID = string;
+
 // Authentication
 export interface UserPayload {
   id: string;
   email: string;
+  sessionId?: string;
 }
 
 // Extend FastifyRequest to add our custom user property
@@ -18,34 +25,99 @@ export interface AuthenticatedRequest extends FastifyRequest {
 }
 
 // User
+export type UserRole = 'user' | 'admin';
+
 export interface User {
   id: string;
   name: string;
   email: string;
+  emailVerified?: boolean;
+  role?: UserRole;
   createdAt: string;
 }
 
+// Resultado da busca de usuários (sem email completo)
+export interface UserSearchResult {
+  id: string;
+  name: string;
+  emailHint: string;
+}
+
+export interface DeleteAccountResult {
+  reassignedReceipts: number; // recibos transferidos para outro participante
+  closedReceipts: number; // recibos fechados por não terem mais participantes ativos
+  deletedReceipts: number; // recibos sem nenhum outro usuário cadastrado
+}
+
 export interface CreateUserDto {
+  /** @minLength 1 @maxLength 100 */
   name: string;
+  /** @format email @maxLength 254 */
   email: string;
+  /** @minLength 6 @maxLength 128 */
   password: string;
 }
 
 export interface UpdateUserDto {
+  /** @format email @maxLength 254 */
   email?: string;
+  /** @minLength 1 @maxLength 100 */
   name?: string;
 }
 
 export interface LoginDto {
+  /** @minLength 1 @maxLength 254 */
   email: string;
+  /** @minLength 1 @maxLength 128 */
   password: string;
 }
 
 export interface ChangePasswordDto {
+  /** @minLength 1 @maxLength 128 */
   currentPassword: string;
+  /** @minLength 6 @maxLength 128 */
   newPassword: string;
 }
 
+export interface VerifyEmailDto {
+  /** @minLength 1 @maxLength 2048 */
+  token: string;
+}
+
+export interface ForgotPasswordDto {
+  /** @minLength 1 @maxLength 254 */
+  email: string;
+}
+
+export interface ResetPasswordDto {
+  /** @minLength 1 @maxLength 2048 */
+  token: string;
+  /** @minLength 6 @maxLength 128 */
+  newPassword: string;
+}
+
+// Sessions
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // segundos até o access token expirar
+}
+
+export interface RefreshTokenDto {
+  /** @minLength 1 @maxLength 512 */
+  refreshToken: string;
+}
+
+export interface UserSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  current: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
 // Participant
 export interface Participant {
   id: string;
@@ -56,11 +128,14 @@ export interface Participant {
 }
 
 // Pending Participant
+export type PendingParticipantStatus = 'pending' | 'approved' | 'rejected';
+
 export interface PendingParticipant {
   id: string;
   name: string;
   requestedAt: string;
   userId: string;
+  status?: PendingParticipantStatus;
 }
 
 // Group
@@ -68,18 +143,98 @@ export interface Group {
   id: string;
   name: string;
   participantIds: string[];
+  userId?: string;
+  members?: Participant[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface GroupMemberDto {
+  /** @format uuid */
+  userId?: string;
+  /** @format email @maxLength 254 */
+  email?: string;
+  /** @maxLength 100 */
+  name?: string;
+}
+
+export interface CreateGroupDto {
+  /** @minLength 1 @maxLength 100 */
+  name: string;
+  /** @maxItems 50 */
+  members?: GroupMemberDto[];
+}
+
+export interface UpdateGroupDto {
+  /** @minLength 1 @maxLength 100 */
+  name?: string;
+}
+
+export interface UpdateGroupMemberDto {
+  /** @minLength 1 @maxLength 100 */
+  name: string;
 }
 
 // Receipt Item
+export type ItemSplitMode = 'none' | 'equal' | 'weight' | 'fixed';
+
+export interface ReceiptItemShare {
+  participantId: string;
+  weight?: number;
+  amount: number;
+}
+
 export interface ReceiptItem {
   id: string;
   name: string;
   quantity: number;
   price: number;
   participantId: string;
+  splitMode?: ItemSplitMode;
+  shares?: ReceiptItemShare[];
   addedAt: string;
 }
 
+export interface CreateReceiptItemDto {
+  /** @minLength 1 @maxLength 200 */
+  name: string;
+  /** @exclusiveMinimum 0 */
+  quantity?: number;
+  /** @minimum 0 */
+  price: number;
+  /** @format uuid */
+  participantId?: string;
+}
+
+export interface CreateReceiptItemsDto {
+  /** @minItems 1 @maxItems 50 */
+  items: CreateReceiptItemDto[];
+}
+
+export interface UpdateReceiptItemDto {
+  /** @minLength 1 @maxLength 200 */
+  name?: string;
+  /** @exclusiveMinimum 0 */
+  quantity?: number;
+  /** @minimum 0 */
+  price?: number;
+  /** @format uuid */
+  participantId?: string;
+}
+
+export interface UpdateItemSharesDto {
+  mode: Exclude<ItemSplitMode, 'none'>;
+  /** @minItems 1 @maxItems 50 */
+  shares: Array<{
+    /** @format uuid */
+    participantId: string;
+    /** @exclusiveMinimum 0 */
+    weight?: number;
+    /** @minimum 0 */
+    amount?: number;
+  }>;
+}
+
 // Deletion Request
 export interface DeletionRequest {
   id: string;
@@ -89,6 +244,16 @@ export interface DeletionRequest {
 }
 
 // Receipt
+export type ReceiptCategory =
+  | 'food'
+  | 'drinks'
+  | 'groceries'
+  | 'transport'
+  | 'entertainment'
+  | 'travel'
+  | 'housing'
+  | 'other';
+
 export interface Receipt {
   id: string;
   title: string;
@@ -103,34 +268,129 @@ export interface Receipt {
   cover: number;
   total: number;
   isClosed: boolean;
+  category?: ReceiptCategory;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface CreateReceiptDto {
+  /** @minLength 1 @maxLength 200 */
   title: string;
+  /** @minimum 0 @maximum 100 */
   serviceChargePercent?: number;
+  /** @minimum 0 */
   cover?: number;
+  category?: ReceiptCategory;
+  /** @format uuid */
   groupId?: string;
 }
 
 export interface UpdateReceiptDto {
+  /** @minLength 1 @maxLength 200 */
   title?: string;
+  /** @minimum 0 @maximum 100 */
   serviceChargePercent?: number;
+  /** @minimum 0 */
   cover?: number;
-  isClosed?: boolean;
-  total?: number;
-  participants?: Participant[];
-  pendingParticipants?: PendingParticipant[];
-  deletionRequests?: DeletionRequest[];
-  items?: ReceiptItem[];
+  category?: ReceiptCategory | null; // null remove a categoria
+}
+
+// Settlement
+export interface ReceiptPayer {
+  participantId: string;
+  amount: number;
+}
+
+export interface SetReceiptPayersDto {
+  /** @maxItems 50 */
+  payers: ReceiptPayer[];
+}
+
+export interface SettlementTransfer {
+  id?: string;
+  fromParticipantId: string;
+  toParticipantId: string;
+  amount: number;
+  isPaid: boolean;
+  paidAt?: string;
+}
+
+export interface ReceiptSettlement {
+  receiptId: string;
+  isClosed: boolean;
+  isBalanced: boolean;
+  totalOwed: number;
+  totalPaid: number;
+  participants: Array<{
+    participantId: string;
+    name: string;
+    userId?: string;
+    owed: number;
+    paid: number;
+    balance: number;
+  }>;
+  payers: ReceiptPayer[];
+  transfers: SettlementTransfer[];
+}
+
+export interface UpdateSettlementTransferDto {
+  isPaid: boolean;
+}
+
+// Balances
+export interface BalancePerson {
+  userId?: string;
+  participantId?: string;
+  name: string;
+}
+
+export interface UserBalance {
+  userId: string;
+  name: string;
+  balance: number; // positivo: o usuário deve a você; negativo: você deve a ele
+}
+
+export interface PersonBalance extends BalancePerson {
+  balance: number; // positivo: tem a receber; negativo: deve
+}
+
+export interface BalanceTransfer {
+  from: BalancePerson;
+  to: BalancePerson;
+  amount: number;
+}
+
+export interface BalancePayment {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  groupId?: string;
+  amount: number;
+  note?: string;
+  recordedById: string;
+  createdAt: string;
+}
+
+export interface CreateBalancePaymentDto {
+  /** @format uuid */
+  fromUserId?: string;
+  /** @format uuid */
+  toUserId?: string;
+  /** @exclusiveMinimum 0 */
+  amount?: number;
+  /** @format uuid */
+  groupId?: string;
+  /** @maxLength 500 */
+  note?: string;
 }
 
 export interface RequestJoinDto {
+  /** @maxLength 100 */
   name?: string;
 }
 
 export interface TransferCreatorDto {
+  /** @format uuid */
   newCreatorParticipantId: string;
 }
 
@@ -145,7 +405,8 @@ export type NotificationType =
   | 'receipt_closed'
   | 'item_added'
   | 'creator_transferred'
-  | 'creator_transferred_from';
+  | 'creator_transferred_from'
+  | 'balance_payment';
 
 export interface Notification {
   id: string;
@@ -161,17 +422,48 @@ export interface Notification {
 }
 
 export interface CreateNotificationDto {
-  userId: string;
+  userId: UUID;
   type: NotificationType;
+  /** @minLength 1 @maxLength 200 */
   title: string;
+  /** @minLength 1 @maxLength 1000 */
   message: string;
-  receiptId?: string;
-  relatedUserId?: string;
+  receiptId?: UUID;
 }
 
 export interface MarkNotificationsReadDto {
   markAllAsRead?: boolean;
-  notificationIds?: string[];
+  /** @maxItems 100 */
+  notificationIds?: UUID[];
+}
+
+// Realtime
+export interface ReceiptEventPayloads {
+  receipt_updated: { receipt: Receipt };
+  receipt_closed: { receipt: Receipt };
+  receipt_deleted: Record<string, never>;
+  item_added: { items: ReceiptItem[] };
+  item_updated: { item: ReceiptItem };
+  item_deleted: { itemId: string };
+  participant_requested: { pendingParticipant: PendingParticipant };
+  participant_joined: { participant: Participant };
+  participant_rejected: { pendingParticipantId: string };
+  participant_removed: { participantId: string; userId?: string };
+  participant_closed: { participantId: string };
+  creator_transferred: { previousCreatorId: string; newCreatorId: string };
+  deletion_requested: { deletionRequest: DeletionRequest };
+  deletion_resolved: { requestId: string; itemId: string; approved: boolean };
+  settlement_updated: { settlement: ReceiptSettlement };
+}
+
+export type ReceiptEventType = keyof ReceiptEventPayloads;
+
+export interface ReceiptEvent<K extends ReceiptEventType = ReceiptEventType> {
+  type: K;
+  receiptId: string;
+  actorId?: string;
+  data: ReceiptEventPayloads[K];
+  occurredAt: string;
 }
 
 // Plan
@@ -182,6 +474,21 @@ export interface PlanFeatures {
   excelExport?: boolean;
 }
 
+export type PlanFeature = keyof PlanFeatures;
+
+/**
+ * Sugestão de upgrade quando o plano atual não inclui um recurso
+ */
+export interface PlanUpgradeHint {
+  feature: PlanFeature;
+  currentPlan: string; // nome do plano atual (free quando não há assinatura)
+  plans: Array<{
+    name: string;
+    displayName: string;
+    priceMonthly: number;
+  }>; // planos ativos que incluem o recurso, do mais barato ao mais caro
+}
+
 export interface Plan {
   id: string;
   name: string;
@@ -198,12 +505,14 @@ export interface Plan {
 }
 
 // User Subscription
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired';
+
 export interface UserSubscription {
   id: string;
   userId: string;
   planId: string;
   plan?: Plan;
-  status: 'active' | 'cancelled' | 'expired';
+  status: SubscriptionStatus;
   startedAt: string;
   expiresAt?: string;
   cancelledAt?: string;
@@ -212,6 +521,7 @@ export interface UserSubscription {
 }
 
 export interface CreateSubscriptionDto {
+  /** @format uuid */
   planId: string;
 }
 
@@ -219,8 +529,83 @@ export interface CancelSubscriptionDto {
   action: 'cancel';
 }
 
+// Plan Usage
+export interface PlanLimitUsage {
+  used: number;
+  limit: number | null; // null = ilimitado
+  remaining: number | null;
+}
+
+export interface UsageResponse {
+  plan: {
+    name: string;
+    displayName: string;
+  }; // plano que vale agora (free quando não há assinatura)
+  period: {
+    start: string;
+    end: string; // exclusivo
+    timeZone: string;
+  }; // mês corrente dos limites mensais
+  receiptsPerMonth: PlanLimitUsage; // recibos criados no mês
+  participantsPerReceipt: PlanLimitUsage; // participantes ativos do recibo aberto mais cheio
+  historyReceipts: PlanLimitUsage; // recibos fechados (além do limite, os mais antigos ficam ocultos)
+}
+
 // Dashboard Stats
+export interface DashboardMetricChange {
+  current: number;
+  previous: number;
+  change: number;
+  changePercent: number | null; // null quando o período anterior é zero
+}
+
+export interface DashboardSpendingBucket {
+  total: number;
+  receiptCount: number;
+}
+
+// Partes avançadas do dashboard (recurso analytics)
+export interface DashboardAnalytics {
+  comparison: {
+    previousPeriod: {
+      from: string;
+      to: string;
+    }; // período de mesma duração imediatamente anterior
+    totalSpent: DashboardMetricChange;
+    receiptCount: DashboardMetricChange;
+    averagePerReceipt: DashboardMetricChange;
+  };
+  topCoParticipants: Array<{
+    userId?: string; // ausente para convidados sem conta
+    name: string;
+    receiptCount: number; // recibos em comum
+    totalSpent: number; // gasto do usuário nesses recibos
+  }>;
+  byWeekday: Array<DashboardSpendingBucket & { weekday: number }>; // 0 = domingo
+  byHour: Array<DashboardSpendingBucket & { hour: number }>;
+  heatmap: Array<DashboardSpendingBucket & { weekday: number; hour: number }>; // só células com gasto
+  categories: Array<
+    DashboardSpendingBucket & {
+      category: ReceiptCategory | null; // null = sem categoria
+      share: number; // % do total gasto no período
+    }
+  >;
+}
+
 export interface DashboardStats {
+  period: {
+    from: string;
+    to: string; // inclusivo
+    timeZone: string; // fuso dos dias da semana e horários
+  };
+  summary: {
+    totalSpent: number;
+    receiptCount: number;
+    averagePerReceipt: number;
+    itemsTotal: number;
+    serviceChargeTotal: number;
+    coverTotal: number;
+  };
   expensesByPeriod: Array<{
     period: string;
     total: number;
@@ -238,22 +623,533 @@ export interface DashboardStats {
     totalSpent: number;
     isClosed: boolean;
   }>;
+  analytics: DashboardAnalytics | null; // null quando o plano não inclui o recurso analytics
 }
 
 // Query Params
 export interface ListReceiptsQuery {
   includeClosed?: boolean;
   onlyClosed?: boolean;
+  /** @asType integer @minimum 1 */
   limit?: number;
+  /** @asType integer @minimum 0 */
   offset?: number;
 }
 
-export interface ListNotificationsQuery {
-  unreadOnly?: boolean;
+// page/limit fora da faixa são ajustados pela rota (limit máximo 100)
+export interface PaginationQuery {
+  /** @asType integer */
   page?: number;
+  /** @asType integer */
   limit?: number;
 }
 
+export interface ListNotificationsQuery extends PaginationQuery {
+  unreadOnly?: boolean;
+}
+
+// Sem from/to, o período é o ano inteiro (year, padrão: ano corrente)
 export interface DashboardStatsQuery {
-  year?: string;
+  /** @asType integer @minimum 2000 @maximum 2100 */
+  year?: number;
+  /** @format date */
+  from?: string;
+  /** @format date */
+  to?: string;
+  /** @maxLength 64 */
+  timeZone?: string;
+}
+
+export interface ReceiptCsvExportQuery {
+  sheet?: 'items' | 'participants' | 'totals'; // o CSV traz uma planilha por vez (padrão: items)
+}
+
+export interface ExpenseExportQuery {
+  /** @format date */
+  from?: string; // padrão: 1º de janeiro do ano de `to`
+  /** @format date */
+  to?: string; // inclusivo (padrão: hoje)
+}
+
+export interface UserSearchQuery {
+  /** @maxLength 254 */
+  q?: string;
+}
+
+export interface RealtimeQuery {
+  token?: string;
+}
+
+// Admin
+export interface CreatePlanDto {
+  /** @pattern ^[a-z0-9_-]+$ @maxLength 50 */
+  name: string;
+  /** @minLength 1 @maxLength 100 */
+  displayName: string;
+  /** @maxLength 500 */
+  description?: string | null;
+  /** @minimum 0 */
+  priceMonthly?: number;
+  /** @minimum 0 */
+  maxParticipantsPerReceipt?: number | null;
+  /** @minimum 0 */
+  maxReceiptsPerMonth?: number | null;
+  /** @minimum 0 */
+  maxHistoryReceipts?: number | null;
+  features?: PlanFeatures;
+  isActive?: boolean;
+}
+
+export type UpdatePlanDto = Partial<CreatePlanDto>;
+
+export interface GrantSubscriptionDto {
+  /** @format uuid */
+  planId: string;
+  /** @minimum 1 */
+  durationMonths?: number | null; // null/omitido = sem data de expiração
+}
+
+export interface SuspendUserDto {
+  /** @maxLength 500 */
+  reason?: string;
+}
+
+export interface UpdateUserRoleDto {
+  role: UserRole;
+}
+
+export interface AdminUsersQuery extends PaginationQuery {
+  /** @maxLength 254 */
+  search?: string;
+  suspended?: boolean;
+}
+
+export interface AdminReceiptsQuery extends PaginationQuery {
+  userId?: UUID;
+  /** @maxLength 200 */
+  search?: string;
+  status?: 'open' | 'closed';
+}
+
+export interface AdminAuditLogsQuery extends PaginationQuery {
+  adminId?: UUID;
+  /** @maxLength 100 */
+  action?: string;
+  targetType?: AdminAuditTargetType;
+  targetId?: UUID;
+}
+
+export interface AdminUser extends User {
+  suspendedAt?: string;
+  suspendedReason?: string;
+  plan?: Plan | null;
+}
+
+export interface AdminReceiptSummary {
+  id: string;
+  title: string;
+  date: string;
+  creator: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  participantCount: number;
+  total: number;
+  isClosed: boolean;
+  createdAt: string;
+}
+
+export type AdminAuditTargetType = 'plan' | 'user' | 'subscription' | 'receipt';
+
+export interface AdminAuditLog {
+  id: string;
+  adminId?: string;
+  adminEmail?: string;
+  action: string;
+  targetType: AdminAuditTargetType;
+  targetId?: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  createdAt: string;
+}
+
+export interface PlatformMetrics {
+  users: {
+    total: number;
+    verified: number;
+    suspended: number;
+    newLast30Days: number;
+  };
+  receipts: {
+    total: number;
+    open: number;
+    closed: number;
+    newLast30Days: number;
+    totalAmount: number;
+  };
+  groups: {
+    total: number;
+  };
+  subscriptions: {
+    active: number;
+    monthlyRevenue: number;
+    byPlan: Array<{
+      planId: string;
+      planName: string;
+      count: number;
+    }>;
+  };
+}
+
+// Route Params
+export interface IdParams {
+  id: UUID;
+}
+
+export interface ReceiptItemParams {
+  id: UUID;
+  itemId: UUID;
+}
+
+export interface ReceiptPendingParams {
+  id: UUID;
+  pendingId: UUID;
+}
+
+export interface ReceiptDeletionRequestParams {
+  id: UUID;
+  requestId: UUID;
+}
+
+export interface ReceiptParticipantParams {
+  id: UUID;
+  participantId: UUID;
+}
+
+export interface InviteCodeParams {
+  /** @minLength 1 @maxLength 64 */
+  inviteCode: string;
+}
+
+export interface SettlementTransferParams {
+  id: UUID;
+  transferId: UUID;
+}
+
+export interface GroupParams {
+  groupId: UUID;
+}
+
+export interface GroupMemberParams {
+  groupId: UUID;
+  participantId: UUID;
+}
+
+export interface UserIdParams {
+  userId: UUID;
+}
+
+export interface SessionParams {
+  sessionId: UUID;
+}
+
+export interface PlanParams {
+  planId: UUID;
+}
+
+export interface AdminReceiptParams {
+  receiptId: UUID;
+}
+
+export interface UserSubscriptionParams {
+  userId: UUID;
+  subscriptionId: UUID;
+}
+
+// Responses
+export interface ValidationErrorField {
+  field: string;
+  message: string;
+}
+
+export interface ErrorResponse {
+  error: {
+    code: string; // código estável do catálogo (ex.: RECEIPT_CLOSED)
+    message: string; // no idioma do Accept-Language (pt-BR ou en)
+    statusCode: number;
+    fields?: ValidationErrorField[]; // campos inválidos (erros de validação e conflitos)
+    upgrade?: PlanUpgradeHint; // recurso fora do plano atual (PLAN_FEATURE_REQUIRED)
+  };
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface SuccessResponse {
+  success: boolean;
+  message?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+export interface HealthResponse {
+  status: string;
+  timestamp: string;
+  uptime: number;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: User;
+}
+
+export interface UserResponse {
+  user: User;
+}
+
+export interface LogoutAllResponse extends SuccessResponse {
+  revoked: number;
+}
+
+export interface SessionListResponse {
+  sessions: UserSession[];
+}
+
+export interface UserListResponse {
+  data: User[];
+  count: number;
+}
+
+export interface UserSearchResponse {
+  data: UserSearchResult[];
+  count: number;
+}
+
+export interface UserDataResponse {
+  data: User;
+}
+
+export interface UpdateUserResponse {
+  message: string;
+  data: User;
+}
+
+export interface DeleteUserResponse {
+  message: string;
+  data: DeleteAccountResult;
+}
+
+export interface ReceiptResponse {
+  receipt: Receipt;
+}
+
+export interface ReceiptListResponse {
+  receipts: Receipt[];
+  total: number;
+}
+
+export interface ReceiptActionResponse {
+  message: string;
+  receipt: Receipt;
+}
+
+export interface RequestJoinResponse {
+  message: string;
+  pendingParticipant: PendingParticipant;
+}
+
+export interface DeletionRequestResponse {
+  message: string;
+  deletionRequest: DeletionRequest;
+}
+
+export interface ReceiptUserIdsResponse {
+  userIds: string[];
+}
+
+export interface ReceiptItemResponse {
+  item: ReceiptItem;
+  receipt: Receipt;
+}
+
+export interface ReceiptItemsResponse {
+  items: ReceiptItem[];
+  receipt: Receipt;
+}
+
+export interface ReceiptPayersResponse {
+  payers: ReceiptPayer[];
+  totalPaid: number;
+  totalOwed: number;
+  isBalanced: boolean;
+}
+
+export interface ReceiptSettlementResponse {
+  settlement: ReceiptSettlement;
+}
+
+export interface SettlementTransferResponse {
+  transfer: SettlementTransfer;
+}
+
+export interface UserBalancesResponse {
+  balances: UserBalance[];
+  totalOwedToYou: number;
+  totalYouOwe: number;
+}
+
+export interface SettleUpResponse {
+  transfers: BalanceTransfer[];
+}
+
+export interface PairBalanceResponse {
+  userId: string;
+  name: string;
+  balance: number;
+  receipts: Array<{
+    receiptId: string;
+    title: string;
+    date: string;
+    amount: number;
+  }>;
+  payments: BalancePayment[];
+}
+
+export interface GroupBalancesResponse {
+  groupId: string;
+  balances: PersonBalance[];
+  settleUp: BalanceTransfer[];
+}
+
+export interface BalancePaymentListResponse {
+  payments: BalancePayment[];
+}
+
+export interface BalancePaymentResponse {
+  payment: BalancePayment;
+}
+
+export interface GroupListResponse {
+  groups: Group[];
+}
+
+export interface GroupResponse {
+  group: Group;
+}
+
+export interface GroupMemberResponse {
+  memberId: string;
+  group: Group;
+}
+
+export interface NotificationListResponse {
+  notifications: Notification[];
+  unreadCount: number;
+  pagination: Pagination;
+}
+
+export interface UnreadCountResponse {
+  unreadCount: number;
+}
+
+export interface NotificationResponse {
+  success: boolean;
+  notification: Notification;
+}
+
+export interface MarkNotificationsReadResponse {
+  success: boolean;
+  updated: number;
+}
+
+export interface PlanListResponse {
+  plans: Plan[];
+}
+
+export interface PlanResponse {
+  plan: Plan;
+}
+
+export interface CurrentSubscriptionResponse {
+  subscription: UserSubscription | null;
+  plan: Plan | null;
+  expiresAt: string | null;
+  scheduledSubscription: UserSubscription | null;
+}
+
+export type SubscriptionChange = 'new' | 'upgrade' | 'downgrade' | 'renewal';
+
+export interface SubscribeResponse {
+  subscription: UserSubscription;
+  expiresAt: string;
+  change?: SubscriptionChange;
+}
+
+export interface SubscriptionResponse {
+  subscription: UserSubscription;
+}
+
+export interface CancelSubscriptionResponse {
+  message: string;
+  subscription: UserSubscription;
+}
+
+export interface PlatformMetricsResponse {
+  metrics: PlatformMetrics;
+}
+
+export interface AdminPlan extends Plan {
+  subscriptionCount: number;
+}
+
+export interface AdminPlanListResponse {
+  plans: AdminPlan[];
+}
+
+export interface DeletePlanResponse {
+  message: string;
+  deactivated: boolean;
+  plan?: Plan; // presente quando o plano tinha assinaturas e foi apenas desativado
+}
+
+export interface AdminUserResponse {
+  user: AdminUser;
+}
+
+export interface AdminUserListResponse {
+  users: AdminUser[];
+  pagination: Pagination;
+}
+
+export interface AdminUserDetailResponse {
+  user: AdminUser;
+  subscriptions: UserSubscription[];
+  stats: {
+    receiptsCreated: number;
+    participations: number;
+    groups: number;
+    activeSessions: number;
+  };
+}
+
+export interface AdminReceiptListResponse {
+  receipts: AdminReceiptSummary[];
+  pagination: Pagination;
+}
+
+export interface AdminReceiptDetailResponse {
+  receipt: Receipt;
+  creator: AdminReceiptSummary['creator'];
+}
+
+export interface AuditLogListResponse {
+  logs: AdminAuditLog[];
+  pagination: Pagination;
 }
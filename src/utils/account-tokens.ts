@@ -0,0 +1,163 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../config/database';
+import { getMailer } from './mailer';
+import { AppError } from './errors';
+
+export type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+/**
+ * Validade dos tokens de conta, em minutos
+ */
+const TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  email_verification: parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES || '1440', 10),
+  password_reset: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+};
+
+/**
+ * Exige email confirmado para pedir entrada em recibos (REQUIRE_EMAIL_VERIFICATION=true)
+ */
+export const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+/**
+ * Endereço do app, base dos links enviados por email e dos convites
+ */
+export const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Emite um token assinado e de uso único. Tokens anteriores do mesmo tipo ainda não usados
+ * são invalidados.
+ */
+async function issueAccountToken(
+  fastify: FastifyInstance,
+  user: { id: string; email: string },
+  purpose: AccountTokenPurpose
+): Promise<string> {
+  const ttlMinutes = TOKEN_TTL_MINUTES[purpose];
+
+  const accountToken = await prisma.$transaction(async (tx) => {
+    await tx.accountToken.updateMany({
+      where: {
+        userId: user.id,
+        purpose,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    return tx.accountToken.create({
+      data: {
+        userId: user.id,
+        purpose,
+        email: user.email,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      },
+    });
+  });
+
+  return fastify.jwt.sign(
+    {
+      sub: user.id,
+      jti: accountToken.id,
+      purpose,
+    },
+    { expiresIn: `${ttlMinutes}m` }
+  );
+}
+
+/**
+ * Valida e consome um token de conta, retornando o ID do usuário. O token só vale uma vez
+ * e só para o email para o qual foi emitido.
+ */
+export async function consumeAccountToken(
+  fastify: FastifyInstance,
+  token: string,
+  purpose: AccountTokenPurpose
+): Promise<string> {
+  let payload: { sub?: string; jti?: string; purpose?: string };
+  try {
+    payload = fastify.jwt.verify<{ sub?: string; jti?: string; purpose?: string }>(token);
+  } catch (error) {
+    throw new AppError('INVALID_ACCOUNT_TOKEN');
+  }
+
+  if (payload.purpose !== purpose || !payload.sub || !payload.jti) {
+    throw new AppError('INVALID_ACCOUNT_TOKEN');
+  }
+
+  const accountToken = await prisma.accountToken.findUnique({
+    where: { id: payload.jti },
+    include: {
+      user: true,
+    },
+  });
+
+  if (
+    !accountToken ||
+    accountToken.userId !== payload.sub ||
+    accountToken.purpose !== purpose ||
+    accountToken.expiresAt <= new Date() ||
+    accountToken.user.email !== accountToken.email
+  ) {
+    throw new AppError('INVALID_ACCOUNT_TOKEN');
+  }
+
+  // Marca como usado apenas se ninguém usou antes (evita uso duplo concorrente)
+  const consumed = await prisma.accountToken.updateMany({
+    where: {
+      id: accountToken.id,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+
+  if (consumed.count === 0) {
+    throw new AppError('ACCOUNT_TOKEN_USED');
+  }
+
+  return accountToken.userId;
+}
+
+/**
+ * Envia o email de confirmação de cadastro
+ */
+export async function sendVerificationEmail(
+  fastify: FastifyInstance,
+  user: { id: string; email: string; name: string | null }
+) {
+  const token = await issueAccountToken(fastify, user, 'email_verification');
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Confirme seu email no Sharezin',
+    text:
+      `Olá${user.name ? `, ${user.name}` : ''}!\n\n` +
+      `Confirme seu email acessando o link abaixo:\n${link}\n\n` +
+      `O link expira em ${TOKEN_TTL_MINUTES.email_verification} minutos.`,
+  });
+}
+
+/**
+ * Envia o email de redefinição de senha
+ */
+export async function sendPasswordResetEmail(
+  fastify: FastifyInstance,
+  user: { id: string; email: string; name: string | null }
+) {
+  const token = await issueAccountToken(fastify, user, 'password_reset');
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Redefinição de senha do Sharezin',
+    text:
+      `Olá${user.name ? `, ${user.name}` : ''}!\n\n` +
+      `Para criar uma nova senha, acesse o link abaixo:\n${link}\n\n` +
+      `O link expira em ${TOKEN_TTL_MINUTES.password_reset} minutos. ` +
+      'Se você não pediu a redefinição, ignore este email.',
+  });
+}
@@ -0,0 +1,113 @@
+import { prisma } from '../config/database';
+import { AdminReceiptSummary, AdminUser, PlatformMetrics } from '../types';
+import { activeSubscriptionWhere, formatPlanResponse } from './plans';
+import { formatUserResponse } from './users';
+
+const METRICS_RECENT_DAYS = 30;
+
+/**
+ * Formata usuário para o console administrativo (inclui suspensão e plano atual)
+ */
+export function formatAdminUserResponse(user: any, plan?: any): AdminUser {
+  return {
+    ...formatUserResponse(user),
+    suspendedAt: user.suspendedAt?.toISOString(),
+    suspendedReason: user.suspendedReason || undefined,
+    plan: plan ? formatPlanResponse(plan) : plan === null ? null : undefined,
+  };
+}
+
+/**
+ * Formata recibo para a listagem do console administrativo (sem itens)
+ */
+export function formatAdminReceiptSummary(receipt: any): AdminReceiptSummary {
+  return {
+    id: receipt.id,
+    title: receipt.title,
+    date: receipt.date.toISOString(),
+    creator: {
+      id: receipt.creator.id,
+      name: receipt.creator.name || '',
+      email: receipt.creator.email,
+    },
+    participantCount: receipt._count?.receiptParticipants ?? 0,
+    total: Number(receipt.total) || 0,
+    isClosed: receipt.isClosed || false,
+    createdAt: receipt.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Métricas agregadas da plataforma
+ */
+export async function getPlatformMetrics(): Promise<PlatformMetrics> {
+  const now = new Date();
+  const since = new Date(now.getTime() - METRICS_RECENT_DAYS * 24 * 60 * 60 * 1000);
+
+  const [
+    totalUsers,
+    verifiedUsers,
+    suspendedUsers,
+    newUsers,
+    totalReceipts,
+    closedReceipts,
+    newReceipts,
+    receiptTotals,
+    totalGroups,
+    activeSubscriptions,
+  ] = await Promise.all([
+    prisma.sharezinUser.count(),
+    prisma.sharezinUser.count({ where: { emailVerifiedAt: { not: null } } }),
+    prisma.sharezinUser.count({ where: { suspendedAt: { not: null } } }),
+    prisma.sharezinUser.count({ where: { createdAt: { gte: since } } }),
+    prisma.receipt.count(),
+    prisma.receipt.count({ where: { isClosed: true } }),
+    prisma.receipt.count({ where: { createdAt: { gte: since } } }),
+    prisma.receipt.aggregate({ _sum: { total: true } }),
+    prisma.group.count(),
+    prisma.userSubscription.findMany({
+      where: activeSubscriptionWhere(undefined, now),
+      include: {
+        plan: true,
+      },
+    }),
+  ]);
+
+  const byPlan = new Map<string, { planId: string; planName: string; count: number }>();
+  let monthlyRevenue = 0;
+
+  for (const subscription of activeSubscriptions) {
+    const entry = byPlan.get(subscription.planId) || {
+      planId: subscription.planId,
+      planName: subscription.plan.name,
+      count: 0,
+    };
+    entry.count++;
+    byPlan.set(subscription.planId, entry);
+    monthlyRevenue += Number(subscription.plan.priceMonthly) || 0;
+  }
+
+  return {
+    users: {
+      total: totalUsers,
+      verified: verifiedUsers,
+      suspended: suspendedUsers,
+      newLast30Days: newUsers,
+    },
+    receipts: {
+      total: totalReceipts,
+      open: totalReceipts - closedReceipts,
+      closed: closedReceipts,
+      newLast30Days: newReceipts,
+      totalAmount: Number(receiptTotals._sum.total) || 0,
+    },
+    groups: {
+      total: totalGroups,
+    },
+    subscriptions: {
+      active: activeSubscriptions.length,
+      monthlyRevenue: Math.round(monthlyRevenue * 100) / 100,
+      byPlan: Array.from(byPlan.values()).sort((a, b) => b.count - a.count),
+    },
+  };
+}
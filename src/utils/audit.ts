@@ -0,0 +1,46 @@
+import { FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AdminAuditLog, AdminAuditTargetType } from '../types';
+
+/**
+ * Registra uma ação administrativa no log de auditoria
+ */
+export async function recordAdminAction(
+  request: FastifyRequest,
+  entry: {
+    action: string;
+    targetType: AdminAuditTargetType;
+    targetId?: string;
+    details?: Record<string, unknown>;
+  },
+  client: Prisma.TransactionClient = prisma
+) {
+  return await client.adminAuditLog.create({
+    data: {
+      adminId: request.userPayload?.id || null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId || null,
+      details: (entry.details || undefined) as Prisma.InputJsonValue | undefined,
+      ipAddress: request.ip || null,
+    },
+  });
+}
+
+/**
+ * Formata registro de auditoria do Prisma para o formato da API
+ */
+export function formatAuditLogResponse(log: any): AdminAuditLog {
+  return {
+    id: log.id,
+    adminId: log.adminId || undefined,
+    adminEmail: log.admin?.email || undefined,
+    action: log.action,
+    targetType: log.targetType as AdminAuditTargetType,
+    targetId: log.targetId || undefined,
+    details: (log.details as Record<string, unknown>) || undefined,
+    ipAddress: log.ipAddress || undefined,
+    createdAt: log.createdAt.toISOString(),
+  };
+}
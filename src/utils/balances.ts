@@ -0,0 +1,449 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  BalancePayment,
+  BalancePerson,
+  BalanceTransfer,
+  CreateBalancePaymentDto,
+  PersonBalance,
+  UserBalance,
+} from '../types';
+import { AppError } from './errors';
+import { checkGroupAccess } from './groups';
+import { calculateReceiptSettlement, simplifyDebts } from './settlement';
+import { fromCents, toCents } from './splits';
+
+/**
+ * Dívida pendente entre duas pessoas em um recibo fechado (em centavos)
+ */
+interface ReceiptDebt {
+  receiptId: string;
+  receiptTitle: string;
+  receiptDate: Date;
+  from: string;
+  to: string;
+  amountCents: number;
+}
+
+/**
+ * Chave que identifica uma pessoa entre recibos: o usuário ou, para convidados sem conta, o participante
+ */
+function personKey(participant: { id: string; userId: string | null }): string {
+  return participant.userId || participant.id;
+}
+
+/**
+ * Coleta as dívidas pendentes dos recibos fechados a partir do acerto de contas de cada um.
+ * Usa as transferências gravadas quando existem (as já pagas ficam de fora); senão, as calculadas.
+ * Recibos em que o total pago não bate com o devido não geram dívidas.
+ */
+async function collectReceiptDebts(
+  where: Prisma.ReceiptWhereInput
+): Promise<{ debts: ReceiptDebt[]; people: Map<string, BalancePerson> }> {
+  const receipts = await prisma.receipt.findMany({
+    where: {
+      ...where,
+      isClosed: true,
+    },
+    include: {
+      receiptParticipants: {
+        include: {
+          participant: {
+            include: {
+              user: true,
+            },
+          },
+        },
+      },
+      receiptItems: {
+        include: {
+          shares: true,
+        },
+      },
+      payments: true,
+      settlementTransfers: true,
+    },
+    orderBy: {
+      date: 'asc',
+    },
+  });
+
+  const debts: ReceiptDebt[] = [];
+  const people = new Map<string, BalancePerson>();
+
+  for (const receipt of receipts) {
+    const participants = new Map(
+      receipt.receiptParticipants.map((rp) => [rp.participantId, rp.participant])
+    );
+
+    for (const participant of participants.values()) {
+      const key = personKey(participant);
+      if (!people.has(key)) {
+        people.set(key, {
+          userId: participant.userId || undefined,
+          participantId: participant.userId ? undefined : participant.id,
+          name: participant.user?.name || participant.name,
+        });
+      }
+    }
+
+    const transfers =
+      receipt.settlementTransfers.length > 0
+        ? receipt.settlementTransfers
+            .filter((transfer) => !transfer.isPaid)
+            .map((transfer) => ({
+              from: transfer.fromParticipantId,
+              to: transfer.toParticipantId,
+              amountCents: toCents(Number(transfer.amount)),
+            }))
+        : calculateReceiptSettlement(receipt).transfers.map((transfer) => ({
+            from: transfer.fromParticipantId,
+            to: transfer.toParticipantId,
+            amountCents: toCents(transfer.amount),
+          }));
+
+    for (const transfer of transfers) {
+      const from = participants.get(transfer.from);
+      const to = participants.get(transfer.to);
+
+      if (!from || !to || personKey(from) === personKey(to)) {
+        continue;
+      }
+
+      debts.push({
+        receiptId: receipt.id,
+        receiptTitle: receipt.title,
+        receiptDate: receipt.date,
+        from: personKey(from),
+        to: personKey(to),
+        amountCents: transfer.amountCents,
+      });
+    }
+  }
+
+  return { debts, people };
+}
+
+/**
+ * Saldo do usuário com cada outro usuário, somando todos os recibos fechados em comum
+ * e descontando os pagamentos registrados. Positivo: o outro usuário deve a você.
+ */
+export async function getUserBalances(userId: string): Promise<UserBalance[]> {
+  const [{ debts, people }, payments] = await Promise.all([
+    collectReceiptDebts({ expenses: { some: { userId } } }),
+    prisma.balancePayment.findMany({
+      where: {
+        OR: [{ fromUserId: userId }, { toUserId: userId }],
+      },
+      include: {
+        fromUser: true,
+        toUser: true,
+      },
+    }),
+  ]);
+
+  const balances = new Map<string, number>();
+  const add = (otherUserId: string, cents: number) =>
+    balances.set(otherUserId, (balances.get(otherUserId) || 0) + cents);
+
+  for (const debt of debts) {
+    // Dívidas com convidados sem conta não entram no saldo entre usuários
+    if (debt.to === userId && people.get(debt.from)?.userId) {
+      add(debt.from, debt.amountCents);
+    } else if (debt.from === userId && people.get(debt.to)?.userId) {
+      add(debt.to, -debt.amountCents);
+    }
+  }
+
+  const names = new Map<string, string>();
+  for (const payment of payments) {
+    const cents = toCents(Number(payment.amount));
+    if (payment.fromUserId === userId) {
+      add(payment.toUserId, cents);
+      names.set(payment.toUserId, payment.toUser.name || payment.toUser.email);
+    } else {
+      add(payment.fromUserId, -cents);
+      names.set(payment.fromUserId, payment.fromUser.name || payment.fromUser.email);
+    }
+  }
+
+  return Array.from(balances.entries())
+    .filter(([, cents]) => cents !== 0)
+    .sort(([aId, a], [bId, b]) => Math.abs(b) - Math.abs(a) || aId.localeCompare(bId))
+    .map(([otherUserId, cents]) => ({
+      userId: otherUserId,
+      name: people.get(otherUserId)?.name || names.get(otherUserId) || '',
+      balance: fromCents(cents),
+    }));
+}
+
+/**
+ * Detalha o saldo entre dois usuários: recibos em comum e pagamentos registrados.
+ * Valores positivos: o outro usuário deve a você.
+ */
+export async function getPairBalance(userId: string, otherUserId: string) {
+  const [{ debts }, payments] = await Promise.all([
+    collectReceiptDebts({
+      AND: [
+        { expenses: { some: { userId } } },
+        { expenses: { some: { userId: otherUserId } } },
+      ],
+    }),
+    prisma.balancePayment.findMany({
+      where: {
+        OR: [
+          { fromUserId: userId, toUserId: otherUserId },
+          { fromUserId: otherUserId, toUserId: userId },
+        ],
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    }),
+  ]);
+
+  const receipts = new Map<
+    string,
+    { receiptId: string; title: string; date: string; amountCents: number }
+  >();
+
+  for (const debt of debts) {
+    let cents = 0;
+    if (debt.from === otherUserId && debt.to === userId) {
+      cents = debt.amountCents;
+    } else if (debt.from === userId && debt.to === otherUserId) {
+      cents = -debt.amountCents;
+    } else {
+      continue;
+    }
+
+    const entry = receipts.get(debt.receiptId) || {
+      receiptId: debt.receiptId,
+      title: debt.receiptTitle,
+      date: debt.receiptDate.toISOString(),
+      amountCents: 0,
+    };
+    entry.amountCents += cents;
+    receipts.set(debt.receiptId, entry);
+  }
+
+  const receiptsCents = Array.from(receipts.values()).reduce((sum, r) => sum + r.amountCents, 0);
+  const paymentsCents = payments.reduce(
+    (sum, payment) =>
+      sum +
+      (payment.fromUserId === userId ? 1 : -1) * toCents(Number(payment.amount)),
+    0
+  );
+
+  return {
+    userId: otherUserId,
+    balance: fromCents(receiptsCents + paymentsCents),
+    receipts: Array.from(receipts.values()).map(({ amountCents, ...receipt }) => ({
+      ...receipt,
+      amount: fromCents(amountCents),
+    })),
+    payments: payments.map(formatBalancePaymentResponse),
+  };
+}
+
+/**
+ * Plano para o usuário zerar seus saldos: uma transferência por usuário com saldo em aberto
+ */
+export function buildUserSettleUp(
+  userId: string,
+  userName: string,
+  balances: UserBalance[]
+): BalanceTransfer[] {
+  const self: BalancePerson = { userId, name: userName };
+
+  return balances.map((balance) => {
+    const other: BalancePerson = { userId: balance.userId, name: balance.name };
+    return balance.balance < 0
+      ? { from: self, to: other, amount: -balance.balance }
+      : { from: other, to: self, amount: balance.balance };
+  });
+}
+
+/**
+ * Saldos de um grupo: recibos fechados com participantes do grupo e pagamentos registrados no grupo.
+ * O plano de acerto junta todas as dívidas e as simplifica (no máximo n - 1 transferências).
+ */
+export async function getGroupBalances(
+  groupId: string
+): Promise<{ balances: PersonBalance[]; settleUp: BalanceTransfer[] }> {
+  const [{ debts, people }, payments, members] = await Promise.all([
+    collectReceiptDebts({
+      receiptParticipants: { some: { participant: { groupId } } },
+    }),
+    prisma.balancePayment.findMany({
+      where: { groupId },
+      include: {
+        fromUser: true,
+        toUser: true,
+      },
+    }),
+    prisma.participant.findMany({
+      where: { groupId },
+      include: {
+        user: true,
+      },
+    }),
+  ]);
+
+  const nets = new Map<string, number>();
+  const add = (key: string, cents: number) => nets.set(key, (nets.get(key) || 0) + cents);
+
+  for (const member of members) {
+    const key = personKey(member);
+    add(key, 0);
+    if (!people.has(key)) {
+      people.set(key, {
+        userId: member.userId || undefined,
+        participantId: member.userId ? undefined : member.id,
+        name: member.user?.name || member.name,
+      });
+    }
+  }
+
+  for (const debt of debts) {
+    add(debt.from, -debt.amountCents);
+    add(debt.to, debt.amountCents);
+  }
+
+  for (const payment of payments) {
+    const cents = toCents(Number(payment.amount));
+    add(payment.fromUserId, cents);
+    add(payment.toUserId, -cents);
+
+    if (!people.has(payment.fromUserId)) {
+      people.set(payment.fromUserId, {
+        userId: payment.fromUserId,
+        name: payment.fromUser.name || payment.fromUser.email,
+      });
+    }
+    if (!people.has(payment.toUserId)) {
+      people.set(payment.toUserId, {
+        userId: payment.toUserId,
+        name: payment.toUser.name || payment.toUser.email,
+      });
+    }
+  }
+
+  const person = (key: string): BalancePerson => people.get(key) || { name: '' };
+
+  return {
+    balances: Array.from(nets.entries())
+      .sort(([aKey, a], [bKey, b]) => b - a || aKey.localeCompare(bKey))
+      .map(([key, cents]) => ({ ...person(key), balance: fromCents(cents) })),
+    settleUp: simplifyDebts(nets).map((transfer) => ({
+      from: person(transfer.from),
+      to: person(transfer.to),
+      amount: fromCents(transfer.amountCents),
+    })),
+  };
+}
+
+/**
+ * Registra um pagamento entre dois usuários para abater o saldo.
+ * Só quem recebeu registra (o devedor não quita a própria dívida sozinho), e apenas sobre um saldo
+ * em aberto entre os dois: sem valor informado quita o saldo; com valor, não pode passar dele.
+ */
+export async function recordBalancePayment(
+  userId: string,
+  input: CreateBalancePaymentDto
+): Promise<BalancePayment> {
+  const toUserId = input.toUserId || userId;
+
+  if (toUserId !== userId) {
+    throw new AppError('PAYMENT_RECEIVER_ONLY');
+  }
+
+  const fromUserId = input.fromUserId;
+
+  if (!fromUserId || fromUserId === toUserId) {
+    throw new AppError('PAYMENT_COUNTERPART_REQUIRED', {}, { field: 'fromUserId' });
+  }
+
+  const otherUser = await prisma.sharezinUser.findUnique({
+    where: { id: fromUserId },
+  });
+
+  if (!otherUser) {
+    throw new AppError('USER_NOT_FOUND');
+  }
+
+  if (input.groupId) {
+    const access = await checkGroupAccess(userId, input.groupId);
+    if (!access.exists) {
+      throw new AppError('GROUP_NOT_FOUND', {}, { field: 'groupId' });
+    }
+    if (!access.hasAccess) {
+      throw new AppError('GROUP_ACCESS_DENIED');
+    }
+  }
+
+  // Saldo pendente de quem paga com quem recebe
+  let pendingCents: number;
+
+  if (input.groupId) {
+    const { settleUp } = await getGroupBalances(input.groupId);
+    const transfer = settleUp.find((t) => t.from.userId === fromUserId && t.to.userId === toUserId);
+    pendingCents = transfer ? toCents(transfer.amount) : 0;
+  } else {
+    const balances = await getUserBalances(toUserId);
+    const balance = balances.find((b) => b.userId === fromUserId);
+    pendingCents = balance && balance.balance > 0 ? toCents(balance.balance) : 0;
+  }
+
+  if (pendingCents <= 0) {
+    throw new AppError('NO_PENDING_BALANCE');
+  }
+
+  let amountCents = pendingCents;
+
+  if (input.amount !== undefined && input.amount !== null) {
+    amountCents = toCents(input.amount);
+
+    // O schema exige valor positivo, mas frações de centavo arredondam para zero
+    if (amountCents <= 0) {
+      throw new AppError('INVALID_PAYMENT_AMOUNT', {}, { field: 'amount' });
+    }
+
+    if (amountCents > pendingCents) {
+      throw new AppError(
+        'PAYMENT_EXCEEDS_BALANCE',
+        { balance: fromCents(pendingCents) },
+        { field: 'amount' }
+      );
+    }
+  }
+
+  const payment = await prisma.balancePayment.create({
+    data: {
+      fromUserId,
+      toUserId,
+      groupId: input.groupId || null,
+      amount: fromCents(amountCents),
+      note: input.note?.trim() || null,
+      recordedById: userId,
+    },
+  });
+
+  return formatBalancePaymentResponse(payment);
+}
+
+/**
+ * Formata pagamento do Prisma para o formato da API
+ */
+export function formatBalancePaymentResponse(payment: any): BalancePayment {
+  return {
+    id: payment.id,
+    fromUserId: payment.fromUserId,
+    toUserId: payment.toUserId,
+    groupId: payment.groupId || undefined,
+    amount: Number(payment.amount),
+    note: payment.note || undefined,
+    recordedById: payment.recordedById,
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
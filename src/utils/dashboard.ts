@@ -0,0 +1,305 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  DashboardAnalytics,
+  DashboardMetricChange,
+  DashboardStats,
+  DashboardStatsQuery,
+  ReceiptCategory,
+} from '../types';
+import { AppError } from './errors';
+import { PLAN_LIMITS_TIMEZONE } from './plans';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_CO_PARTICIPANTS = 5;
+
+export interface DashboardRange {
+  from: string; // YYYY-MM-DD no fuso timeZone
+  to: string; // inclusivo
+  timeZone: string;
+}
+
+/**
+ * Período do dashboard (datas no fuso do usuário, fim inclusivo): from/to quando informados,
+ * senão o ano inteiro de year (padrão: ano corrente no fuso)
+ */
+export function resolveDashboardRange(query: DashboardStatsQuery): DashboardRange {
+  const timeZone = query.timeZone || PLAN_LIMITS_TIMEZONE;
+  let today: string;
+
+  try {
+    // en-CA formata como YYYY-MM-DD
+    today = new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+  } catch {
+    throw new AppError('INVALID_TIMEZONE', { timeZone }, { field: 'timeZone' });
+  }
+
+  if (query.from || query.to) {
+    const to = query.to || today;
+    const from = query.from || `${to.slice(0, 4)}-01-01`;
+
+    if (from > to) {
+      throw new AppError('INVALID_DATE_RANGE', {}, { field: 'from' });
+    }
+
+    return { from, to, timeZone };
+  }
+
+  const year = query.year ?? Number(today.slice(0, 4));
+
+  return { from: `${year}-01-01`, to: `${year}-12-31`, timeZone };
+}
+
+/**
+ * Soma dias a uma data YYYY-MM-DD (aritmética de calendário, sem fuso)
+ */
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Despesas que o dashboard considera: do usuário e, com limite de histórico no plano,
+ * só dos recibos ainda visíveis no histórico (null = sem limite)
+ */
+export interface DashboardScope {
+  userId: string;
+  visibleReceiptIds: string[] | null;
+}
+
+/**
+ * Filtro das despesas (recibos fechados) do escopo entre as datas from e to (inclusivo),
+ * com os limites na meia-noite do fuso
+ */
+function expenseFilter(scope: DashboardScope, from: string, to: string, timeZone: string): Prisma.Sql {
+  const history =
+    scope.visibleReceiptIds === null
+      ? Prisma.empty
+      : Prisma.sql`AND e.receipt_id = ANY(${scope.visibleReceiptIds}::uuid[])`;
+
+  return Prisma.sql`e.user_id = ${scope.userId}::uuid AND e.is_closed ${history}
+    AND e.receipt_date >= (${from}::date)::timestamp AT TIME ZONE ${timeZone}
+    AND e.receipt_date < (${to}::date + 1)::timestamp AT TIME ZONE ${timeZone}`;
+}
+
+function metricChange(current: number, previous: number): DashboardMetricChange {
+  return {
+    current,
+    previous,
+    change: roundMoney(current - previous),
+    changePercent: previous === 0 ? null : roundMoney(((current - previous) / previous) * 100),
+  };
+}
+
+/**
+ * Partes do dashboard restritas ao recurso analytics: comparação com o período anterior,
+ * pessoas com quem o usuário mais divide recibos, gastos por dia da semana/hora e por categoria
+ */
+async function getDashboardAnalytics(
+  scope: DashboardScope,
+  range: DashboardRange,
+  current: { totalSpent: number; receiptCount: number; averagePerReceipt: number }
+): Promise<DashboardAnalytics> {
+  const days = (Date.parse(range.to) - Date.parse(range.from)) / DAY_MS + 1;
+  const previousTo = addDays(range.from, -1);
+  const previousFrom = addDays(range.from, -days);
+  const filter = expenseFilter(scope, range.from, range.to, range.timeZone);
+  const localDate = Prisma.sql`(e.receipt_date AT TIME ZONE ${range.timeZone})`;
+
+  const [[previous], coParticipants, heatmap, categories] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: number; receipt_count: number }>>`
+      SELECT COALESCE(ROUND(SUM(e.total_spent), 2), 0)::float8 AS total,
+             COUNT(DISTINCT e.receipt_id)::int AS receipt_count
+      FROM user_receipt_expenses e
+      WHERE ${expenseFilter(scope, previousFrom, previousTo, range.timeZone)}
+    `,
+    // Quem tem conta é agrupado pelo usuário; convidados, pelo participante
+    prisma.$queryRaw<
+      Array<{ user_id: string | null; name: string; receipt_count: number; total: number }>
+    >`
+      SELECT p.user_id,
+             MIN(p.name) AS name,
+             COUNT(DISTINCT e.receipt_id)::int AS receipt_count,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total
+      FROM user_receipt_expenses e
+      JOIN receipt_participants rp ON rp.receipt_id = e.receipt_id
+      JOIN participants p ON p.id = rp.participant_id
+      WHERE ${filter}
+        AND (p.user_id IS NULL OR p.user_id <> ${scope.userId}::uuid)
+      GROUP BY p.user_id, CASE WHEN p.user_id IS NULL THEN p.id END
+      ORDER BY receipt_count DESC, total DESC, name ASC
+      LIMIT ${TOP_CO_PARTICIPANTS}
+    `,
+    prisma.$queryRaw<Array<{ weekday: number; hour: number; total: number; receipt_count: number }>>`
+      SELECT EXTRACT(DOW FROM ${localDate})::int AS weekday,
+             EXTRACT(HOUR FROM ${localDate})::int AS hour,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total,
+             COUNT(DISTINCT e.receipt_id)::int AS receipt_count
+      FROM user_receipt_expenses e
+      WHERE ${filter}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `,
+    prisma.$queryRaw<
+      Array<{ category: ReceiptCategory | null; total: number; receipt_count: number }>
+    >`
+      SELECT r.category,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total,
+             COUNT(DISTINCT e.receipt_id)::int AS receipt_count
+      FROM user_receipt_expenses e
+      JOIN receipts r ON r.id = e.receipt_id
+      WHERE ${filter}
+      GROUP BY r.category
+      ORDER BY total DESC, r.category ASC NULLS LAST
+    `,
+  ]);
+
+  const previousAverage =
+    previous.receipt_count > 0 ? roundMoney(previous.total / previous.receipt_count) : 0;
+
+  // Dia da semana e hora saem da própria matriz (no máximo 7 x 24 células)
+  const byWeekday = Array.from({ length: 7 }, (_, weekday) => ({ weekday, total: 0, receiptCount: 0 }));
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, total: 0, receiptCount: 0 }));
+  for (const cell of heatmap) {
+    byWeekday[cell.weekday].total = roundMoney(byWeekday[cell.weekday].total + cell.total);
+    byWeekday[cell.weekday].receiptCount += cell.receipt_count;
+    byHour[cell.hour].total = roundMoney(byHour[cell.hour].total + cell.total);
+    byHour[cell.hour].receiptCount += cell.receipt_count;
+  }
+
+  return {
+    comparison: {
+      previousPeriod: {
+        from: previousFrom,
+        to: previousTo,
+      },
+      totalSpent: metricChange(current.totalSpent, previous.total),
+      receiptCount: metricChange(current.receiptCount, previous.receipt_count),
+      averagePerReceipt: metricChange(current.averagePerReceipt, previousAverage),
+    },
+    topCoParticipants: coParticipants.map((row) => ({
+      userId: row.user_id || undefined,
+      name: row.name,
+      receiptCount: row.receipt_count,
+      totalSpent: row.total,
+    })),
+    byWeekday,
+    byHour,
+    heatmap: heatmap.map((cell) => ({
+      weekday: cell.weekday,
+      hour: cell.hour,
+      total: cell.total,
+      receiptCount: cell.receipt_count,
+    })),
+    categories: categories.map((row) => ({
+      category: row.category,
+      total: row.total,
+      receiptCount: row.receipt_count,
+      share: current.totalSpent > 0 ? roundMoney((row.total / current.totalSpent) * 100) : 0,
+    })),
+  };
+}
+
+/**
+ * Estatísticas do dashboard, agregadas no banco (recibos fechados do usuário no período).
+ * As partes avançadas só são calculadas quando o plano inclui analytics.
+ */
+export async function getDashboardStats(
+  scope: DashboardScope,
+  range: DashboardRange,
+  options: { analytics: boolean }
+): Promise<DashboardStats> {
+  const filter = expenseFilter(scope, range.from, range.to, range.timeZone);
+  const localDate = Prisma.sql`(e.receipt_date AT TIME ZONE ${range.timeZone})`;
+
+  const [[summary], byPeriod, byDay, distribution] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{ total: number; receipt_count: number; items: number; service_charge: number; cover: number }>
+    >`
+      SELECT COALESCE(ROUND(SUM(e.total_spent), 2), 0)::float8 AS total,
+             COUNT(DISTINCT e.receipt_id)::int AS receipt_count,
+             COALESCE(ROUND(SUM(e.items_total), 2), 0)::float8 AS items,
+             COALESCE(ROUND(SUM(e.service_charge_amount), 2), 0)::float8 AS service_charge,
+             COALESCE(ROUND(SUM(e.cover_amount), 2), 0)::float8 AS cover
+      FROM user_receipt_expenses e
+      WHERE ${filter}
+    `,
+    prisma.$queryRaw<Array<{ period: string; total: number; receipt_count: number }>>`
+      SELECT to_char(date_trunc('month', ${localDate}), 'YYYY-MM') AS period,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total,
+             COUNT(*)::int AS receipt_count
+      FROM user_receipt_expenses e
+      WHERE ${filter}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.$queryRaw<Array<{ day: string; total: number; receipt_count: number }>>`
+      SELECT to_char(date_trunc('day', ${localDate}), 'YYYY-MM-DD') AS day,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total,
+             COUNT(*)::int AS receipt_count
+      FROM user_receipt_expenses e
+      WHERE ${filter}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.$queryRaw<
+      Array<{ receipt_id: string; receipt_title: string; receipt_date: Date; total: number; is_closed: boolean }>
+    >`
+      SELECT e.receipt_id,
+             MIN(e.receipt_title) AS receipt_title,
+             MIN(e.receipt_date) AS receipt_date,
+             ROUND(SUM(e.total_spent), 2)::float8 AS total,
+             BOOL_OR(e.is_closed) AS is_closed
+      FROM user_receipt_expenses e
+      WHERE ${filter}
+      GROUP BY e.receipt_id
+      ORDER BY receipt_date DESC, e.receipt_id
+    `,
+  ]);
+
+  const averagePerReceipt =
+    summary.receipt_count > 0 ? roundMoney(summary.total / summary.receipt_count) : 0;
+
+  return {
+    period: {
+      from: range.from,
+      to: range.to,
+      timeZone: range.timeZone,
+    },
+    summary: {
+      totalSpent: summary.total,
+      receiptCount: summary.receipt_count,
+      averagePerReceipt,
+      itemsTotal: summary.items,
+      serviceChargeTotal: summary.service_charge,
+      coverTotal: summary.cover,
+    },
+    expensesByPeriod: byPeriod.map((row) => ({
+      period: row.period,
+      total: row.total,
+      receiptCount: row.receipt_count,
+    })),
+    expensesByDay: byDay.map((row) => ({
+      day: row.day,
+      total: row.total,
+      receiptCount: row.receipt_count,
+    })),
+    expenseDistribution: distribution.map((row) => ({
+      receiptId: row.receipt_id,
+      receiptTitle: row.receipt_title || '',
+      receiptDate: row.receipt_date.toISOString(),
+      totalSpent: row.total,
+      isClosed: row.is_closed,
+    })),
+    analytics: options.analytics
+      ? await getDashboardAnalytics(scope, range, {
+          totalSpent: summary.total,
+          receiptCount: summary.receipt_count,
+          averagePerReceipt,
+        })
+      : null,
+  };
+}
@@ -0,0 +1,653 @@
+/**
+ * Catálogo de erros da API: cada código é estável (clientes podem depender dele)
+ * e define o status HTTP e a mensagem em cada idioma suportado.
+ * Mensagens aceitam parâmetros no formato {nome}.
+ */
+
+export type Locale = 'pt-BR' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export type ErrorParams = Record<string, string | number>;
+
+type ErrorDefinition = { statusCode: number } & Record<Locale, string>;
+
+export const ERROR_CATALOG = {
+  // Genéricos
+  INTERNAL_ERROR: {
+    statusCode: 500,
+    'pt-BR': 'Erro interno do servidor',
+    en: 'Internal server error',
+  },
+  ROUTE_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Rota não encontrada',
+    en: 'Route not found',
+  },
+  RESOURCE_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Registro não encontrado',
+    en: 'Record not found',
+  },
+  ALREADY_EXISTS: {
+    statusCode: 409,
+    'pt-BR': 'Já existe um registro com estes dados',
+    en: 'A record with this data already exists',
+  },
+  INVALID_REQUEST: {
+    statusCode: 400,
+    'pt-BR': 'Requisição inválida',
+    en: 'Invalid request',
+  },
+  INVALID_JSON: {
+    statusCode: 400,
+    'pt-BR': 'JSON inválido no corpo da requisição',
+    en: 'Invalid JSON in request body',
+  },
+  PAYLOAD_TOO_LARGE: {
+    statusCode: 413,
+    'pt-BR': 'Corpo da requisição grande demais',
+    en: 'Request body too large',
+  },
+  UNSUPPORTED_MEDIA_TYPE: {
+    statusCode: 415,
+    'pt-BR': 'Tipo de conteúdo não suportado',
+    en: 'Unsupported content type',
+  },
+
+  // Validação de schema
+  INVALID_BODY: {
+    statusCode: 400,
+    'pt-BR': 'Dados inválidos',
+    en: 'Invalid data',
+  },
+  INVALID_PARAMS: {
+    statusCode: 400,
+    'pt-BR': 'Parâmetros da rota inválidos',
+    en: 'Invalid route parameters',
+  },
+  INVALID_QUERY: {
+    statusCode: 400,
+    'pt-BR': 'Parâmetros de consulta inválidos',
+    en: 'Invalid query parameters',
+  },
+  INVALID_HEADERS: {
+    statusCode: 400,
+    'pt-BR': 'Cabeçalhos inválidos',
+    en: 'Invalid headers',
+  },
+
+  // Autenticação e sessões
+  UNAUTHENTICATED: {
+    statusCode: 401,
+    'pt-BR': 'Não autenticado',
+    en: 'Not authenticated',
+  },
+  INVALID_ACCESS_TOKEN: {
+    statusCode: 401,
+    'pt-BR': 'Token inválido ou expirado',
+    en: 'Invalid or expired token',
+  },
+  SESSION_REVOKED: {
+    statusCode: 401,
+    'pt-BR': 'Sessão expirada ou encerrada',
+    en: 'Session expired or revoked',
+  },
+  INVALID_REFRESH_TOKEN: {
+    statusCode: 401,
+    'pt-BR': 'Refresh token inválido',
+    en: 'Invalid refresh token',
+  },
+  REFRESH_TOKEN_REUSED: {
+    statusCode: 401,
+    'pt-BR': 'Refresh token reutilizado. Sessão encerrada',
+    en: 'Refresh token reused. Session revoked',
+  },
+  SESSION_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Sessão não encontrada',
+    en: 'Session not found',
+  },
+  INVALID_CREDENTIALS: {
+    statusCode: 401,
+    'pt-BR': 'Credenciais inválidas',
+    en: 'Invalid credentials',
+  },
+  ACCOUNT_SUSPENDED: {
+    statusCode: 403,
+    'pt-BR': 'Conta suspensa',
+    en: 'Account suspended',
+  },
+  EMAIL_IN_USE: {
+    statusCode: 409,
+    'pt-BR': 'Email já cadastrado',
+    en: 'Email already in use',
+  },
+  EMAIL_ALREADY_VERIFIED: {
+    statusCode: 400,
+    'pt-BR': 'Email já confirmado',
+    en: 'Email already verified',
+  },
+  EMAIL_NOT_VERIFIED: {
+    statusCode: 403,
+    'pt-BR': 'Confirme seu email para entrar em recibos',
+    en: 'Verify your email to join receipts',
+  },
+  INVALID_ACCOUNT_TOKEN: {
+    statusCode: 400,
+    'pt-BR': 'Token inválido ou expirado',
+    en: 'Invalid or expired token',
+  },
+  ACCOUNT_TOKEN_USED: {
+    statusCode: 400,
+    'pt-BR': 'Token já utilizado',
+    en: 'Token already used',
+  },
+  WRONG_PASSWORD: {
+    statusCode: 401,
+    'pt-BR': 'Senha atual incorreta',
+    en: 'Current password is incorrect',
+  },
+  SAME_PASSWORD: {
+    statusCode: 400,
+    'pt-BR': 'A nova senha deve ser diferente da senha atual',
+    en: 'The new password must be different from the current one',
+  },
+
+  // Usuários e administração
+  USER_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Usuário não encontrado',
+    en: 'User not found',
+  },
+  USER_ACCESS_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Sem permissão para acessar este usuário',
+    en: 'You are not allowed to access this user',
+  },
+  ADMIN_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Apenas administradores podem realizar esta ação',
+    en: 'Only administrators can perform this action',
+  },
+  USE_REGISTER_ROUTE: {
+    statusCode: 400,
+    'pt-BR': 'Use /api/auth/register para criar usuários',
+    en: 'Use /api/auth/register to create users',
+  },
+  SEARCH_TOO_SHORT: {
+    statusCode: 400,
+    'pt-BR': 'A busca deve ter pelo menos {min} caracteres',
+    en: 'Search query must have at least {min} characters',
+  },
+  CANNOT_CHANGE_OWN_ROLE: {
+    statusCode: 400,
+    'pt-BR': 'Você não pode alterar o próprio papel',
+    en: 'You cannot change your own role',
+  },
+  CANNOT_SUSPEND_SELF: {
+    statusCode: 400,
+    'pt-BR': 'Você não pode suspender a própria conta',
+    en: 'You cannot suspend your own account',
+  },
+  USER_ALREADY_SUSPENDED: {
+    statusCode: 409,
+    'pt-BR': 'Usuário já está suspenso',
+    en: 'User is already suspended',
+  },
+  USER_NOT_SUSPENDED: {
+    statusCode: 409,
+    'pt-BR': 'Usuário não está suspenso',
+    en: 'User is not suspended',
+  },
+
+  // Recibos e participantes
+  RECEIPT_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Recibo não encontrado',
+    en: 'Receipt not found',
+  },
+  RECEIPT_ACCESS_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Sem permissão para acessar este recibo',
+    en: 'You are not allowed to access this receipt',
+  },
+  RECEIPT_CREATOR_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Apenas o criador pode realizar esta ação',
+    en: 'Only the receipt creator can perform this action',
+  },
+  RECEIPT_CLOSED: {
+    statusCode: 400,
+    'pt-BR': 'Não é possível modificar um recibo fechado',
+    en: 'A closed receipt cannot be modified',
+  },
+  RECEIPT_NOT_CLOSED: {
+    statusCode: 400,
+    'pt-BR': 'Feche o recibo antes de exportá-lo',
+    en: 'Close the receipt before exporting it',
+  },
+  INVALID_DATE_RANGE: {
+    statusCode: 400,
+    'pt-BR': 'A data inicial deve ser anterior ou igual à data final',
+    en: 'The start date must be on or before the end date',
+  },
+  INVALID_TIMEZONE: {
+    statusCode: 400,
+    'pt-BR': 'Fuso horário inválido: {timeZone}',
+    en: 'Invalid time zone: {timeZone}',
+  },
+  RECEIPT_TITLE_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Título é obrigatório',
+    en: 'Title is required',
+  },
+  INVALID_INVITE_CODE: {
+    statusCode: 404,
+    'pt-BR': 'Código de convite inválido',
+    en: 'Invalid invite code',
+  },
+  RECEIPT_LIMIT_REACHED: {
+    statusCode: 403,
+    'pt-BR': 'Limite de {limit} recibos por mês atingido',
+    en: 'Limit of {limit} receipts per month reached',
+  },
+  PARTICIPANT_LIMIT_REACHED: {
+    statusCode: 403,
+    'pt-BR': 'Limite de {limit} participantes por recibo atingido',
+    en: 'Limit of {limit} participants per receipt reached',
+  },
+  RECEIPT_OUTSIDE_HISTORY: {
+    statusCode: 403,
+    'pt-BR': 'Este recibo está fora do histórico do seu plano',
+    en: 'This receipt is outside your plan history',
+  },
+  GROUP_EXCEEDS_PARTICIPANT_LIMIT: {
+    statusCode: 403,
+    'pt-BR': 'Limite de {limit} participantes por recibo atingido. O grupo tem {members} membros',
+    en: 'Limit of {limit} participants per receipt reached. The group has {members} members',
+  },
+  TRANSFER_EXCEEDS_PARTICIPANT_LIMIT: {
+    statusCode: 403,
+    'pt-BR': 'O plano do novo criador permite {limit} participantes por recibo e este recibo tem {participants}',
+    en: "The new creator's plan allows {limit} participants per receipt and this receipt has {participants}",
+  },
+  ALREADY_PARTICIPANT: {
+    statusCode: 400,
+    'pt-BR': 'Você já é participante deste recibo',
+    en: 'You are already a participant of this receipt',
+  },
+  RECEIPT_OWNER_CANNOT_JOIN: {
+    statusCode: 400,
+    'pt-BR': 'Você é o responsável por este recibo',
+    en: 'You are the owner of this receipt',
+  },
+  JOIN_ALREADY_REQUESTED: {
+    statusCode: 400,
+    'pt-BR': 'Você já solicitou entrada neste recibo',
+    en: 'You have already requested to join this receipt',
+  },
+  JOIN_REQUEST_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Solicitação não encontrada',
+    en: 'Request not found',
+  },
+  NOT_A_PARTICIPANT: {
+    statusCode: 403,
+    'pt-BR': 'Você não é participante deste recibo',
+    en: 'You are not a participant of this receipt',
+  },
+  PARTICIPANT_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Participante não encontrado',
+    en: 'Participant not found',
+  },
+  PARTICIPANT_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Participante é obrigatório',
+    en: 'Participant is required',
+  },
+  PARTICIPANT_NOT_IN_RECEIPT: {
+    statusCode: 400,
+    'pt-BR': 'Participante {participantId} não pertence a este recibo',
+    en: 'Participant {participantId} does not belong to this receipt',
+  },
+  PARTICIPATION_CLOSED: {
+    statusCode: 403,
+    'pt-BR': 'Sua participação neste recibo está fechada',
+    en: 'Your participation in this receipt is closed',
+  },
+  CLOSE_PARTICIPATION_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Sem permissão para fechar esta participação',
+    en: 'You are not allowed to close this participation',
+  },
+  NEW_CREATOR_NOT_FOUND: {
+    statusCode: 400,
+    'pt-BR': 'Novo criador não encontrado',
+    en: 'New creator not found',
+  },
+  NEW_CREATOR_NOT_PARTICIPANT: {
+    statusCode: 400,
+    'pt-BR': 'O novo criador deve ser um participante do recibo',
+    en: 'The new creator must be a participant of the receipt',
+  },
+  NEW_CREATOR_CLOSED: {
+    statusCode: 400,
+    'pt-BR': 'Não é possível transferir para um participante que fechou sua participação',
+    en: 'Cannot transfer to a participant whose participation is closed',
+  },
+  TRANSFER_TO_SELF: {
+    statusCode: 400,
+    'pt-BR': 'Não é possível transferir para si mesmo',
+    en: 'Cannot transfer to yourself',
+  },
+
+  // Itens e divisões
+  ITEM_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Item não encontrado',
+    en: 'Item not found',
+  },
+  ITEM_NAME_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Nome do item é obrigatório',
+    en: 'Item name is required',
+  },
+  ITEM_NAME_TOO_LONG: {
+    statusCode: 400,
+    'pt-BR': 'Nome do item deve ter no máximo {max} caracteres',
+    en: 'Item name must have at most {max} characters',
+  },
+  INVALID_QUANTITY: {
+    statusCode: 400,
+    'pt-BR': 'Quantidade deve ser um número maior que zero',
+    en: 'Quantity must be a number greater than zero',
+  },
+  INVALID_PRICE: {
+    statusCode: 400,
+    'pt-BR': 'Preço deve ser um número maior ou igual a zero',
+    en: 'Price must be a number greater than or equal to zero',
+  },
+  ITEM_FOR_SELF_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Você só pode adicionar itens para si mesmo',
+    en: 'You can only add items for yourself',
+  },
+  ITEM_OWNER_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Você só pode alterar seus próprios itens',
+    en: 'You can only change your own items',
+  },
+  ITEM_DELETE_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Você só pode excluir seus próprios itens. Solicite a exclusão ao dono do item',
+    en: 'You can only delete your own items. Ask the item owner to delete it',
+  },
+  ITEM_REASSIGN_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Apenas o criador pode reatribuir itens',
+    en: 'Only the receipt creator can reassign items',
+  },
+  ITEM_OWNER_CAN_DELETE: {
+    statusCode: 400,
+    'pt-BR': 'Você é o dono deste item e pode excluí-lo diretamente',
+    en: 'You own this item and can delete it directly',
+  },
+  DELETION_ALREADY_REQUESTED: {
+    statusCode: 400,
+    'pt-BR': 'Você já solicitou a exclusão deste item',
+    en: 'You have already requested the deletion of this item',
+  },
+  DELETION_REQUEST_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Solicitação de exclusão não encontrada',
+    en: 'Deletion request not found',
+  },
+  DELETION_REVIEW_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Apenas o criador ou o dono do item pode analisar esta solicitação',
+    en: 'Only the receipt creator or the item owner can review this request',
+  },
+  REQUEST_ALREADY_APPROVED: {
+    statusCode: 409,
+    'pt-BR': 'Esta solicitação já foi aprovada',
+    en: 'This request has already been approved',
+  },
+  REQUEST_ALREADY_REJECTED: {
+    statusCode: 409,
+    'pt-BR': 'Esta solicitação já foi rejeitada',
+    en: 'This request has already been rejected',
+  },
+  INVALID_SPLIT_MODE: {
+    statusCode: 400,
+    'pt-BR': 'Modo de divisão inválido (use equal, weight ou fixed)',
+    en: 'Invalid split mode (use equal, weight or fixed)',
+  },
+  SPLIT_PARTICIPANTS_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe ao menos um participante na divisão',
+    en: 'Provide at least one participant in the split',
+  },
+  DUPLICATE_SPLIT_PARTICIPANT: {
+    statusCode: 400,
+    'pt-BR': 'Participante repetido na divisão',
+    en: 'Duplicate participant in the split',
+  },
+  INVALID_SPLIT_WEIGHT: {
+    statusCode: 400,
+    'pt-BR': 'Peso deve ser um número maior que zero',
+    en: 'Weight must be a number greater than zero',
+  },
+  INVALID_SPLIT_AMOUNT: {
+    statusCode: 400,
+    'pt-BR': 'Valor deve ser um número maior ou igual a zero',
+    en: 'Amount must be a number greater than or equal to zero',
+  },
+  SPLIT_TOTAL_MISMATCH: {
+    statusCode: 400,
+    'pt-BR': 'A soma dos valores ({sum}) deve ser igual ao total do item ({total})',
+    en: 'The sum of the amounts ({sum}) must equal the item total ({total})',
+  },
+
+  // Acerto de contas e saldos
+  PAYERS_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe ao menos um pagador',
+    en: 'Provide at least one payer',
+  },
+  DUPLICATE_PAYER: {
+    statusCode: 400,
+    'pt-BR': 'Participante repetido na lista de pagadores',
+    en: 'Duplicate participant in the payer list',
+  },
+  INVALID_PAID_AMOUNT: {
+    statusCode: 400,
+    'pt-BR': 'Valor pago deve ser um número maior que zero',
+    en: 'Paid amount must be a number greater than zero',
+  },
+  TRANSFER_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Transferência não encontrada',
+    en: 'Transfer not found',
+  },
+  TRANSFER_UPDATE_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Apenas quem recebe ou o criador pode atualizar esta transferência',
+    en: 'Only the payee or the receipt creator can update this transfer',
+  },
+  SETTLEMENT_HAS_PAID_TRANSFERS: {
+    statusCode: 409,
+    'pt-BR': 'Já existem transferências pagas neste acerto de contas',
+    en: 'This settlement already has paid transfers',
+  },
+  COUNTERPART_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe outro usuário',
+    en: 'Provide another user',
+  },
+  PAYMENT_RECEIVER_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Só quem recebeu o pagamento pode registrá-lo',
+    en: 'Only the user who received the payment can record it',
+  },
+  PAYMENT_COUNTERPART_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe quem fez o pagamento (fromUserId)',
+    en: 'Provide the user who made the payment (fromUserId)',
+  },
+  INVALID_PAYMENT_AMOUNT: {
+    statusCode: 400,
+    'pt-BR': 'Valor deve ser maior que zero',
+    en: 'Amount must be greater than zero',
+  },
+  NO_PENDING_BALANCE: {
+    statusCode: 400,
+    'pt-BR': 'Não há saldo pendente entre esses usuários',
+    en: 'There is no pending balance between these users',
+  },
+  PAYMENT_EXCEEDS_BALANCE: {
+    statusCode: 400,
+    'pt-BR': 'Valor maior que o saldo pendente ({balance})',
+    en: 'Amount exceeds the pending balance ({balance})',
+  },
+
+  // Grupos
+  GROUP_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Grupo não encontrado',
+    en: 'Group not found',
+  },
+  GROUP_ACCESS_DENIED: {
+    statusCode: 403,
+    'pt-BR': 'Sem permissão para acessar este grupo',
+    en: 'You are not allowed to access this group',
+  },
+  GROUP_OWNER_ONLY: {
+    statusCode: 403,
+    'pt-BR': 'Apenas o dono do grupo pode realizar esta ação',
+    en: 'Only the group owner can perform this action',
+  },
+  GROUP_NAME_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Nome é obrigatório',
+    en: 'Name is required',
+  },
+  GROUP_MEMBER_LIMIT: {
+    statusCode: 400,
+    'pt-BR': 'Máximo de {max} membros por grupo',
+    en: 'Maximum of {max} members per group',
+  },
+  GROUP_MEMBER_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Membro não encontrado',
+    en: 'Member not found',
+  },
+  GROUP_MEMBER_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe o usuário (userId ou email) ou o nome do convidado',
+    en: 'Provide the user (userId or email) or the guest name',
+  },
+  ALREADY_GROUP_MEMBER: {
+    statusCode: 409,
+    'pt-BR': 'Usuário já é membro do grupo',
+    en: 'User is already a member of the group',
+  },
+  GROUP_OWNER_CANNOT_LEAVE: {
+    statusCode: 400,
+    'pt-BR': 'O dono não pode sair do grupo',
+    en: 'The owner cannot leave the group',
+  },
+
+  // Notificações
+  NOTIFICATION_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Notificação não encontrada',
+    en: 'Notification not found',
+  },
+  NOTIFICATION_SELECTION_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Informe notificationIds ou markAllAsRead',
+    en: 'Provide notificationIds or markAllAsRead',
+  },
+
+  // Planos e assinaturas
+  PLAN_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Plano não encontrado',
+    en: 'Plan not found',
+  },
+  PLAN_NAME_IN_USE: {
+    statusCode: 409,
+    'pt-BR': 'Já existe um plano com este nome',
+    en: 'A plan with this name already exists',
+  },
+  PLAN_DISPLAY_NAME_REQUIRED: {
+    statusCode: 400,
+    'pt-BR': 'Nome de exibição é obrigatório',
+    en: 'Display name is required',
+  },
+  INVALID_PLAN_LIMIT: {
+    statusCode: 400,
+    'pt-BR': 'O limite deve ser null (ilimitado) ou um inteiro maior ou igual a zero',
+    en: 'The limit must be null (unlimited) or an integer greater than or equal to zero',
+  },
+  FREE_PLAN_NOT_DELETABLE: {
+    statusCode: 400,
+    'pt-BR': 'O plano gratuito não pode ser excluído',
+    en: 'The free plan cannot be deleted',
+  },
+  FREE_PLAN_NOT_EDITABLE: {
+    statusCode: 400,
+    'pt-BR': 'O plano gratuito não pode ser renomeado nem desativado',
+    en: 'The free plan cannot be renamed or deactivated',
+  },
+  PLAN_FEATURE_REQUIRED: {
+    statusCode: 402,
+    'pt-BR': 'O recurso {feature} não está incluído no plano {plan}. Faça upgrade para usá-lo',
+    en: 'The {feature} feature is not included in the {plan} plan. Upgrade to use it',
+  },
+  FEATURE_UNAVAILABLE: {
+    statusCode: 403,
+    'pt-BR': 'O recurso {feature} não está disponível em nenhum plano',
+    en: 'The {feature} feature is not available in any plan',
+  },
+  INVALID_GRANT_DURATION: {
+    statusCode: 400,
+    'pt-BR': 'A duração deve ser um número inteiro de meses maior que zero ou null (sem expiração)',
+    en: 'The duration must be a whole number of months greater than zero or null (no expiration)',
+  },
+  ALREADY_SUBSCRIBED: {
+    statusCode: 409,
+    'pt-BR': 'Você já possui este plano',
+    en: 'You are already subscribed to this plan',
+  },
+  NO_ACTIVE_SUBSCRIPTION: {
+    statusCode: 404,
+    'pt-BR': 'Nenhuma assinatura ativa encontrada',
+    en: 'No active subscription found',
+  },
+  SUBSCRIPTION_NOT_FOUND: {
+    statusCode: 404,
+    'pt-BR': 'Assinatura não encontrada',
+    en: 'Subscription not found',
+  },
+  SUBSCRIPTION_EXPIRED: {
+    statusCode: 409,
+    'pt-BR': 'Assinatura já expirada',
+    en: 'Subscription already expired',
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+/**
+ * Mensagem do erro no idioma pedido, com os parâmetros substituídos
+ */
+export function translateError(code: ErrorCode, locale: Locale, params: ErrorParams = {}): string {
+  const template: string = ERROR_CATALOG[code][locale];
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
@@ -1,45 +1,325 @@
-import { FastifyReply, FastifyRequest } from 'fastify';
+import { FastifyError, FastifyReply, FastifyRequest, FastifySchemaValidationError } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { PlanUpgradeHint, ValidationErrorField } from '../types';
+import {
+  DEFAULT_LOCALE,
+  ErrorCode,
+  ERROR_CATALOG,
+  ErrorParams,
+  Locale,
+  translateError,
+} from './error-catalog';
 
+export { ErrorCode, Locale } from './error-catalog';
+
+/**
+ * Erro da aplicação: o código (do catálogo em error-catalog.ts) define o status e a mensagem.
+ * `field` indica o campo do corpo que causou o erro (ex.: items.2.participantId)
+ * e `upgrade`, os planos que liberam o recurso negado.
+ */
 export class AppError extends Error {
+  public statusCode: number;
+  public field?: string;
+  public upgrade?: PlanUpgradeHint;
+
   constructor(
-    public statusCode: number,
-    public message: string,
-    public isOperational = true
+    public code: ErrorCode,
+    public params: ErrorParams = {},
+    options: { field?: string; upgrade?: PlanUpgradeHint } = {}
   ) {
-    super(message);
+    super(translateError(code, DEFAULT_LOCALE, params));
+    this.statusCode = ERROR_CATALOG[code].statusCode;
+    this.field = options.field;
+    this.upgrade = options.upgrade;
     Object.setPrototypeOf(this, AppError.prototype);
   }
 }
 
+/**
+ * Idioma das mensagens a partir do Accept-Language (pt-BR por padrão)
+ */
+export function resolveLocale(acceptLanguage: string | undefined): Locale {
+  const languages = (acceptLanguage || '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...attributes] = part.trim().toLowerCase().split(';');
+      const quality = attributes.find((attribute) => attribute.trim().startsWith('q='));
+      return { tag, quality: quality ? parseFloat(quality.trim().slice(2)) || 0 : 1 };
+    })
+    .filter((language) => language.tag && language.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of languages) {
+    if (tag.startsWith('pt')) return 'pt-BR';
+    if (tag.startsWith('en')) return 'en';
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+const VALIDATION_CODES: Record<string, ErrorCode> = {
+  body: 'INVALID_BODY',
+  params: 'INVALID_PARAMS',
+  querystring: 'INVALID_QUERY',
+  headers: 'INVALID_HEADERS',
+};
+
+const TYPE_NAMES: Record<Locale, Record<string, string>> = {
+  'pt-BR': {
+    string: 'texto',
+    number: 'número',
+    integer: 'número inteiro',
+    boolean: 'verdadeiro ou falso',
+    array: 'lista',
+    object: 'objeto',
+    null: 'nulo',
+  },
+  en: {
+    string: 'a string',
+    number: 'a number',
+    integer: 'an integer',
+    boolean: 'true or false',
+    array: 'a list',
+    object: 'an object',
+    null: 'null',
+  },
+};
+
+const VALIDATION_TEXTS: Record<Locale, Record<string, string>> = {
+  'pt-BR': {
+    required: 'Campo obrigatório',
+    type: 'Deve ser {types}',
+    or: ' ou ',
+    empty: 'Não pode ser vazio',
+    minLength: 'Deve ter no mínimo {limit} caracteres',
+    maxLength: 'Deve ter no máximo {limit} caracteres',
+    minimum: 'Deve ser maior ou igual a {limit}',
+    exclusiveMinimum: 'Deve ser maior que {limit}',
+    maximum: 'Deve ser menor ou igual a {limit}',
+    minItems: 'Deve ter no mínimo {limit} itens',
+    maxItems: 'Deve ter no máximo {limit} itens',
+    enum: 'Valor inválido (use: {values})',
+    email: 'Email inválido',
+    uuid: 'Identificador inválido',
+    format: 'Formato inválido',
+    invalid: 'Valor inválido',
+    unique: 'Valor já está em uso',
+  },
+  en: {
+    required: 'Required field',
+    type: 'Must be {types}',
+    or: ' or ',
+    empty: 'Cannot be empty',
+    minLength: 'Must have at least {limit} characters',
+    maxLength: 'Must have at most {limit} characters',
+    minimum: 'Must be greater than or equal to {limit}',
+    exclusiveMinimum: 'Must be greater than {limit}',
+    maximum: 'Must be less than or equal to {limit}',
+    minItems: 'Must have at least {limit} items',
+    maxItems: 'Must have at most {limit} items',
+    enum: 'Invalid value (use: {values})',
+    email: 'Invalid email',
+    uuid: 'Invalid identifier',
+    format: 'Invalid format',
+    invalid: 'Invalid value',
+    unique: 'Value already in use',
+  },
+};
+
+function validationText(locale: Locale, key: string, params: Record<string, unknown> = {}): string {
+  return VALIDATION_TEXTS[locale][key].replace(/\{(\w+)\}/g, (_, name: string) =>
+    String(params[name])
+  );
+}
+
+/**
+ * Traduz um erro do Ajv para a mensagem exibida ao cliente
+ */
+function formatValidationMessage(error: FastifySchemaValidationError, locale: Locale): string {
+  const params = error.params as Record<string, any>;
+
+  switch (error.keyword) {
+    case 'required':
+      return validationText(locale, 'required');
+    case 'type': {
+      const types = String(params.type)
+        .split(',')
+        .map((type) => TYPE_NAMES[locale][type] || type);
+      return validationText(locale, 'type', { types: types.join(validationText(locale, 'or')) });
+    }
+    case 'minLength':
+      return params.limit === 1
+        ? validationText(locale, 'empty')
+        : validationText(locale, 'minLength', params);
+    case 'maxLength':
+    case 'minimum':
+    case 'exclusiveMinimum':
+    case 'maximum':
+    case 'minItems':
+    case 'maxItems':
+      return validationText(locale, error.keyword, params);
+    case 'enum':
+      return validationText(locale, 'enum', {
+        values: (params.allowedValues as unknown[]).join(', '),
+      });
+    case 'const':
+      return validationText(locale, 'enum', { values: params.allowedValue });
+    case 'format':
+      if (params.format === 'email') return validationText(locale, 'email');
+      if (params.format === 'uuid') return validationText(locale, 'uuid');
+      return validationText(locale, 'format');
+    case 'pattern':
+      return validationText(locale, 'format');
+    default:
+      return validationText(locale, 'invalid');
+  }
+}
+
+/**
+ * Lista os campos que falharam na validação (ex.: items.0.price)
+ */
+export function formatValidationErrors(
+  errors: FastifySchemaValidationError[],
+  context?: string,
+  locale: Locale = DEFAULT_LOCALE
+): ValidationErrorField[] {
+  const fields: ValidationErrorField[] = [];
+  const seen = new Set<string>();
+
+  for (const error of errors) {
+    const path = error.instancePath
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (error.keyword === 'required') {
+      path.push(String((error.params as Record<string, unknown>).missingProperty));
+    }
+
+    const field = path.join('.') || context || 'body';
+    const message = formatValidationMessage(error, locale);
+    const key = `${field}:${message}`;
+    // anyOf repete o erro de cada alternativa; o resumo dele não acrescenta nada
+    if (error.keyword === 'anyOf' || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    fields.push({ field, message });
+  }
+
+  return fields;
+}
+
+/**
+ * Campos da restrição única violada (P2002); com driver adapter eles vêm dentro do erro do driver
+ */
+function getUniqueConstraintFields(error: Prisma.PrismaClientKnownRequestError): string[] {
+  const meta = error.meta as Record<string, any> | undefined;
+  const fields = Array.isArray(meta?.target)
+    ? meta.target
+    : meta?.driverAdapterError?.cause?.constraint?.fields;
+
+  return Array.isArray(fields) ? fields.map(String) : [];
+}
+
+/**
+ * Erros do Prisma que têm resposta própria (registro inexistente, violação de unicidade)
+ */
+function fromPrismaError(error: unknown): AppError | null {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+    return null;
+  }
+
+  switch (error.code) {
+    case 'P2025':
+      return new AppError('RESOURCE_NOT_FOUND');
+    case 'P2002': {
+      const [field] = getUniqueConstraintFields(error);
+      return new AppError('ALREADY_EXISTS', {}, { field });
+    }
+    default:
+      return null;
+  }
+}
+
+// Erros do parser de corpo do Fastify com código próprio no catálogo
+const FASTIFY_ERROR_CODES: Record<string, ErrorCode> = {
+  FST_ERR_CTP_INVALID_JSON_BODY: 'INVALID_JSON',
+  FST_ERR_CTP_EMPTY_JSON_BODY: 'INVALID_JSON',
+  FST_ERR_CTP_BODY_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+  FST_ERR_CTP_INVALID_MEDIA_TYPE: 'UNSUPPORTED_MEDIA_TYPE',
+};
+
+function sendError(
+  reply: FastifyReply,
+  locale: Locale,
+  code: ErrorCode,
+  options: {
+    statusCode?: number;
+    params?: ErrorParams;
+    fields?: ValidationErrorField[];
+    upgrade?: PlanUpgradeHint;
+  } = {}
+) {
+  const statusCode = options.statusCode ?? ERROR_CATALOG[code].statusCode;
+
+  return reply
+    .status(statusCode)
+    .header('Content-Language', locale)
+    .send({
+      error: {
+        code,
+        message: translateError(code, locale, options.params),
+        statusCode,
+        ...(options.fields && options.fields.length > 0 && { fields: options.fields }),
+        ...(options.upgrade && { upgrade: options.upgrade }),
+      },
+    });
+}
+
 export const errorHandler = (
-  error: Error | AppError,
+  error: FastifyError | AppError,
   request: FastifyRequest,
   reply: FastifyReply
 ) => {
-  if (error instanceof AppError) {
-    return reply.status(error.statusCode).send({
-      error: {
-        message: error.message,
-        statusCode: error.statusCode,
-      },
+  const locale = resolveLocale(request.headers['accept-language']);
+  const appError = error instanceof AppError ? error : fromPrismaError(error);
+
+  if (appError) {
+    const message =
+      appError.code === 'ALREADY_EXISTS'
+        ? validationText(locale, 'unique')
+        : translateError(appError.code, locale, appError.params);
+
+    return sendError(reply, locale, appError.code, {
+      params: appError.params,
+      fields: appError.field ? [{ field: appError.field, message }] : undefined,
+      upgrade: appError.upgrade,
+    });
+  }
+
+  const fastifyError = error as FastifyError;
+
+  // Erro de validação do schema da rota
+  if (fastifyError.validation) {
+    const context = fastifyError.validationContext || 'body';
+    return sendError(reply, locale, VALIDATION_CODES[context] || 'INVALID_BODY', {
+      fields: formatValidationErrors(fastifyError.validation, context, locale),
+    });
+  }
+
+  // Erros do próprio Fastify com status de cliente (JSON malformado, corpo grande demais...)
+  if (fastifyError.statusCode && fastifyError.statusCode >= 400 && fastifyError.statusCode < 500) {
+    return sendError(reply, locale, FASTIFY_ERROR_CODES[fastifyError.code] || 'INVALID_REQUEST', {
+      statusCode: fastifyError.statusCode,
     });
   }
 
   // Erro não tratado
-  console.error('Unhandled error:', error);
-  return reply.status(500).send({
-    error: {
-      message: 'Internal server error',
-      statusCode: 500,
-    },
-  });
+  console.error(`Unhandled error on ${request.method} ${request.url}:`, error);
+  return sendError(reply, locale, 'INTERNAL_ERROR');
 };
 
 export const notFoundHandler = (request: FastifyRequest, reply: FastifyReply) => {
-  reply.status(404).send({
-    error: {
-      message: 'Route not found',
-      statusCode: 404,
-    },
-  });
+  return sendError(reply, resolveLocale(request.headers['accept-language']), 'ROUTE_NOT_FOUND');
 };
@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { Group, GroupMemberDto } from '../types';
+import { AppError } from './errors';
+
+/**
+ * Verifica se o usuário tem acesso ao grupo (é dono ou membro)
+ */
+export async function checkGroupAccess(
+  userId: string,
+  groupId: string
+): Promise<{ exists: boolean; hasAccess: boolean; isOwner: boolean; isMember: boolean }> {
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    include: {
+      participants: true,
+    },
+  });
+
+  if (!group) {
+    return { exists: false, hasAccess: false, isOwner: false, isMember: false };
+  }
+
+  const isOwner = group.userId === userId;
+  const isMember = group.participants.some((participant) => participant.userId === userId);
+
+  return {
+    exists: true,
+    hasAccess: isOwner || isMember,
+    isOwner,
+    isMember,
+  };
+}
+
+/**
+ * Valida um membro do grupo: usuário cadastrado (por ID ou email) ou convidado só com nome.
+ * Retorna os dados do participante a criar; `field` aponta o membro no corpo em caso de erro.
+ */
+export async function resolveGroupMember(
+  groupId: string,
+  input: GroupMemberDto,
+  client: Prisma.TransactionClient = prisma,
+  field?: string
+): Promise<{ name: string; userId: string | null }> {
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+
+  if (input?.userId || input?.email) {
+    const user = input.userId
+      ? await client.sharezinUser.findUnique({ where: { id: input.userId } })
+      : await client.sharezinUser.findUnique({
+          where: { email: String(input.email).trim() },
+        });
+
+    if (!user) {
+      throw new AppError('USER_NOT_FOUND', {}, { field });
+    }
+
+    const existing = await client.participant.findFirst({
+      where: {
+        groupId,
+        userId: user.id,
+      },
+    });
+
+    if (existing) {
+      throw new AppError('ALREADY_GROUP_MEMBER', {}, { field });
+    }
+
+    return { name: name || user.name || user.email, userId: user.id };
+  }
+
+  if (!name) {
+    throw new AppError('GROUP_MEMBER_REQUIRED', {}, { field });
+  }
+
+  return { name, userId: null };
+}
+
+/**
+ * Formata grupo do Prisma para o formato da API
+ */
+export function formatGroupResponse(group: any): Group {
+  const members = (group.participants || [])
+    .slice()
+    .sort((a: any, b: any) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return {
+    id: group.id,
+    name: group.name,
+    userId: group.userId,
+    participantIds: members.map((p: any) => p.id),
+    members: members.map((p: any) => ({
+      id: p.id,
+      name: p.user?.name || p.name,
+      groupId: p.groupId || undefined,
+      userId: p.userId || undefined,
+    })),
+    createdAt: group.createdAt.toISOString(),
+    updatedAt: group.updatedAt.toISOString(),
+  };
+}
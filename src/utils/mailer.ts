@@ -0,0 +1,129 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Email a ser enviado
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Interface de envio de emails (SMTP em produção, arquivo/console em desenvolvimento e testes)
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Sharezin <no-reply@sharezin.app>';
+
+/**
+ * Envio via SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ */
+export class SmtpMailer implements Mailer {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASSWORD,
+        }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: MAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * Grava cada email como JSON em MAIL_OUTBOX_DIR (útil para testes e desenvolvimento)
+ */
+export class FileMailer implements Mailer {
+  constructor(private directory = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail')) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date().toISOString();
+    const fileName = `${sentAt.replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: MAIL_FROM, ...message, sentAt }, null, 2)
+    );
+  }
+}
+
+/**
+ * Apenas exibe o email no log
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] Para: ${message.to} | Assunto: ${message.subject}\n${message.text}`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * Transporte configurado em MAIL_TRANSPORT ('smtp' | 'file' | 'console').
+ * Sem configuração, usa SMTP quando SMTP_HOST existe e console caso contrário.
+ */
+function resolveMailTransport(): string {
+  return process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+}
+
+/**
+ * Em produção exige SMTP: console e arquivo gravariam links de verificação e de redefinição
+ * de senha (credenciais de uso único) nos logs ou no disco do servidor
+ */
+export function assertMailerConfigured() {
+  if (process.env.NODE_ENV !== 'production') {
+    return;
+  }
+
+  if (resolveMailTransport() !== 'smtp' || !process.env.SMTP_HOST) {
+    throw new Error('Envio de emails não configurado: em produção defina SMTP_HOST (MAIL_TRANSPORT=smtp)');
+  }
+}
+
+/**
+ * Retorna o mailer configurado (ver resolveMailTransport)
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    assertMailerConfigured();
+
+    const transport = resolveMailTransport();
+
+    if (transport === 'smtp') {
+      mailer = new SmtpMailer();
+    } else if (transport === 'file') {
+      mailer = new FileMailer();
+    } else {
+      mailer = new ConsoleMailer();
+    }
+  }
+
+  return mailer;
+}
+
+/**
+ * Substitui o mailer em uso (ex.: testes)
+ */
+export function setMailer(customMailer: Mailer) {
+  mailer = customMailer;
+}
@@ -1,18 +1,22 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
-import { NotificationType } from '../types';
+import { Notification, NotificationType } from '../types';
 
 /**
  * Cria uma notificação no banco de dados
  */
-export async function createNotification(data: {
-  userId: string;
-  type: NotificationType;
-  title: string;
-  message: string;
-  receiptId?: string;
-  relatedUserId?: string;
-}) {
-  return await prisma.notification.create({
+export async function createNotification(
+  data: {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    receiptId?: string;
+    relatedUserId?: string;
+  },
+  client: Prisma.TransactionClient = prisma
+) {
+  return await client.notification.create({
     data: {
       userId: data.userId,
       type: data.type,
@@ -192,6 +196,31 @@ export async function notifyCreatorTransferred(
   });
 }
 
+/**
+ * Notifica o participante que assumiu o recibo de um usuário que excluiu a conta
+ */
+export async function notifyCreatorReassigned(
+  receiptId: string,
+  newCreatorId: string,
+  formerCreatorName: string
+) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+  });
+
+  if (!receipt) {
+    return;
+  }
+
+  await createNotification({
+    userId: newCreatorId,
+    type: 'creator_transferred',
+    title: 'Você é o novo responsável',
+    message: `${formerCreatorName} excluiu a conta e o recibo "${receipt.title}" passou para você`,
+    receiptId,
+  });
+}
+
 /**
  * Notifica sobre aprovação de participante
  */
@@ -231,33 +260,27 @@ export async function notifyParticipantApproved(
 
 /**
  * Notifica sobre rejeição de participante
+ * (recebe o usuário solicitante, pois a solicitação rejeitada não gera participante)
  */
 export async function notifyParticipantRejected(
   receiptId: string,
-  participantId: string,
+  userId: string,
   creatorId: string
 ) {
   const receipt = await prisma.receipt.findUnique({
     where: { id: receiptId },
   });
 
-  const participant = await prisma.participant.findUnique({
-    where: { id: participantId },
-    include: {
-      user: true,
-    },
-  });
-
   const creator = await prisma.sharezinUser.findUnique({
     where: { id: creatorId },
   });
 
-  if (!receipt || !participant || !participant.userId || !creator) {
+  if (!receipt || !creator) {
     return;
   }
 
   await createNotification({
-    userId: participant.userId,
+    userId,
     type: 'participant_rejected',
     title: 'Participação Rejeitada',
     message: `${creator.name || creator.email} rejeitou sua solicitação de participação no recibo "${receipt.title}"`,
@@ -265,3 +288,162 @@ export async function notifyParticipantRejected(
     relatedUserId: creatorId,
   });
 }
+
+/**
+ * Notifica o criador e o dono do item sobre uma solicitação de exclusão
+ */
+export async function notifyDeletionRequest(
+  receiptId: string,
+  itemId: string,
+  requesterId: string
+) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+  });
+
+  const item = await prisma.receiptItem.findUnique({
+    where: { id: itemId },
+    include: {
+      participant: true,
+    },
+  });
+
+  const requester = await prisma.sharezinUser.findUnique({
+    where: { id: requesterId },
+  });
+
+  if (!receipt || !item || !requester) {
+    return;
+  }
+
+  // Criador e dono do item podem decidir (sem duplicar nem notificar o solicitante)
+  const recipientIds = [receipt.creatorId, item.participant.userId].filter(
+    (userId, index, ids): userId is string =>
+      !!userId && userId !== requesterId && ids.indexOf(userId) === index
+  );
+
+  const notifications = recipientIds.map((userId) =>
+    createNotification({
+      userId,
+      type: 'deletion_request',
+      title: 'Solicitação de Exclusão',
+      message: `${requester.name || requester.email} solicitou a exclusão de "${item.name}" do recibo "${receipt.title}"`,
+      receiptId,
+      relatedUserId: requesterId,
+    })
+  );
+
+  await Promise.all(notifications);
+}
+
+/**
+ * Notifica o solicitante sobre a aprovação da exclusão
+ */
+export async function notifyDeletionApproved(
+  receiptId: string,
+  itemName: string,
+  requesterId: string,
+  approverId: string
+) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+  });
+
+  const approver = await prisma.sharezinUser.findUnique({
+    where: { id: approverId },
+  });
+
+  if (!receipt || !approver || requesterId === approverId) {
+    return;
+  }
+
+  await createNotification({
+    userId: requesterId,
+    type: 'deletion_approved',
+    title: 'Exclusão Aprovada',
+    message: `${approver.name || approver.email} aprovou a exclusão de "${itemName}" do recibo "${receipt.title}"`,
+    receiptId,
+    relatedUserId: approverId,
+  });
+}
+
+/**
+ * Notifica o solicitante sobre a rejeição da exclusão
+ */
+export async function notifyDeletionRejected(
+  receiptId: string,
+  itemName: string,
+  requesterId: string,
+  rejecterId: string
+) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+  });
+
+  const rejecter = await prisma.sharezinUser.findUnique({
+    where: { id: rejecterId },
+  });
+
+  if (!receipt || !rejecter || requesterId === rejecterId) {
+    return;
+  }
+
+  await createNotification({
+    userId: requesterId,
+    type: 'deletion_rejected',
+    title: 'Exclusão Rejeitada',
+    message: `${rejecter.name || rejecter.email} rejeitou a exclusão de "${itemName}" do recibo "${receipt.title}"`,
+    receiptId,
+    relatedUserId: rejecterId,
+  });
+}
+
+/**
+ * Notifica o outro usuário quando um pagamento de saldo é registrado
+ */
+export async function notifyBalancePayment(
+  fromUserId: string,
+  toUserId: string,
+  amount: number,
+  recordedById: string
+) {
+  const recorder = await prisma.sharezinUser.findUnique({
+    where: { id: recordedById },
+  });
+
+  if (!recorder) {
+    return;
+  }
+
+  const recorderName = recorder.name || recorder.email;
+  const formattedAmount = amount.toFixed(2);
+  const isPayer = recordedById === fromUserId;
+
+  await createNotification({
+    userId: isPayer ? toUserId : fromUserId,
+    type: 'balance_payment',
+    title: 'Pagamento Registrado',
+    message: isPayer
+      ? `${recorderName} registrou um pagamento de ${formattedAmount} para você`
+      : `${recorderName} registrou ter recebido ${formattedAmount} de você`,
+    relatedUserId: recordedById,
+  });
+}
+
+/**
+ * Formata notificação do Prisma para o formato da API
+ */
+export function formatNotificationResponse(notification: any): Notification {
+  return {
+    id: notification.id,
+    userId: notification.userId,
+    type: notification.type as NotificationType,
+    title: notification.title,
+    message: notification.message,
+    receiptId: notification.receiptId || undefined,
+    relatedUserId: notification.relatedUserId || undefined,
+    isRead: notification.isRead || false,
+    createdAt: notification.createdAt.toISOString(),
+    updatedAt: notification.updatedAt.toISOString(),
+  };
+}
@@ -1,18 +1,66 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import {
+  CreatePlanDto,
+  Plan,
+  PlanFeature,
+  PlanFeatures,
+  PlanLimitUsage,
+  UsageResponse,
+} from '../types';
+import { AppError } from './errors';
+import { receiptMemberWhere } from './receipts';
+
+/**
+ * Nome do plano usado quando o usuário não tem assinatura
+ */
+export const FREE_PLAN_NAME = 'free';
+
+/**
+ * Recursos que podem ser liberados por plano (chaves aceitas em features)
+ */
+export const PLAN_FEATURE_KEYS: PlanFeature[] = [
+  'dashboard',
+  'analytics',
+  'pdfExport',
+  'excelExport',
+];
+
+const PLAN_LIMIT_FIELDS = [
+  'maxParticipantsPerReceipt',
+  'maxReceiptsPerMonth',
+  'maxHistoryReceipts',
+] as const;
+
+/**
+ * Filtro de assinaturas que garantem acesso agora (de um usuário ou, sem userId, de todos).
+ * Assinaturas canceladas mantêm acesso até o fim do período pago.
+ */
+export function activeSubscriptionWhere(
+  userId?: string,
+  now: Date = new Date()
+): Prisma.UserSubscriptionWhereInput {
+  return {
+    ...(userId ? { userId } : {}),
+    startedAt: { lte: now },
+    OR: [
+      { status: 'active', expiresAt: null },
+      { status: 'active', expiresAt: { gt: now } },
+      { status: 'cancelled', expiresAt: { gt: now } },
+    ],
+  };
+}
 
 /**
  * Busca o plano ativo do usuário
+ * (aceita um cliente de transação para não disputar conexão do pool com ela)
  */
-export async function getUserActivePlan(userId: string) {
-  const subscription = await prisma.userSubscription.findFirst({
-    where: {
-      userId,
-      status: 'active',
-      OR: [
-        { expiresAt: null },
-        { expiresAt: { gt: new Date() } },
-      ],
-    },
+export async function getUserActivePlan(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const subscription = await client.userSubscription.findFirst({
+    where: activeSubscriptionWhere(userId),
     include: {
       plan: true,
     },
@@ -25,18 +73,233 @@ export async function getUserActivePlan(userId: string) {
 }
 
 /**
- * Verifica se o usuário pode criar mais recibos no mês atual
+ * Limites e recursos que valem para o usuário
+ */
+export interface EffectivePlan {
+  name: string;
+  displayName: string;
+  maxParticipantsPerReceipt: number | null;
+  maxReceiptsPerMonth: number | null;
+  maxHistoryReceipts: number | null;
+  features: Required<PlanFeatures>;
+}
+
+/**
+ * Plano gratuito usado quando ele não está cadastrado no banco (o seed cadastra o mesmo)
+ */
+export const FREE_TIER: EffectivePlan = {
+  name: FREE_PLAN_NAME,
+  displayName: 'Gratuito',
+  maxParticipantsPerReceipt: 5,
+  maxReceiptsPerMonth: 10,
+  maxHistoryReceipts: 20,
+  features: {
+    dashboard: false,
+    analytics: false,
+    pdfExport: false,
+    excelExport: false,
+  },
+};
+
+/**
+ * Lê o JSON de features do plano (chaves ausentes ou com valor diferente de true ficam desligadas)
+ */
+export function parsePlanFeatures(features: Prisma.JsonValue | null | undefined): Required<PlanFeatures> {
+  const values =
+    features && typeof features === 'object' && !Array.isArray(features) ? features : {};
+
+  return Object.fromEntries(
+    PLAN_FEATURE_KEYS.map((key) => [key, values[key] === true])
+  ) as Required<PlanFeatures>;
+}
+
+/**
+ * Plano que vale para o usuário: o da assinatura ativa ou, sem assinatura,
+ * o plano gratuito (FREE_TIER se ele não estiver cadastrado)
+ */
+export async function getUserEffectivePlan(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<EffectivePlan> {
+  const plan =
+    (await getUserActivePlan(userId, client)) ??
+    (await client.plan.findUnique({ where: { name: FREE_PLAN_NAME } }));
+
+  if (!plan) {
+    return FREE_TIER;
+  }
+
+  return {
+    name: plan.name,
+    displayName: plan.displayName,
+    maxParticipantsPerReceipt: plan.maxParticipantsPerReceipt,
+    maxReceiptsPerMonth: plan.maxReceiptsPerMonth,
+    maxHistoryReceipts: plan.maxHistoryReceipts,
+    features: parsePlanFeatures(plan.features),
+  };
+}
+
+/**
+ * Verifica se o plano do usuário inclui o recurso
+ */
+export async function hasPlanFeature(userId: string, feature: PlanFeature): Promise<boolean> {
+  const { features } = await getUserEffectivePlan(userId);
+  return features[feature];
+}
+
+/**
+ * Exige um recurso do plano do usuário. Sem ele, falha com 402 e a lista de planos que o incluem
+ * (sugestão de upgrade), ou com 403 quando nenhum plano ativo oferece o recurso.
+ */
+export async function assertPlanFeature(userId: string, feature: PlanFeature): Promise<void> {
+  const plan = await getUserEffectivePlan(userId);
+
+  if (plan.features[feature]) {
+    return;
+  }
+
+  const upgradePlans = await prisma.plan.findMany({
+    where: {
+      isActive: true,
+      features: { path: [feature], equals: true },
+    },
+    orderBy: { priceMonthly: 'asc' },
+  });
+
+  if (upgradePlans.length === 0) {
+    throw new AppError('FEATURE_UNAVAILABLE', { feature });
+  }
+
+  throw new AppError(
+    'PLAN_FEATURE_REQUIRED',
+    { feature, plan: plan.displayName },
+    {
+      upgrade: {
+        feature,
+        currentPlan: plan.name,
+        plans: upgradePlans.map((upgradePlan) => ({
+          name: upgradePlan.name,
+          displayName: upgradePlan.displayName,
+          priceMonthly: Number(upgradePlan.priceMonthly) || 0,
+        })),
+      },
+    }
+  );
+}
+
+/**
+ * Fuso horário em que o mês dos limites mensais começa e termina
+ */
+export const PLAN_LIMITS_TIMEZONE = process.env.PLAN_LIMITS_TIMEZONE || 'America/Sao_Paulo';
+
+/**
+ * Data e hora locais de um instante no fuso informado
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+/**
+ * Diferença entre o horário local do fuso e UTC em um instante, em milissegundos
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const local = getZonedParts(date, timeZone);
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instante da meia-noite do dia 1 do mês (0-11, pode transbordar para o ano seguinte) no fuso
+ */
+function startOfMonthInTimeZone(year: number, month: number, timeZone: string): Date {
+  const midnightUtc = Date.UTC(year, month, 1);
+  const guess = midnightUtc - getTimeZoneOffset(new Date(midnightUtc), timeZone);
+
+  // Recalcula com o offset do próprio instante (horário de verão muda o offset)
+  return new Date(midnightUtc - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Mês corrente dos limites mensais: início (inclusivo) e fim (exclusivo)
+ */
+export function getCurrentLimitPeriod(
+  now: Date = new Date(),
+  timeZone: string = PLAN_LIMITS_TIMEZONE
+): { start: Date; end: Date } {
+  const { year, month } = getZonedParts(now, timeZone);
+
+  return {
+    start: startOfMonthInTimeZone(year, month - 1, timeZone),
+    end: startOfMonthInTimeZone(year, month, timeZone),
+  };
+}
+
+/**
+ * Recibos criados pelo usuário no mês corrente dos limites
+ */
+async function countMonthlyReceipts(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const { start, end } = getCurrentLimitPeriod();
+
+  return await client.receipt.count({
+    where: {
+      creatorId: userId,
+      createdAt: {
+        gte: start,
+        lt: end,
+      },
+    },
+  });
+}
+
+/**
+ * Verifica se o usuário pode criar mais recibos no mês atual.
+ * Em uma transação, trava a linha do usuário antes de contar: criações simultâneas
+ * esperam umas pelas outras e não ultrapassam o limite.
  */
-export async function checkReceiptLimit(userId: string): Promise<{
+export async function checkReceiptLimit(
+  userId: string,
+  client: Prisma.TransactionClient
+): Promise<{
   canCreate: boolean;
   currentCount: number;
   limit: number | null;
-  message?: string;
 }> {
-  const plan = await getUserActivePlan(userId);
+  const plan = await getUserEffectivePlan(userId, client);
 
-  // Se não tem plano ou limite é null, pode criar ilimitado
-  if (!plan || plan.maxReceiptsPerMonth === null) {
+  // Limite null: pode criar ilimitado
+  if (plan.maxReceiptsPerMonth === null) {
     return {
       canCreate: true,
       currentCount: 0,
@@ -44,47 +307,60 @@ export async function checkReceiptLimit(userId: string): Promise<{
     };
   }
 
-  // Conta recibos criados no mês atual
-  const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-
-  const currentCount = await prisma.receipt.count({
-    where: {
-      creatorId: userId,
-      createdAt: {
-        gte: startOfMonth,
-        lte: endOfMonth,
-      },
-    },
-  });
-
-  const canCreate = currentCount < plan.maxReceiptsPerMonth;
+  await client.$queryRaw`SELECT id FROM sharezin_users WHERE id = ${userId}::uuid FOR UPDATE`;
+  const currentCount = await countMonthlyReceipts(userId, client);
 
   return {
-    canCreate,
+    canCreate: currentCount < plan.maxReceiptsPerMonth,
     currentCount,
     limit: plan.maxReceiptsPerMonth,
-    message: canCreate
-      ? undefined
-      : `Limite de ${plan.maxReceiptsPerMonth} recibos por mês atingido`,
   };
 }
 
 /**
- * Verifica se o recibo pode ter mais participantes
+ * Participantes ativos (não fechados) do recibo
+ */
+async function countActiveParticipants(
+  receiptId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return await client.receiptParticipant.count({
+    where: {
+      receiptId,
+      isClosed: false,
+    },
+  });
+}
+
+/**
+ * Verifica se o recibo comporta `adding` participantes a mais, pelo plano do criador
+ * (ou do futuro criador, em uma transferência). Deve rodar na transação que insere os
+ * participantes: trava a linha do recibo antes de contar, para que entradas simultâneas
+ * não ultrapassem o limite.
  */
 export async function checkParticipantLimit(
   receiptId: string,
-  plan: any
+  client: Prisma.TransactionClient,
+  options: { adding?: number; creatorId?: string } = {}
 ): Promise<{
   canAdd: boolean;
   currentCount: number;
   limit: number | null;
-  message?: string;
 }> {
-  // Se limite é null, pode adicionar ilimitado
-  if (!plan || plan.maxParticipantsPerReceipt === null) {
+  const adding = options.adding ?? 1;
+
+  const [receipt] = await client.$queryRaw<Array<{ creator_id: string }>>`
+    SELECT creator_id FROM receipts WHERE id = ${receiptId}::uuid FOR UPDATE
+  `;
+
+  if (!receipt) {
+    throw new AppError('RECEIPT_NOT_FOUND');
+  }
+
+  const plan = await getUserEffectivePlan(options.creatorId || receipt.creator_id, client);
+
+  // Limite null: pode adicionar ilimitado
+  if (plan.maxParticipantsPerReceipt === null) {
     return {
       canAdd: true,
       currentCount: 0,
@@ -92,60 +368,196 @@ export async function checkParticipantLimit(
     };
   }
 
-  // Conta participantes ativos (não fechados)
-  const currentCount = await prisma.receiptParticipant.count({
-    where: {
-      receiptId,
-      participant: {
-        isClosed: false,
-      },
-    },
-  });
-
-  const canAdd = currentCount < plan.maxParticipantsPerReceipt;
+  const currentCount = await countActiveParticipants(receiptId, client);
 
   return {
-    canAdd,
+    canAdd: currentCount + adding <= plan.maxParticipantsPerReceipt,
     currentCount,
     limit: plan.maxParticipantsPerReceipt,
-    message: canAdd
-      ? undefined
-      : `Limite de ${plan.maxParticipantsPerReceipt} participantes por recibo atingido`,
   };
 }
 
 /**
- * Verifica limite de histórico ao listar recibos fechados
+ * Recibos fechados que o usuário vê no histórico: apenas os maxHistoryReceipts mais recentes
+ * entre os que ele criou ou de que participa (null quando o plano não limita o histórico).
+ * Vale para a listagem, o detalhe, as exportações e o dashboard.
  */
-export async function checkHistoryLimit(
-  userId: string,
-  plan: any
-): Promise<number | null> {
-  // Se não tem plano ou limite é null, retorna null (sem limite)
-  if (!plan || plan.maxHistoryReceipts === null) {
+export async function getVisibleHistoryReceiptIds(userId: string): Promise<string[] | null> {
+  const plan = await getUserEffectivePlan(userId);
+
+  if (plan.maxHistoryReceipts === null) {
     return null;
   }
 
-  return plan.maxHistoryReceipts;
+  const visible = await prisma.receipt.findMany({
+    where: {
+      AND: [receiptMemberWhere(userId), { isClosed: true }],
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+    take: plan.maxHistoryReceipts,
+    select: { id: true },
+  });
+
+  return visible.map((receipt) => receipt.id);
 }
 
 /**
- * Obtém limites do plano do usuário
+ * Filtro dos recibos fechados que o usuário vê no histórico
  */
-export async function getUserPlanLimits(userId: string) {
-  const plan = await getUserActivePlan(userId);
+export async function getVisibleHistoryWhere(userId: string): Promise<Prisma.ReceiptWhereInput> {
+  const visibleIds = await getVisibleHistoryReceiptIds(userId);
 
-  if (!plan) {
-    return {
-      maxReceiptsPerMonth: null,
-      maxParticipantsPerReceipt: null,
-      maxHistoryReceipts: null,
-    };
+  return visibleIds === null ? { isClosed: true } : { isClosed: true, id: { in: visibleIds } };
+}
+
+/**
+ * Recusa recibos fechados fora do histórico visível do usuário (recibos abertos sempre aparecem)
+ */
+export async function assertReceiptInHistory(userId: string, receiptId: string): Promise<void> {
+  const visibleIds = await getVisibleHistoryReceiptIds(userId);
+
+  if (visibleIds === null || visibleIds.includes(receiptId)) {
+    return;
+  }
+
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: { isClosed: true },
+  });
+
+  if (receipt?.isClosed) {
+    throw new AppError('RECEIPT_OUTSIDE_HISTORY');
   }
+}
 
+function toLimitUsage(used: number, limit: number | null): PlanLimitUsage {
   return {
-    maxReceiptsPerMonth: plan.maxReceiptsPerMonth,
-    maxParticipantsPerReceipt: plan.maxParticipantsPerReceipt,
-    maxHistoryReceipts: plan.maxHistoryReceipts,
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+  };
+}
+
+/**
+ * Consumo do usuário em cada limite do plano
+ */
+export async function getUserUsage(userId: string): Promise<UsageResponse> {
+  const plan = await getUserEffectivePlan(userId);
+  const period = getCurrentLimitPeriod();
+
+  const [monthlyReceipts, openReceipts, closedReceipts] = await Promise.all([
+    countMonthlyReceipts(userId),
+    prisma.receipt.findMany({
+      where: {
+        creatorId: userId,
+        isClosed: false,
+      },
+      select: {
+        _count: {
+          select: {
+            receiptParticipants: { where: { isClosed: false } },
+          },
+        },
+      },
+    }),
+    prisma.receipt.count({
+      where: {
+        AND: [receiptMemberWhere(userId), { isClosed: true }],
+      },
+    }),
+  ]);
+
+  // O limite de participantes vale por recibo: mostra o recibo aberto mais cheio
+  const largestReceipt = Math.max(
+    0,
+    ...openReceipts.map((receipt) => receipt._count.receiptParticipants)
+  );
+
+  return {
+    plan: { name: plan.name, displayName: plan.displayName },
+    period: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      timeZone: PLAN_LIMITS_TIMEZONE,
+    },
+    receiptsPerMonth: toLimitUsage(monthlyReceipts, plan.maxReceiptsPerMonth),
+    participantsPerReceipt: toLimitUsage(largestReceipt, plan.maxParticipantsPerReceipt),
+    historyReceipts: toLimitUsage(closedReceipts, plan.maxHistoryReceipts),
+  };
+}
+
+/**
+ * Formata plano do Prisma para o formato da API
+ */
+export function formatPlanResponse(plan: any): Plan {
+  return {
+    id: plan.id,
+    name: plan.name,
+    displayName: plan.displayName,
+    description: plan.description || undefined,
+    priceMonthly: Number(plan.priceMonthly) || 0,
+    maxParticipantsPerReceipt: plan.maxParticipantsPerReceipt ?? null,
+    maxReceiptsPerMonth: plan.maxReceiptsPerMonth ?? null,
+    maxHistoryReceipts: plan.maxHistoryReceipts ?? null,
+    features: (plan.features || {}) as PlanFeatures,
+    isActive: plan.isActive,
+    createdAt: plan.createdAt.toISOString(),
+    updatedAt: plan.updatedAt.toISOString(),
   };
 }
+
+/**
+ * Monta os dados de criação/edição de plano (na edição todos os campos são opcionais).
+ * Tipos, formato do nome e recursos aceitos já vêm validados pelo schema da rota;
+ * aqui ficam as regras que o schema não expressa (nome de exibição em branco, limites inteiros).
+ */
+export function parsePlanInput(
+  body: Partial<CreatePlanDto> | undefined,
+  isUpdate = false
+): Prisma.PlanUncheckedCreateInput {
+  const input = body || {};
+  const data: Partial<Prisma.PlanUncheckedCreateInput> = {};
+
+  if (input.name !== undefined || !isUpdate) {
+    data.name = (input.name || '').trim();
+  }
+
+  if (input.displayName !== undefined || !isUpdate) {
+    const displayName = (input.displayName || '').trim();
+    if (!displayName) {
+      throw new AppError('PLAN_DISPLAY_NAME_REQUIRED', {}, { field: 'displayName' });
+    }
+    data.displayName = displayName;
+  }
+
+  if (input.description !== undefined) {
+    data.description = input.description?.trim() || null;
+  }
+
+  if (input.priceMonthly !== undefined) {
+    data.priceMonthly = input.priceMonthly;
+  }
+
+  for (const field of PLAN_LIMIT_FIELDS) {
+    const value = input[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && !Number.isInteger(value)) {
+      throw new AppError('INVALID_PLAN_LIMIT', {}, { field });
+    }
+    data[field] = value;
+  }
+
+  if (input.features !== undefined) {
+    data.features = input.features as Prisma.InputJsonValue;
+  }
+
+  if (input.isActive !== undefined) {
+    data.isActive = input.isActive;
+  }
+
+  return data as Prisma.PlanUncheckedCreateInput;
+}
@@ -0,0 +1,131 @@
+import { ReceiptEvent, ReceiptEventPayloads, ReceiptEventType } from '../types';
+
+/**
+ * Conexão inscrita no hub de realtime (usuário autenticado + envio de mensagens)
+ */
+export interface RealtimeConnection {
+  userId: string;
+  sessionId?: string;
+  send(message: string): void;
+  close(): void;
+}
+
+// Conexões abertas, conexões inscritas em cada recibo e recibos de cada conexão
+const openConnections = new Set<RealtimeConnection>();
+const receiptSubscriptions = new Map<string, Set<RealtimeConnection>>();
+const connectionReceipts = new Map<RealtimeConnection, Set<string>>();
+
+/**
+ * Registra uma conexão autenticada
+ */
+export function registerConnection(connection: RealtimeConnection) {
+  openConnections.add(connection);
+}
+
+/**
+ * Inscreve a conexão nos eventos do recibo.
+ * O acesso ao recibo deve ser verificado antes (checkReceiptAccess).
+ */
+export function subscribeToReceipt(connection: RealtimeConnection, receiptId: string) {
+  if (!receiptSubscriptions.has(receiptId)) {
+    receiptSubscriptions.set(receiptId, new Set());
+  }
+  receiptSubscriptions.get(receiptId)!.add(connection);
+
+  if (!connectionReceipts.has(connection)) {
+    connectionReceipts.set(connection, new Set());
+  }
+  connectionReceipts.get(connection)!.add(receiptId);
+}
+
+/**
+ * Cancela a inscrição da conexão no recibo
+ */
+export function unsubscribeFromReceipt(connection: RealtimeConnection, receiptId: string) {
+  const connections = receiptSubscriptions.get(receiptId);
+  if (connections) {
+    connections.delete(connection);
+    if (connections.size === 0) {
+      receiptSubscriptions.delete(receiptId);
+    }
+  }
+
+  const receipts = connectionReceipts.get(connection);
+  if (receipts) {
+    receipts.delete(receiptId);
+    if (receipts.size === 0) {
+      connectionReceipts.delete(connection);
+    }
+  }
+}
+
+/**
+ * Remove todas as inscrições da conexão (ao fechar o WebSocket)
+ */
+export function removeConnection(connection: RealtimeConnection) {
+  openConnections.delete(connection);
+  for (const receiptId of Array.from(connectionReceipts.get(connection) || [])) {
+    unsubscribeFromReceipt(connection, receiptId);
+  }
+}
+
+/**
+ * Fecha as conexões de sessões revogadas (uma sessão, ou todas do usuário exceto exceptSessionId)
+ */
+export function closeSessionConnections(
+  userId: string,
+  options: { sessionId?: string; exceptSessionId?: string } = {}
+) {
+  for (const connection of Array.from(openConnections)) {
+    if (connection.userId !== userId) continue;
+    if (options.sessionId && connection.sessionId !== options.sessionId) continue;
+    if (options.exceptSessionId && connection.sessionId === options.exceptSessionId) continue;
+
+    removeConnection(connection);
+    connection.close();
+  }
+}
+
+/**
+ * Remove as inscrições no recibo de quem perdeu o acesso (ou de todos, sem userId)
+ */
+export function revokeReceiptAccess(receiptId: string, userId?: string) {
+  for (const connection of Array.from(receiptSubscriptions.get(receiptId) || [])) {
+    if (!userId || connection.userId === userId) {
+      unsubscribeFromReceipt(connection, receiptId);
+    }
+  }
+}
+
+/**
+ * Publica um evento para as conexões inscritas no recibo
+ */
+export function publishReceiptEvent<K extends ReceiptEventType>(
+  receiptId: string,
+  type: K,
+  data: ReceiptEventPayloads[K],
+  actorId?: string
+) {
+  const connections = receiptSubscriptions.get(receiptId);
+
+  if (!connections || connections.size === 0) {
+    return;
+  }
+
+  const event: ReceiptEvent<K> = {
+    type,
+    receiptId,
+    actorId,
+    data,
+    occurredAt: new Date().toISOString(),
+  };
+  const message = JSON.stringify({ type: 'event', event });
+
+  for (const connection of connections) {
+    try {
+      connection.send(message);
+    } catch (error) {
+      console.error('Error sending realtime event:', error);
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { APP_URL } from './account-tokens';
+import { ReceiptStatement, ReceiptStatementParticipant } from './receipt-statement';
+
+const MARGIN = 50;
+const QR_SIZE = 90;
+
+// Colunas das tabelas de itens (x e largura), dentro da área útil de uma página A4
+const COLUMNS = {
+  item: { x: MARGIN, width: 265 },
+  quantity: { x: MARGIN + 265, width: 115 },
+  amount: { x: MARGIN + 380, width: 115 },
+};
+
+const currency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+function formatMoney(value: number): string {
+  return currency.format(value);
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString('pt-BR', { maximumFractionDigits: 3 });
+}
+
+/**
+ * Link de convite do recibo (o mesmo código aceito em GET /api/receipts/invite/:inviteCode)
+ */
+export function getReceiptInviteUrl(inviteCode: string): string {
+  return `${APP_URL}/invite/${encodeURIComponent(inviteCode)}`;
+}
+
+/**
+ * Quebra a página quando não cabe mais o bloco seguinte
+ */
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+  }
+}
+
+/**
+ * Escreve uma linha com as três colunas da tabela e avança para depois da mais alta
+ */
+function writeRow(
+  doc: PDFKit.PDFDocument,
+  cells: { item: string; quantity: string; amount: string },
+  options: { bold?: boolean; color?: string } = {}
+) {
+  doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fillColor(options.color || 'black');
+
+  const height = Math.max(
+    ...(Object.keys(COLUMNS) as Array<keyof typeof COLUMNS>).map((column) =>
+      doc.heightOfString(cells[column] || ' ', { width: COLUMNS[column].width })
+    )
+  );
+  ensureSpace(doc, height + 4);
+
+  const y = doc.y;
+  doc.text(cells.item, COLUMNS.item.x, y, { width: COLUMNS.item.width });
+  doc.text(cells.quantity, COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+  doc.text(cells.amount, COLUMNS.amount.x, y, { width: COLUMNS.amount.width, align: 'right' });
+
+  doc.x = MARGIN;
+  doc.y = y + height + 4;
+  doc.fillColor('black');
+}
+
+function writeParticipant(
+  doc: PDFKit.PDFDocument,
+  statement: ReceiptStatement,
+  participant: ReceiptStatementParticipant
+) {
+  // Nome e cabeçalho da tabela ficam na mesma página da primeira linha
+  ensureSpace(doc, 60);
+  doc.moveDown(0.8);
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(13)
+    .text(`${participant.name}${participant.isCreator ? ' (criador)' : ''}`, MARGIN);
+  doc.moveDown(0.3).fontSize(10);
+
+  writeRow(doc, { item: 'Item', quantity: 'Qtd. × preço', amount: 'Valor' }, { bold: true, color: '#555555' });
+
+  if (participant.lines.length === 0) {
+    writeRow(doc, { item: 'Nenhum item', quantity: '', amount: '' }, { color: '#777777' });
+  }
+
+  for (const line of participant.lines) {
+    writeRow(doc, {
+      item: line.isShared
+        ? `${line.name} (dividido, total ${formatMoney(line.itemTotal)})`
+        : line.name,
+      quantity: `${formatQuantity(line.quantity)} × ${formatMoney(line.price)}`,
+      amount: formatMoney(line.amount),
+    });
+  }
+
+  writeRow(doc, { item: 'Itens', quantity: '', amount: formatMoney(participant.itemsTotal) });
+  if (statement.serviceChargePercent > 0) {
+    writeRow(doc, {
+      item: `Taxa de serviço (${formatQuantity(statement.serviceChargePercent)}%)`,
+      quantity: '',
+      amount: formatMoney(participant.serviceCharge),
+    });
+  }
+  if (statement.cover > 0) {
+    writeRow(doc, { item: 'Cover', quantity: '', amount: formatMoney(participant.cover) });
+  }
+  writeRow(doc, { item: 'Total', quantity: '', amount: formatMoney(participant.total) }, { bold: true });
+}
+
+/**
+ * Gera o PDF do extrato do recibo (título, data, itens por participante, taxa de serviço,
+ * cover, total de cada pessoa e o QR code do convite). Tudo é gerado no próprio processo.
+ */
+export async function renderReceiptPdf(statement: ReceiptStatement): Promise<Buffer> {
+  const inviteUrl = getReceiptInviteUrl(statement.inviteCode);
+  const qrCode = await QRCode.toBuffer(inviteUrl, { margin: 1, width: QR_SIZE * 2 });
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: {
+      Title: statement.title,
+      Subject: 'Extrato do recibo',
+      Producer: 'Sharezin',
+      CreationDate: new Date(),
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  // Cabeçalho: título e data à esquerda, QR code do convite à direita
+  const qrX = doc.page.width - MARGIN - QR_SIZE;
+  doc.image(qrCode, qrX, MARGIN, { width: QR_SIZE });
+  doc
+    .font('Helvetica')
+    .fontSize(8)
+    .fillColor('#555555')
+    .text(`Convite: ${statement.inviteCode}`, qrX - 20, MARGIN + QR_SIZE + 4, {
+      width: QR_SIZE + 20,
+      align: 'center',
+    });
+
+  const headerWidth = qrX - MARGIN - 20;
+  doc
+    .fillColor('black')
+    .font('Helvetica-Bold')
+    .fontSize(20)
+    .text(statement.title, MARGIN, MARGIN, { width: headerWidth });
+  doc
+    .moveDown(0.3)
+    .font('Helvetica')
+    .fontSize(11)
+    .text(`Data: ${statement.date.toLocaleDateString('pt-BR')}`, { width: headerWidth })
+    .text(statement.isClosed ? 'Recibo fechado' : 'Recibo aberto', { width: headerWidth })
+    .fontSize(8)
+    .fillColor('#555555')
+    .text(inviteUrl, { width: headerWidth, link: inviteUrl });
+
+  doc.x = MARGIN;
+  doc.y = Math.max(doc.y, MARGIN + QR_SIZE + 20) + 10;
+
+  // Resumo do recibo
+  doc.fillColor('black').fontSize(10);
+  writeRow(doc, { item: 'Resumo', quantity: '', amount: '' }, { bold: true });
+  writeRow(doc, { item: 'Itens', quantity: '', amount: formatMoney(statement.itemsTotal) });
+  writeRow(doc, {
+    item: `Taxa de serviço (${formatQuantity(statement.serviceChargePercent)}%)`,
+    quantity: '',
+    amount: formatMoney(statement.serviceChargeTotal),
+  });
+  writeRow(doc, {
+    item: `Cover (${formatMoney(statement.cover)} por pessoa)`,
+    quantity: `${statement.participants.length} pessoa(s)`,
+    amount: formatMoney(statement.coverTotal),
+  });
+  writeRow(doc, { item: 'Total', quantity: '', amount: formatMoney(statement.total) }, { bold: true });
+
+  for (const participant of statement.participants) {
+    writeParticipant(doc, statement, participant);
+  }
+
+  doc.end();
+
+  return finished;
+}
@@ -0,0 +1,168 @@
+import { prisma } from '../config/database';
+import { calculateParticipantTotals } from './receipts';
+import { fromCents, splitItemCents } from './splits';
+
+/**
+ * Item na conta de um participante: o valor do item e a parte que lhe cabe
+ */
+export interface ReceiptStatementLine {
+  itemId: string;
+  name: string;
+  quantity: number;
+  price: number;
+  itemTotal: number;
+  amount: number;
+  isShared: boolean;
+}
+
+export interface ReceiptStatementParticipant {
+  participantId: string;
+  name: string;
+  isCreator: boolean;
+  lines: ReceiptStatementLine[];
+  itemsTotal: number;
+  serviceCharge: number;
+  cover: number;
+  total: number;
+}
+
+/**
+ * Extrato de um recibo para exportação, com o que cabe a cada participante
+ * calculado como no fechamento (calculateParticipantTotals)
+ */
+export interface ReceiptStatement {
+  id: string;
+  title: string;
+  date: Date;
+  inviteCode: string;
+  isClosed: boolean;
+  serviceChargePercent: number;
+  cover: number;
+  itemsTotal: number;
+  serviceChargeTotal: number;
+  coverTotal: number;
+  total: number;
+  participants: ReceiptStatementParticipant[];
+}
+
+/**
+ * Monta o extrato do recibo. Participantes que saíram do recibo mas ainda têm itens aparecem
+ * com a parte deles; o criador vem primeiro e os demais em ordem alfabética.
+ */
+export async function getReceiptStatement(receiptId: string): Promise<ReceiptStatement | null> {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    include: {
+      receiptItems: {
+        include: {
+          shares: {
+            include: {
+              participant: true,
+            },
+          },
+          participant: true,
+        },
+        orderBy: { addedAt: 'asc' },
+      },
+      receiptParticipants: {
+        include: {
+          participant: true,
+        },
+      },
+    },
+  });
+
+  if (!receipt) {
+    return null;
+  }
+
+  const totals = calculateParticipantTotals(receipt);
+
+  const names = new Map<string, string>();
+  for (const item of receipt.receiptItems) {
+    names.set(item.participant.id, item.participant.name);
+    for (const share of item.shares) {
+      names.set(share.participant.id, share.participant.name);
+    }
+  }
+  for (const rp of receipt.receiptParticipants) {
+    names.set(rp.participant.id, rp.participant.name);
+  }
+
+  const creatorParticipantId = receipt.receiptParticipants.find(
+    (rp) => rp.participant.userId === receipt.creatorId
+  )?.participantId;
+
+  const lines = new Map<string, ReceiptStatementLine[]>();
+  for (const item of receipt.receiptItems) {
+    const allocation = splitItemCents(item);
+    const itemTotal = Number(item.quantity) * Number(item.price);
+
+    for (const [participantId, cents] of allocation) {
+      if (cents === 0) continue;
+
+      const participantLines = lines.get(participantId) || [];
+      participantLines.push({
+        itemId: item.id,
+        name: item.name,
+        quantity: Number(item.quantity),
+        price: Number(item.price),
+        itemTotal: Math.round(itemTotal * 100) / 100,
+        amount: fromCents(cents),
+        isShared: allocation.size > 1,
+      });
+      lines.set(participantId, participantLines);
+    }
+  }
+
+  const participants: ReceiptStatementParticipant[] = Array.from(totals.entries())
+    .map(([participantId, participantTotals]) => ({
+      participantId,
+      name: names.get(participantId) || '',
+      isCreator: participantId === creatorParticipantId,
+      lines: lines.get(participantId) || [],
+      itemsTotal: fromCents(participantTotals.itemsCents),
+      serviceCharge: fromCents(participantTotals.serviceChargeCents),
+      cover: fromCents(participantTotals.coverCents),
+      total: fromCents(participantTotals.totalCents),
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.isCreator) - Number(a.isCreator) ||
+        a.name.localeCompare(b.name, 'pt-BR') ||
+        a.participantId.localeCompare(b.participantId)
+    );
+
+  const sumCents = (key: 'itemsCents' | 'serviceChargeCents' | 'coverCents' | 'totalCents') =>
+    Array.from(totals.values()).reduce((sum, t) => sum + t[key], 0);
+
+  return {
+    id: receipt.id,
+    title: receipt.title,
+    date: receipt.date,
+    inviteCode: receipt.inviteCode,
+    isClosed: receipt.isClosed,
+    serviceChargePercent: Number(receipt.serviceChargePercent) || 0,
+    cover: Number(receipt.cover) || 0,
+    itemsTotal: fromCents(sumCents('itemsCents')),
+    serviceChargeTotal: fromCents(sumCents('serviceChargeCents')),
+    coverTotal: fromCents(sumCents('coverCents')),
+    total: fromCents(sumCents('totalCents')),
+    participants,
+  };
+}
+
+/**
+ * Nome do arquivo exportado, sem acentos nem caracteres especiais (ex.: recibo-pizza-de-sexta.pdf)
+ */
+export function getExportFileName(title: string, extension: string): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `recibo${slug ? `-${slug}` : ''}.${extension}`;
+}
@@ -1,6 +1,10 @@
 import { prisma } from '../config/database';
-import { Receipt } from '../types';
-import { Receipt as PrismaReceipt } from '@prisma/client';
+import { CreateReceiptItemDto, ItemSplitMode, Receipt, ReceiptItem } from '../types';
+import { calculateParticipantItemCents, fromCents, splitItemCents, toCents } from './splits';
+import { Prisma, Receipt as PrismaReceipt } from '@prisma/client';
+import { AppError } from './errors';
+
+const MAX_ITEM_NAME_LENGTH = 200;
 
 /**
  * Gera um código de convite único de 6-8 caracteres alfanuméricos
@@ -32,21 +36,123 @@ export async function generateInviteCode(): Promise<string> {
 }
 
 /**
- * Calcula o total do recibo baseado nos itens, taxa de serviço e cover
+ * Calcula quanto cabe a cada participante do recibo, em centavos:
+ * itens (considerando divisões), taxa de serviço proporcional e cover.
+ * O cover é cobrado de cada participante ativo do recibo, mesmo sem itens; quem fechou a
+ * participação ou saiu do recibo paga só os próprios itens.
+ */
+export function calculateParticipantTotals(receipt: {
+  serviceChargePercent: unknown;
+  cover: unknown;
+  receiptItems: Array<Parameters<typeof calculateParticipantItemCents>[0][number]>;
+  receiptParticipants: Array<{ participantId: string; isClosed: boolean }>;
+}): Map<
+  string,
+  { itemsCents: number; serviceChargeCents: number; coverCents: number; totalCents: number }
+> {
+  const itemCents = calculateParticipantItemCents(receipt.receiptItems);
+  const serviceChargePercent = Number(receipt.serviceChargePercent || 0);
+  const coverCents = toCents(Number(receipt.cover || 0));
+
+  const activeParticipantIds = new Set(
+    receipt.receiptParticipants.filter((rp) => !rp.isClosed).map((rp) => rp.participantId)
+  );
+  const participantIds = new Set([...activeParticipantIds, ...itemCents.keys()]);
+
+  const totals = new Map<
+    string,
+    { itemsCents: number; serviceChargeCents: number; coverCents: number; totalCents: number }
+  >();
+
+  for (const participantId of participantIds) {
+    const itemsCents = itemCents.get(participantId) || 0;
+    const serviceChargeCents = Math.round((itemsCents * serviceChargePercent) / 100);
+    const participantCoverCents = activeParticipantIds.has(participantId) ? coverCents : 0;
+
+    totals.set(participantId, {
+      itemsCents,
+      serviceChargeCents,
+      coverCents: participantCoverCents,
+      totalCents: itemsCents + serviceChargeCents + participantCoverCents,
+    });
+  }
+
+  return totals;
+}
+
+/**
+ * Calcula o total do recibo: a soma do que cabe a cada participante.
+ * O cover é por pessoa, então entra uma vez para cada participante ativo, como nas despesas do fechamento.
  */
-export function calculateReceiptTotal(
-  itemsTotal: number,
-  serviceChargePercent: number | null | undefined,
-  cover: number | null | undefined
-): number {
-  const items = Number(itemsTotal) || 0;
-  const serviceCharge = Number(serviceChargePercent) || 0;
-  const coverAmount = Number(cover) || 0;
-
-  const serviceChargeAmount = (items * serviceCharge) / 100;
-  const total = items + serviceChargeAmount + coverAmount;
-
-  return Math.round(total * 100) / 100; // Arredonda para 2 casas decimais
+export function calculateReceiptTotal(receipt: Parameters<typeof calculateParticipantTotals>[0]): number {
+  const totalCents = Array.from(calculateParticipantTotals(receipt).values()).reduce(
+    (sum, totals) => sum + totals.totalCents,
+    0
+  );
+
+  return fromCents(totalCents);
+}
+
+/**
+ * Formata item do Prisma para o formato da API
+ */
+export function formatReceiptItemResponse(item: any): ReceiptItem {
+  const splitMode = (item.splitMode || 'none') as ItemSplitMode;
+  const allocation = item.shares ? splitItemCents(item) : null;
+
+  return {
+    id: item.id,
+    name: item.name,
+    quantity: Number(item.quantity),
+    price: Number(item.price),
+    participantId: item.participantId,
+    splitMode,
+    // Valor que cabe a cada participante (apenas quando o item está dividido)
+    shares:
+      allocation && splitMode !== 'none'
+        ? item.shares.map((share: any) => ({
+            participantId: share.participantId,
+            weight: share.weight !== null && share.weight !== undefined ? Number(share.weight) : undefined,
+            amount: fromCents(allocation.get(share.participantId) || 0),
+          }))
+        : undefined,
+    addedAt: item.addedAt.toISOString(),
+  };
+}
+
+/**
+ * Valida os campos de um item (em atualizações parciais, só os campos enviados).
+ * `path` prefixa o campo apontado no erro (ex.: items.2.)
+ */
+export function assertReceiptItemInput(
+  input: Partial<CreateReceiptItemDto>,
+  partial = false,
+  path = ''
+): void {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || input.name.trim() === '') {
+      throw new AppError('ITEM_NAME_REQUIRED', {}, { field: `${path}name` });
+    }
+    if (input.name.length > MAX_ITEM_NAME_LENGTH) {
+      throw new AppError(
+        'ITEM_NAME_TOO_LONG',
+        { max: MAX_ITEM_NAME_LENGTH },
+        { field: `${path}name` }
+      );
+    }
+  }
+
+  if (input.quantity !== undefined) {
+    if (typeof input.quantity !== 'number' || !Number.isFinite(input.quantity) || input.quantity <= 0) {
+      throw new AppError('INVALID_QUANTITY', {}, { field: `${path}quantity` });
+    }
+  }
+
+  if (!partial || input.price !== undefined) {
+    if (typeof input.price !== 'number' || !Number.isFinite(input.price) || input.price < 0) {
+      throw new AppError('INVALID_PRICE', {}, { field: `${path}price` });
+    }
+  }
 }
 
 /**
@@ -64,22 +170,18 @@ export function formatReceiptResponse(receipt: any): Receipt {
       name: rp.participant.name,
       userId: rp.participant.userId || undefined,
       groupId: rp.participant.groupId || undefined,
-      isClosed: rp.participant.isClosed || false,
-    })) || [],
-    pendingParticipants: receipt.pendingParticipants?.map((pp: any) => ({
-      id: pp.id,
-      name: pp.name,
-      userId: pp.userId,
-      requestedAt: pp.requestedAt.toISOString(),
-    })) || [],
-    items: receipt.receiptItems?.map((item: any) => ({
-      id: item.id,
-      name: item.name,
-      quantity: Number(item.quantity),
-      price: Number(item.price),
-      participantId: item.participantId,
-      addedAt: item.addedAt.toISOString(),
+      isClosed: rp.isClosed || false,
     })) || [],
+    // Solicitações já aprovadas ou rejeitadas não aparecem como pendentes
+    pendingParticipants: receipt.pendingParticipants
+      ?.filter((pp: any) => !pp.status || pp.status === 'pending')
+      .map((pp: any) => ({
+        id: pp.id,
+        name: pp.name,
+        userId: pp.userId,
+        requestedAt: pp.requestedAt.toISOString(),
+      })) || [],
+    items: receipt.receiptItems?.map(formatReceiptItemResponse) || [],
     deletionRequests: receipt.deletionRequests?.map((dr: any) => ({
       id: dr.id,
       itemId: dr.itemId,
@@ -90,11 +192,32 @@ export function formatReceiptResponse(receipt: any): Receipt {
     cover: Number(receipt.cover) || 0,
     total: Number(receipt.total) || 0,
     isClosed: receipt.isClosed || false,
+    category: receipt.category || undefined,
     createdAt: receipt.createdAt.toISOString(),
     updatedAt: receipt.updatedAt.toISOString(),
   };
 }
 
+/**
+ * Filtro dos recibos que o usuário criou ou de que participa (como na listagem)
+ */
+export function receiptMemberWhere(userId: string): Prisma.ReceiptWhereInput {
+  return {
+    OR: [
+      { creatorId: userId },
+      {
+        receiptParticipants: {
+          some: {
+            participant: {
+              userId,
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
 /**
  * Verifica se o usuário tem acesso ao recibo (é criador ou participante)
  */
@@ -120,7 +243,7 @@ export async function checkReceiptAccess(
   const isCreator = receipt.creatorId === userId;
 
   const isParticipant = receipt.receiptParticipants.some(
-    (rp) => rp.participant.userId === userId && !rp.participant.isClosed
+    (rp) => rp.participant.userId === userId && !rp.isClosed
   );
 
   return {
@@ -132,33 +255,32 @@ export async function checkReceiptAccess(
 
 /**
  * Recalcula e atualiza o total do recibo
+ * (aceita um cliente de transação para rodar junto com a alteração dos itens)
  */
-export async function recalculateReceiptTotal(receiptId: string): Promise<number> {
-  const receipt = await prisma.receipt.findUnique({
+export async function recalculateReceiptTotal(
+  receiptId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const receipt = await client.receipt.findUnique({
     where: { id: receiptId },
     include: {
-      receiptItems: true,
+      receiptItems: {
+        include: {
+          shares: true,
+        },
+      },
+      receiptParticipants: true,
     },
   });
 
   if (!receipt) {
-    throw new Error('Recibo não encontrado');
+    throw new AppError('RECEIPT_NOT_FOUND');
   }
 
-  // Calcula total dos itens
-  const itemsTotal = receipt.receiptItems.reduce((sum, item) => {
-    return sum + Number(item.quantity) * Number(item.price);
-  }, 0);
-
-  // Calcula total final
-  const total = calculateReceiptTotal(
-    itemsTotal,
-    receipt.serviceChargePercent ? Number(receipt.serviceChargePercent) : null,
-    receipt.cover ? Number(receipt.cover) : null
-  );
+  const total = calculateReceiptTotal(receipt);
 
   // Atualiza no banco
-  await prisma.receipt.update({
+  await client.receipt.update({
     where: { id: receiptId },
     data: { total },
   });
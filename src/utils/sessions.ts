@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../config/database';
+import { AuthTokens, UserSession } from '../types';
+import { closeSessionConnections } from './realtime';
+import { AppError } from './errors';
+
+/**
+ * Validade do access token (JWT), em segundos
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10);
+
+/**
+ * Validade da sessão (refresh token), em dias. Renovada a cada uso do refresh token.
+ */
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Hash do segredo do refresh token (só o hash é guardado no banco)
+ */
+function hashToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function getRefreshExpiresAt(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Gera o par de tokens da sessão. O refresh token tem o formato "<sessionId>.<segredo>".
+ */
+function issueTokens(
+  fastify: FastifyInstance,
+  user: { id: string; email: string },
+  sessionId: string,
+  secret: string
+): AuthTokens {
+  const token = fastify.jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      sid: sessionId,
+    },
+    { expiresIn: `${ACCESS_TOKEN_TTL_SECONDS}s` }
+  );
+
+  return {
+    token,
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Cria uma sessão para o usuário (login/registro) e retorna os tokens
+ */
+export async function createSession(
+  fastify: FastifyInstance,
+  user: { id: string; email: string },
+  device: { userAgent?: string; ipAddress?: string }
+): Promise<AuthTokens> {
+  const secret = generateSecret();
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(secret),
+      userAgent: device.userAgent || null,
+      ipAddress: device.ipAddress || null,
+      expiresAt: getRefreshExpiresAt(),
+    },
+  });
+
+  return issueTokens(fastify, user, session.id, secret);
+}
+
+/**
+ * Troca um refresh token por um novo par de tokens (rotação).
+ * Um refresh token já usado indica roubo: a sessão inteira é revogada.
+ */
+export async function rotateRefreshToken(
+  fastify: FastifyInstance,
+  refreshToken: string,
+  device: { userAgent?: string; ipAddress?: string }
+): Promise<AuthTokens> {
+  const [sessionId, secret] = refreshToken.split('.');
+
+  if (!sessionId || !secret || !UUID_REGEX.test(sessionId)) {
+    throw new AppError('INVALID_REFRESH_TOKEN');
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: true,
+    },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new AppError('SESSION_REVOKED');
+  }
+
+  if (session.user.suspendedAt) {
+    throw new AppError('ACCOUNT_SUSPENDED');
+  }
+
+  const newSecret = generateSecret();
+
+  // Só troca se o token apresentado ainda for o atual (evita duas renovações com o mesmo token)
+  const rotated = await prisma.userSession.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash: hashToken(secret),
+      revokedAt: null,
+    },
+    data: {
+      refreshTokenHash: hashToken(newSecret),
+      userAgent: device.userAgent || session.userAgent,
+      ipAddress: device.ipAddress || session.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: getRefreshExpiresAt(),
+    },
+  });
+
+  if (rotated.count === 0) {
+    await revokeSession(session.userId, session.id);
+    throw new AppError('REFRESH_TOKEN_REUSED');
+  }
+
+  return issueTokens(fastify, session.user, session.id, newSecret);
+}
+
+/**
+ * Verifica se a sessão do access token continua válida (não revogada nem expirada)
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+  });
+
+  return (
+    !!session &&
+    session.userId === userId &&
+    !session.revokedAt &&
+    session.expiresAt > new Date()
+  );
+}
+
+/**
+ * Revoga uma sessão do usuário (e fecha as conexões de realtime dela)
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  closeSessionConnections(userId, { sessionId });
+
+  return result.count > 0;
+}
+
+/**
+ * Revoga todas as sessões do usuário (opcionalmente mantendo a sessão atual)
+ */
+export async function revokeUserSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  closeSessionConnections(userId, { exceptSessionId });
+
+  return result.count;
+}
+
+/**
+ * Formata sessão do Prisma para o formato da API
+ */
+export function formatSessionResponse(session: any, currentSessionId?: string): UserSession {
+  return {
+    id: session.id,
+    userAgent: session.userAgent || undefined,
+    ipAddress: session.ipAddress || undefined,
+    current: session.id === currentSessionId,
+    createdAt: session.createdAt.toISOString(),
+    lastUsedAt: session.lastUsedAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
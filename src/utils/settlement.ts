@@ -0,0 +1,247 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ReceiptPayer, ReceiptSettlement, SettlementTransfer } from '../types';
+import { calculateParticipantTotals } from './receipts';
+import { fromCents, toCents } from './splits';
+
+/**
+ * Calcula as transferências que zeram os saldos (valores em centavos).
+ * Saldo positivo = tem a receber; negativo = deve.
+ * Primeiro casa devedores e credores com o mesmo valor (uma transferência zera os dois);
+ * depois o maior devedor paga ao maior credor. O resultado tem no máximo n - 1 transferências
+ * e é determinístico (empates desempatados pelo id).
+ */
+export function simplifyDebts(
+  balances: Map<string, number>
+): Array<{ from: string; to: string; amountCents: number }> {
+  const byAmount = (a: { id: string; amount: number }, b: { id: string; amount: number }) =>
+    b.amount - a.amount || a.id.localeCompare(b.id);
+
+  const creditors = Array.from(balances.entries())
+    .filter(([, balance]) => balance > 0)
+    .map(([id, balance]) => ({ id, amount: balance }))
+    .sort(byAmount);
+  const debtors = Array.from(balances.entries())
+    .filter(([, balance]) => balance < 0)
+    .map(([id, balance]) => ({ id, amount: -balance }))
+    .sort(byAmount);
+
+  const transfers: Array<{ from: string; to: string; amountCents: number }> = [];
+
+  // Pares com o mesmo valor
+  for (const debtor of debtors) {
+    const creditor = creditors.find((c) => c.amount > 0 && c.amount === debtor.amount);
+    if (creditor) {
+      transfers.push({ from: debtor.id, to: creditor.id, amountCents: debtor.amount });
+      creditor.amount = 0;
+      debtor.amount = 0;
+    }
+  }
+
+  // Maior devedor paga ao maior credor
+  while (true) {
+    const debtor = debtors.filter((d) => d.amount > 0).sort(byAmount)[0];
+    const creditor = creditors.filter((c) => c.amount > 0).sort(byAmount)[0];
+
+    if (!debtor || !creditor) break;
+
+    const amount = Math.min(debtor.amount, creditor.amount);
+    transfers.push({ from: debtor.id, to: creditor.id, amountCents: amount });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+  }
+
+  return transfers;
+}
+
+/**
+ * Calcula o acerto de contas de um recibo: quanto cada participante deve, quanto pagou
+ * e as transferências necessárias. Sem pagadores registrados, considera que o criador pagou a conta.
+ */
+export function calculateReceiptSettlement(receipt: {
+  id: string;
+  isClosed: boolean;
+  creatorId: string;
+  serviceChargePercent: unknown;
+  cover: unknown;
+  receiptItems: Parameters<typeof calculateParticipantTotals>[0]['receiptItems'];
+  receiptParticipants: Array<{
+    participantId: string;
+    isClosed: boolean;
+    participant: { id: string; name: string; userId: string | null };
+  }>;
+  payments: Array<{ participantId: string; amount: unknown }>;
+}): ReceiptSettlement {
+  const totals = calculateParticipantTotals(receipt);
+  const totalOwedCents = Array.from(totals.values()).reduce((sum, t) => sum + t.totalCents, 0);
+
+  const paidCents = new Map<string, number>();
+  if (receipt.payments.length > 0) {
+    for (const payment of receipt.payments) {
+      paidCents.set(
+        payment.participantId,
+        (paidCents.get(payment.participantId) || 0) + toCents(Number(payment.amount))
+      );
+    }
+  } else {
+    const creatorParticipant = receipt.receiptParticipants.find(
+      (rp) => rp.participant.userId === receipt.creatorId
+    );
+    if (creatorParticipant) {
+      paidCents.set(creatorParticipant.participantId, totalOwedCents);
+    }
+  }
+
+  const totalPaidCents = Array.from(paidCents.values()).reduce((sum, cents) => sum + cents, 0);
+  const isBalanced = totalPaidCents === totalOwedCents;
+
+  const participantIds = new Set([...totals.keys(), ...paidCents.keys()]);
+  const balances = new Map<string, number>();
+  for (const participantId of participantIds) {
+    balances.set(
+      participantId,
+      (paidCents.get(participantId) || 0) - (totals.get(participantId)?.totalCents || 0)
+    );
+  }
+
+  const participantsById = new Map(
+    receipt.receiptParticipants.map((rp) => [rp.participantId, rp.participant])
+  );
+
+  const payers: ReceiptPayer[] = Array.from(paidCents.entries()).map(([participantId, cents]) => ({
+    participantId,
+    amount: fromCents(cents),
+  }));
+
+  // Saldos que não fecham não geram transferências
+  const transfers: SettlementTransfer[] = isBalanced
+    ? simplifyDebts(balances).map((t) => ({
+        fromParticipantId: t.from,
+        toParticipantId: t.to,
+        amount: fromCents(t.amountCents),
+        isPaid: false,
+      }))
+    : [];
+
+  return {
+    receiptId: receipt.id,
+    isClosed: receipt.isClosed,
+    isBalanced,
+    totalOwed: fromCents(totalOwedCents),
+    totalPaid: fromCents(totalPaidCents),
+    participants: Array.from(participantIds).map((participantId) => {
+      const participant = participantsById.get(participantId);
+      return {
+        participantId,
+        name: participant?.name || '',
+        userId: participant?.userId || undefined,
+        owed: fromCents(totals.get(participantId)?.totalCents || 0),
+        paid: fromCents(paidCents.get(participantId) || 0),
+        balance: fromCents(balances.get(participantId) || 0),
+      };
+    }),
+    payers,
+    transfers,
+  };
+}
+
+/**
+ * Formata transferência do Prisma para o formato da API
+ */
+export function formatSettlementTransferResponse(transfer: any): SettlementTransfer {
+  return {
+    id: transfer.id,
+    fromParticipantId: transfer.fromParticipantId,
+    toParticipantId: transfer.toParticipantId,
+    amount: Number(transfer.amount),
+    isPaid: transfer.isPaid || false,
+    paidAt: transfer.paidAt?.toISOString(),
+  };
+}
+
+/**
+ * Busca o recibo com os dados necessários para o acerto de contas
+ */
+export async function findReceiptForSettlement(
+  receiptId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return await client.receipt.findUnique({
+    where: { id: receiptId },
+    include: {
+      receiptParticipants: {
+        include: {
+          participant: true,
+        },
+      },
+      receiptItems: {
+        include: {
+          shares: true,
+        },
+      },
+      payments: true,
+      settlementTransfers: {
+        orderBy: [{ createdAt: 'asc' }, { amount: 'desc' }],
+      },
+    },
+  });
+}
+
+/**
+ * Grava as transferências do acerto quando o recibo está fechado e os pagamentos batem com o total,
+ * para poderem ser marcadas como pagas. Chamada no fechamento e ao definir os pagadores, dentro da
+ * transação: a linha do recibo fica travada, então duas chamadas simultâneas não duplicam as transferências.
+ */
+export async function storeSettlementTransfers(
+  receiptId: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM receipts WHERE id = ${receiptId}::uuid FOR UPDATE`;
+
+  const receipt = await findReceiptForSettlement(receiptId, tx);
+
+  if (!receipt || !receipt.isClosed || receipt.settlementTransfers.length > 0) {
+    return;
+  }
+
+  const settlement = calculateReceiptSettlement(receipt);
+
+  if (!settlement.isBalanced || settlement.transfers.length === 0) {
+    return;
+  }
+
+  await tx.settlementTransfer.createMany({
+    data: settlement.transfers.map((transfer) => ({
+      receiptId,
+      fromParticipantId: transfer.fromParticipantId,
+      toParticipantId: transfer.toParticipantId,
+      amount: transfer.amount,
+    })),
+  });
+}
+
+/**
+ * Retorna o acerto de contas do recibo. Usa as transferências gravadas quando existem;
+ * senão, as calculadas (ainda sem ID, não podem ser marcadas como pagas).
+ */
+export async function getReceiptSettlement(
+  receiptId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<ReceiptSettlement | null> {
+  const receipt = await findReceiptForSettlement(receiptId, client);
+
+  if (!receipt) {
+    return null;
+  }
+
+  const settlement = calculateReceiptSettlement(receipt);
+
+  if (receipt.settlementTransfers.length === 0) {
+    return settlement;
+  }
+
+  return {
+    ...settlement,
+    transfers: receipt.settlementTransfers.map(formatSettlementTransferResponse),
+  };
+}
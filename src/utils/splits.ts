@@ -0,0 +1,174 @@
+import { ItemSplitMode, UpdateItemSharesDto } from '../types';
+import { AppError } from './errors';
+
+/**
+ * Converte um valor monetário para centavos
+ */
+export function toCents(value: number): number {
+  return Math.round((Number(value) || 0) * 100);
+}
+
+/**
+ * Converte centavos para valor monetário
+ */
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Divide um valor em centavos proporcionalmente aos pesos (método do maior resto).
+ * A soma das partes é sempre igual ao total; empates no resto são desempatados
+ * pela ordem dos ids, o que torna o resultado determinístico.
+ */
+export function allocateCents(
+  totalCents: number,
+  weights: Array<{ id: string; weight: number }>
+): Map<string, number> {
+  const allocation = new Map<string, number>();
+  const positive = weights.filter((w) => w.weight > 0);
+  const totalWeight = positive.reduce((sum, w) => sum + w.weight, 0);
+
+  if (positive.length === 0 || totalWeight <= 0) {
+    return allocation;
+  }
+
+  const parts = positive.map((w) => {
+    const exact = (totalCents * w.weight) / totalWeight;
+    const floor = Math.floor(exact);
+    return { id: w.id, cents: floor, remainder: exact - floor };
+  });
+
+  let leftover = totalCents - parts.reduce((sum, p) => sum + p.cents, 0);
+
+  const byRemainder = [...parts].sort(
+    (a, b) => b.remainder - a.remainder || a.id.localeCompare(b.id)
+  );
+
+  for (const part of byRemainder) {
+    if (leftover <= 0) break;
+    part.cents += 1;
+    leftover -= 1;
+  }
+
+  for (const part of parts) {
+    allocation.set(part.id, (allocation.get(part.id) || 0) + part.cents);
+  }
+
+  return allocation;
+}
+
+/**
+ * Divide o valor de um item entre os participantes (em centavos).
+ * Sem divisão, o valor inteiro fica com o dono do item. Na divisão por valor fixo,
+ * se a soma deixar de bater com o total (ex.: preço alterado), os valores passam a ser usados como pesos.
+ */
+export function splitItemCents(item: {
+  participantId: string;
+  quantity: unknown;
+  price: unknown;
+  splitMode?: string | null;
+  shares?: Array<{ participantId: string; weight?: unknown; amount?: unknown }>;
+}): Map<string, number> {
+  const totalCents = toCents(Number(item.quantity) * Number(item.price));
+  const mode = (item.splitMode || 'none') as ItemSplitMode;
+  const shares = item.shares || [];
+
+  let allocation = new Map<string, number>();
+
+  if (mode === 'equal') {
+    allocation = allocateCents(
+      totalCents,
+      shares.map((share) => ({ id: share.participantId, weight: 1 }))
+    );
+  } else if (mode === 'weight') {
+    allocation = allocateCents(
+      totalCents,
+      shares.map((share) => ({ id: share.participantId, weight: Number(share.weight) || 0 }))
+    );
+  } else if (mode === 'fixed') {
+    const amounts = shares.map((share) => ({
+      id: share.participantId,
+      weight: toCents(Number(share.amount)),
+    }));
+    const amountsTotal = amounts.reduce((sum, a) => sum + a.weight, 0);
+
+    if (amountsTotal === totalCents) {
+      amounts.forEach((a) => allocation.set(a.id, (allocation.get(a.id) || 0) + a.weight));
+    } else {
+      allocation = allocateCents(totalCents, amounts);
+    }
+  }
+
+  if (allocation.size === 0) {
+    allocation.set(item.participantId, totalCents);
+  }
+
+  return allocation;
+}
+
+/**
+ * Soma, por participante, o valor dos itens que lhe cabem (em centavos)
+ */
+export function calculateParticipantItemCents(
+  items: Array<Parameters<typeof splitItemCents>[0]>
+): Map<string, number> {
+  const totals = new Map<string, number>();
+
+  for (const item of items) {
+    for (const [participantId, cents] of splitItemCents(item)) {
+      totals.set(participantId, (totals.get(participantId) || 0) + cents);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Valida a divisão de um item
+ */
+export function assertItemShares(input: Partial<UpdateItemSharesDto>, itemTotal: number): void {
+  const { mode, shares } = input;
+
+  if (mode !== 'equal' && mode !== 'weight' && mode !== 'fixed') {
+    throw new AppError('INVALID_SPLIT_MODE', {}, { field: 'mode' });
+  }
+
+  if (!Array.isArray(shares) || shares.length === 0) {
+    throw new AppError('SPLIT_PARTICIPANTS_REQUIRED', {}, { field: 'shares' });
+  }
+
+  const participantIds = new Set<string>();
+  for (const [index, share] of shares.entries()) {
+    const field = `shares.${index}`;
+
+    if (!share || typeof share.participantId !== 'string' || share.participantId === '') {
+      throw new AppError('PARTICIPANT_REQUIRED', {}, { field: `${field}.participantId` });
+    }
+    if (participantIds.has(share.participantId)) {
+      throw new AppError('DUPLICATE_SPLIT_PARTICIPANT', {}, { field: `${field}.participantId` });
+    }
+    participantIds.add(share.participantId);
+
+    if (mode === 'weight') {
+      if (typeof share.weight !== 'number' || !Number.isFinite(share.weight) || share.weight <= 0) {
+        throw new AppError('INVALID_SPLIT_WEIGHT', {}, { field: `${field}.weight` });
+      }
+    }
+
+    if (mode === 'fixed') {
+      if (typeof share.amount !== 'number' || !Number.isFinite(share.amount) || share.amount < 0) {
+        throw new AppError('INVALID_SPLIT_AMOUNT', {}, { field: `${field}.amount` });
+      }
+    }
+  }
+
+  if (mode === 'fixed') {
+    const amountsCents = shares.reduce((sum, share) => sum + toCents(share.amount as number), 0);
+    if (amountsCents !== toCents(itemTotal)) {
+      throw new AppError('SPLIT_TOTAL_MISMATCH', {
+        sum: fromCents(amountsCents).toFixed(2),
+        total: fromCents(toCents(itemTotal)).toFixed(2),
+      });
+    }
+  }
+}
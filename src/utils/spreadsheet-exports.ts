@@ -0,0 +1,153 @@
+import { UserReceiptExpense } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ExpenseExportQuery } from '../types';
+import { AppError } from './errors';
+import {
+  ReceiptStatement,
+  ReceiptStatementLine,
+  ReceiptStatementParticipant,
+} from './receipt-statement';
+import { DATE_FORMAT, MONEY_FORMAT, SpreadsheetSheet } from './spreadsheet';
+
+// Despesas lidas do banco por vez na exportação do histórico
+const EXPENSE_BATCH_SIZE = 500;
+
+export interface ReceiptSheets {
+  items: SpreadsheetSheet<{ participant: ReceiptStatementParticipant; line: ReceiptStatementLine }>;
+  participants: SpreadsheetSheet<ReceiptStatementParticipant>;
+  totals: SpreadsheetSheet<[string, string | number]>;
+}
+
+export type ReceiptSheetName = keyof ReceiptSheets;
+
+/**
+ * Planilhas do recibo: itens (a parte de cada participante), participantes e totais
+ */
+export function buildReceiptSheets(statement: ReceiptStatement): ReceiptSheets {
+  const lines = statement.participants.flatMap((participant) =>
+    participant.lines.map((line) => ({ participant, line }))
+  );
+
+  const items: ReceiptSheets['items'] = {
+    name: 'Itens',
+    columns: [
+      { header: 'Participante', value: (row) => row.participant.name, width: 24 },
+      { header: 'Item', value: (row) => row.line.name, width: 32 },
+      { header: 'Quantidade', value: (row) => row.line.quantity, width: 12 },
+      { header: 'Preço unitário', value: (row) => row.line.price, numFmt: MONEY_FORMAT },
+      { header: 'Total do item', value: (row) => row.line.itemTotal, numFmt: MONEY_FORMAT },
+      { header: 'Dividido', value: (row) => (row.line.isShared ? 'Sim' : 'Não'), width: 10 },
+      { header: 'Valor', value: (row) => row.line.amount, numFmt: MONEY_FORMAT },
+    ],
+    rows: lines,
+  };
+
+  const participants: ReceiptSheets['participants'] = {
+    name: 'Participantes',
+    columns: [
+      { header: 'Participante', value: (row) => row.name, width: 24 },
+      { header: 'Criador', value: (row) => (row.isCreator ? 'Sim' : 'Não'), width: 10 },
+      { header: 'Itens', value: (row) => row.itemsTotal, numFmt: MONEY_FORMAT },
+      { header: 'Taxa de serviço', value: (row) => row.serviceCharge, numFmt: MONEY_FORMAT },
+      { header: 'Cover', value: (row) => row.cover, numFmt: MONEY_FORMAT },
+      { header: 'Total', value: (row) => row.total, numFmt: MONEY_FORMAT },
+    ],
+    rows: statement.participants,
+  };
+
+  const totals: ReceiptSheets['totals'] = {
+    name: 'Totais',
+    columns: [
+      { header: 'Campo', value: (row) => row[0], width: 24 },
+      { header: 'Valor', value: (row) => row[1], width: 32 },
+    ],
+    rows: [
+      ['Recibo', statement.title],
+      ['Data', statement.date.toISOString().slice(0, 10)],
+      ['Código de convite', statement.inviteCode],
+      ['Situação', statement.isClosed ? 'Fechado' : 'Aberto'],
+      ['Participantes', statement.participants.length],
+      ['Itens', statement.itemsTotal],
+      ['Taxa de serviço (%)', statement.serviceChargePercent],
+      ['Taxa de serviço', statement.serviceChargeTotal],
+      ['Cover por pessoa', statement.cover],
+      ['Cover', statement.coverTotal],
+      ['Total', statement.total],
+    ],
+  };
+
+  return { items, participants, totals };
+}
+
+/**
+ * Período da exportação do histórico (datas em UTC, fim inclusivo).
+ * Sem datas, exporta o ano corrente até hoje.
+ */
+export function resolveExpenseRange(query: ExpenseExportQuery): { from: Date; to: Date } {
+  const today = new Date().toISOString().slice(0, 10);
+  const to = query.to || today;
+  const from = query.from || `${to.slice(0, 4)}-01-01`;
+
+  if (from > to) {
+    throw new AppError('INVALID_DATE_RANGE', {}, { field: 'from' });
+  }
+
+  return { from: new Date(`${from}T00:00:00.000Z`), to: new Date(`${to}T00:00:00.000Z`) };
+}
+
+/**
+ * Percorre as despesas do usuário no período em lotes (paginação por cursor),
+ * em ordem de data do recibo. Com `visibleReceiptIds`, só as dos recibos ainda no histórico do plano.
+ */
+async function* iterateUserExpenses(
+  userId: string,
+  range: { from: Date; to: Date },
+  visibleReceiptIds: string[] | null
+): AsyncGenerator<UserReceiptExpense> {
+  const end = new Date(range.to.getTime() + 24 * 60 * 60 * 1000);
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.userReceiptExpense.findMany({
+      where: {
+        userId,
+        isClosed: true,
+        receiptDate: { gte: range.from, lt: end },
+        ...(visibleReceiptIds !== null && { receiptId: { in: visibleReceiptIds } }),
+      },
+      orderBy: [{ receiptDate: 'asc' }, { id: 'asc' }],
+      take: EXPENSE_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    yield* batch;
+
+    if (batch.length < EXPENSE_BATCH_SIZE) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Planilha do histórico de despesas do usuário (uma linha por recibo fechado)
+ */
+export function buildExpenseHistorySheet(
+  userId: string,
+  range: { from: Date; to: Date },
+  visibleReceiptIds: string[] | null
+): SpreadsheetSheet<UserReceiptExpense> {
+  return {
+    name: 'Despesas',
+    columns: [
+      { header: 'Data', value: (row) => row.receiptDate, numFmt: DATE_FORMAT, width: 12 },
+      { header: 'Recibo', value: (row) => row.receiptTitle, width: 32 },
+      { header: 'Itens', value: (row) => Number(row.itemsTotal), numFmt: MONEY_FORMAT },
+      { header: 'Taxa de serviço', value: (row) => Number(row.serviceChargeAmount), numFmt: MONEY_FORMAT },
+      { header: 'Cover', value: (row) => Number(row.coverAmount), numFmt: MONEY_FORMAT },
+      { header: 'Total', value: (row) => Number(row.totalSpent), numFmt: MONEY_FORMAT },
+      { header: 'ID do recibo', value: (row) => row.receiptId, width: 38 },
+    ],
+    rows: iterateUserExpenses(userId, range, visibleReceiptIds),
+  };
+}
@@ -0,0 +1,146 @@
+import { PassThrough, Readable } from 'stream';
+import { setImmediate as nextTurn } from 'timers/promises';
+import ExcelJS from 'exceljs';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type SpreadsheetCell = string | number | Date | null;
+
+export interface SpreadsheetColumn<T> {
+  header: string;
+  value: (row: T) => SpreadsheetCell;
+  /** Largura no XLSX, em caracteres */
+  width?: number;
+  /** Formato numérico no XLSX (ex.: '#,##0.00') */
+  numFmt?: string;
+}
+
+/**
+ * Planilha exportada: as linhas podem vir de um gerador assíncrono (lidas do banco em lotes),
+ * então nunca precisam estar todas em memória
+ */
+export interface SpreadsheetSheet<T> {
+  name: string;
+  columns: Array<SpreadsheetColumn<T>>;
+  rows: Iterable<T> | AsyncIterable<T>;
+}
+
+export const MONEY_FORMAT = '#,##0.00';
+// Linhas do XLSX escritas antes de deixar a compactação avançar e conferir se o cliente está consumindo
+const XLSX_FLUSH_EVERY = 100;
+export const DATE_FORMAT = 'dd/mm/yyyy';
+
+// Prefixos que planilhas interpretam como fórmula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvValue(value: SpreadsheetCell): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* csvLines<T>(sheet: SpreadsheetSheet<T>): AsyncGenerator<string> {
+  // BOM para o Excel reconhecer o UTF-8 (acentos)
+  yield '\uFEFF' + sheet.columns.map((column) => toCsvValue(column.header)).join(',') + '\r\n';
+
+  for await (const row of sheet.rows) {
+    yield sheet.columns.map((column) => toCsvValue(column.value(row))).join(',') + '\r\n';
+  }
+}
+
+/**
+ * CSV (separado por vírgula, decimais com ponto e datas ISO) de uma planilha, gerado linha a linha
+ */
+export function streamCsv<T>(sheet: SpreadsheetSheet<T>): Readable {
+  return Readable.from(csvLines(sheet));
+}
+
+/**
+ * Deixa a compactação escrever o que já recebeu e, se a saída estiver cheia,
+ * espera o cliente consumir (ou a conexão fechar)
+ */
+async function waitForDrain(stream: PassThrough): Promise<void> {
+  await nextTurn();
+
+  if (!stream.writableNeedDrain) {
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+}
+
+async function writeXlsxSheet<T>(
+  workbook: ExcelJS.stream.xlsx.WorkbookWriter,
+  output: PassThrough,
+  sheet: SpreadsheetSheet<T>
+): Promise<void> {
+  const worksheet = workbook.addWorksheet(sheet.name);
+  worksheet.columns = sheet.columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? 16,
+    style: column.numFmt ? { numFmt: column.numFmt } : {},
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  let written = 0;
+
+  for await (const row of sheet.rows) {
+    worksheet.addRow(sheet.columns.map((column) => column.value(row))).commit();
+
+    // Com cliente lento, para de ler o banco até a saída esvaziar
+    if (++written % XLSX_FLUSH_EVERY === 0) {
+      await waitForDrain(output);
+      if (output.destroyed) {
+        return;
+      }
+    }
+  }
+
+  worksheet.commit();
+}
+
+/**
+ * XLSX com uma aba por planilha, escrito em streaming (cada linha é gravada e descartada)
+ */
+export function streamXlsx<T extends unknown[]>(sheets: { [K in keyof T]: SpreadsheetSheet<T[K]> }): Readable {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+
+  (async () => {
+    for (const sheet of sheets) {
+      await writeXlsxSheet(workbook, output, sheet);
+      if (output.destroyed) {
+        return;
+      }
+    }
+
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return output;
+}
@@ -0,0 +1,371 @@
+import { Prisma, UserSubscription as PrismaUserSubscription } from '@prisma/client';
+import { prisma } from '../config/database';
+import { SubscriptionChange, SubscriptionStatus, UserSubscription } from '../types';
+import { activeSubscriptionWhere, formatPlanResponse } from './plans';
+import { AppError } from './errors';
+
+/**
+ * Duração do período pago de uma assinatura, em meses
+ */
+export const SUBSCRIPTION_PERIOD_MONTHS = 1;
+
+/**
+ * Transições de status permitidas: active → cancelled → expired.
+ * Uma assinatura ativa também pode expirar diretamente (fim do período ou troca de plano).
+ */
+const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  active: ['cancelled', 'expired'],
+  cancelled: ['expired'],
+  expired: [],
+};
+
+/**
+ * Verifica se a transição de status é permitida
+ */
+export function canTransitionSubscription(
+  from: SubscriptionStatus,
+  to: SubscriptionStatus
+): boolean {
+  return SUBSCRIPTION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Soma meses a uma data (usado para calcular o fim do período pago)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+/**
+ * Data de expiração efetiva da assinatura (started_at + 1 mês quando expires_at não foi definido)
+ */
+export function getSubscriptionExpiresAt(subscription: {
+  startedAt: Date;
+  expiresAt: Date | null;
+}): Date {
+  return subscription.expiresAt || addMonths(subscription.startedAt, SUBSCRIPTION_PERIOD_MONTHS);
+}
+
+/**
+ * Marca como expiradas as assinaturas cujo período pago terminou
+ */
+export async function expireSubscriptions(
+  userId?: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const result = await client.userSubscription.updateMany({
+    where: {
+      ...(userId ? { userId } : {}),
+      status: { in: ['active', 'cancelled'] },
+      expiresAt: { lte: new Date() },
+    },
+    data: {
+      status: 'expired',
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Trava a linha do usuário até o fim da transação, serializando as mudanças de assinatura dele
+ * (garante uma única assinatura 'active' por usuário mesmo com pedidos simultâneos)
+ */
+async function lockUserSubscriptions(userId: string, tx: Prisma.TransactionClient): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM sharezin_users WHERE id = ${userId}::uuid FOR UPDATE`;
+}
+
+/**
+ * Busca a assinatura que garante acesso ao usuário agora (ativa ou cancelada dentro do período pago)
+ */
+export async function getCurrentSubscription(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return await client.userSubscription.findFirst({
+    where: activeSubscriptionWhere(userId),
+    include: {
+      plan: true,
+    },
+    orderBy: {
+      startedAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Assina um plano. Upgrades valem imediatamente; downgrades começam ao fim do período pago atual.
+ * Assinar de novo o plano cancelado é uma renovação: a assinatura atual volta a ficar ativa.
+ * Garante uma única assinatura 'active' por usuário.
+ */
+export async function subscribeToPlan(
+  userId: string,
+  planId: string
+): Promise<{
+  subscription: PrismaUserSubscription & { plan: any };
+  change: SubscriptionChange;
+}> {
+  return await prisma.$transaction(async (tx) => {
+    const plan = await tx.plan.findUnique({
+      where: { id: planId },
+    });
+
+    if (!plan || !plan.isActive) {
+      throw new AppError('PLAN_NOT_FOUND');
+    }
+
+    await lockUserSubscriptions(userId, tx);
+    await expireSubscriptions(userId, tx);
+
+    const now = new Date();
+    const current = await getCurrentSubscription(userId, tx);
+
+    if (current && current.status === 'active' && current.planId === planId) {
+      throw new AppError('ALREADY_SUBSCRIBED');
+    }
+
+    // Descarta trocas agendadas que ainda não começaram
+    await tx.userSubscription.updateMany({
+      where: {
+        userId,
+        status: 'active',
+        startedAt: { gt: now },
+      },
+      data: {
+        status: 'expired',
+        cancelledAt: now,
+      },
+    });
+
+    // Renovação: desfaz o cancelamento, mantendo o período pago atual
+    if (current && current.planId === planId) {
+      const subscription = await tx.userSubscription.update({
+        where: { id: current.id },
+        data: {
+          status: 'active',
+          cancelledAt: null,
+          expiresAt: getSubscriptionExpiresAt(current),
+        },
+        include: {
+          plan: true,
+        },
+      });
+
+      return { subscription, change: 'renewal' as const };
+    }
+
+    const currentPrice = current ? Number(current.plan.priceMonthly) || 0 : 0;
+    const newPrice = Number(plan.priceMonthly) || 0;
+    const isUpgrade = !current || currentPrice === 0 || newPrice > currentPrice;
+
+    let startedAt = now;
+    let change: SubscriptionChange = current ? 'upgrade' : 'new';
+
+    if (current) {
+      if (isUpgrade) {
+        // Upgrade: a assinatura atual é encerrada imediatamente
+        await tx.userSubscription.update({
+          where: { id: current.id },
+          data: {
+            status: 'expired',
+            cancelledAt: current.cancelledAt || now,
+            expiresAt: now,
+          },
+        });
+      } else {
+        // Downgrade: mantém o acesso atual até o fim do período pago
+        const currentExpiresAt = getSubscriptionExpiresAt(current);
+        await tx.userSubscription.update({
+          where: { id: current.id },
+          data: {
+            status: 'cancelled',
+            cancelledAt: current.cancelledAt || now,
+            expiresAt: currentExpiresAt,
+          },
+        });
+        startedAt = currentExpiresAt;
+        change = 'downgrade';
+      }
+    }
+
+    const subscription = await tx.userSubscription.create({
+      data: {
+        userId,
+        planId,
+        status: 'active',
+        startedAt,
+        expiresAt: addMonths(startedAt, SUBSCRIPTION_PERIOD_MONTHS),
+      },
+      include: {
+        plan: true,
+      },
+    });
+
+    return { subscription, change };
+  });
+}
+
+/**
+ * Cancela a assinatura ativa. O acesso continua até expires_at.
+ * Uma troca de plano agendada (que ainda não começou) é descartada.
+ */
+export async function cancelSubscription(userId: string): Promise<PrismaUserSubscription> {
+  return await prisma.$transaction(async (tx) => {
+    await lockUserSubscriptions(userId, tx);
+    await expireSubscriptions(userId, tx);
+
+    const now = new Date();
+    const active = await tx.userSubscription.findFirst({
+      where: {
+        userId,
+        status: 'active',
+      },
+      orderBy: {
+        startedAt: 'desc',
+      },
+    });
+
+    if (!active || !canTransitionSubscription(active.status as SubscriptionStatus, 'cancelled')) {
+      throw new AppError('NO_ACTIVE_SUBSCRIPTION');
+    }
+
+    if (active.startedAt > now) {
+      const subscription = await tx.userSubscription.update({
+        where: { id: active.id },
+        data: {
+          status: 'expired',
+          cancelledAt: now,
+        },
+      });
+
+      return subscription;
+    }
+
+    const subscription = await tx.userSubscription.update({
+      where: { id: active.id },
+      data: {
+        status: 'cancelled',
+        cancelledAt: now,
+        expiresAt: getSubscriptionExpiresAt(active),
+      },
+    });
+
+    return subscription;
+  });
+}
+
+/**
+ * Concede um plano ao usuário (ação administrativa, sem cobrança).
+ * Encerra imediatamente as assinaturas atuais e agendadas; sem durationMonths a assinatura não expira.
+ * Roda na transação recebida, para que o registro de auditoria entre junto com a concessão.
+ */
+export async function grantSubscription(
+  userId: string,
+  planId: string,
+  durationMonths: number | null | undefined,
+  tx: Prisma.TransactionClient
+): Promise<PrismaUserSubscription & { plan: any }> {
+  const [user, plan] = await Promise.all([
+    tx.sharezinUser.findUnique({ where: { id: userId } }),
+    tx.plan.findUnique({ where: { id: planId } }),
+  ]);
+
+  if (!user) {
+    throw new AppError('USER_NOT_FOUND');
+  }
+
+  if (!plan) {
+    throw new AppError('PLAN_NOT_FOUND');
+  }
+
+  await lockUserSubscriptions(userId, tx);
+  await expireSubscriptions(userId, tx);
+
+  const now = new Date();
+  await tx.userSubscription.updateMany({
+    where: {
+      userId,
+      status: { in: ['active', 'cancelled'] },
+    },
+    data: {
+      status: 'expired',
+      cancelledAt: now,
+      expiresAt: now,
+    },
+  });
+
+  const subscription = await tx.userSubscription.create({
+    data: {
+      userId,
+      planId,
+      status: 'active',
+      startedAt: now,
+      expiresAt: durationMonths ? addMonths(now, durationMonths) : null,
+    },
+    include: {
+      plan: true,
+    },
+  });
+
+  return subscription;
+}
+
+/**
+ * Revoga uma assinatura imediatamente (ação administrativa, sem manter o período pago),
+ * na transação recebida
+ */
+export async function revokeSubscription(
+  userId: string,
+  subscriptionId: string,
+  tx: Prisma.TransactionClient
+): Promise<PrismaUserSubscription & { plan: any }> {
+  const subscription = await tx.userSubscription.findFirst({
+    where: {
+      id: subscriptionId,
+      userId,
+    },
+  });
+
+  if (!subscription) {
+    throw new AppError('SUBSCRIPTION_NOT_FOUND');
+  }
+
+  if (!canTransitionSubscription(subscription.status as SubscriptionStatus, 'expired')) {
+    throw new AppError('SUBSCRIPTION_EXPIRED');
+  }
+
+  const now = new Date();
+  const updated = await tx.userSubscription.update({
+    where: { id: subscription.id },
+    data: {
+      status: 'expired',
+      cancelledAt: subscription.cancelledAt || now,
+      expiresAt: now,
+    },
+    include: {
+      plan: true,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Formata assinatura do Prisma para o formato da API
+ */
+export function formatSubscriptionResponse(subscription: any): UserSubscription {
+  return {
+    id: subscription.id,
+    userId: subscription.userId,
+    planId: subscription.planId,
+    plan: subscription.plan ? formatPlanResponse(subscription.plan) : undefined,
+    status: subscription.status as SubscriptionStatus,
+    startedAt: subscription.startedAt.toISOString(),
+    expiresAt: subscription.expiresAt?.toISOString(),
+    cancelledAt: subscription.cancelledAt?.toISOString(),
+    createdAt: subscription.createdAt.toISOString(),
+    updatedAt: subscription.updatedAt.toISOString(),
+  };
+}
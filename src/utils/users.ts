@@ -0,0 +1,134 @@
+import { prisma } from '../config/database';
+import { DeleteAccountResult, User, UserRole, UserSearchResult } from '../types';
+import { revokeUserSessions } from './sessions';
+
+/**
+ * Verifica se o usuário é administrador
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+  const user = await prisma.sharezinUser.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  return user?.role === 'admin';
+}
+
+/**
+ * Formata usuário do Prisma para o formato da API (nunca inclui passwordHash)
+ */
+export function formatUserResponse(user: any): User {
+  return {
+    id: user.id,
+    name: user.name || '',
+    email: user.email,
+    emailVerified: !!user.emailVerifiedAt,
+    role: user.role as UserRole,
+    createdAt: user.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Mascara o email para exibição em buscas (ex.: jo***@g***.com)
+ */
+export function maskEmail(email: string): string {
+  const [local, domain = ''] = email.split('@');
+  const dotIndex = domain.lastIndexOf('.');
+  const domainName = dotIndex > 0 ? domain.slice(0, dotIndex) : domain;
+  const tld = dotIndex > 0 ? domain.slice(dotIndex) : '';
+
+  return `${local.slice(0, Math.min(2, local.length))}***@${domainName.slice(0, 1)}***${tld}`;
+}
+
+/**
+ * Formata usuário para o resultado da busca (apenas nome e dica do email)
+ */
+export function formatUserSearchResult(user: any): UserSearchResult {
+  return {
+    id: user.id,
+    name: user.name || '',
+    emailHint: maskEmail(user.email),
+  };
+}
+
+/**
+ * Exclui a conta do usuário sem apagar os recibos compartilhados que ele criou:
+ * - com outro usuário cadastrado no recibo, ele passa a ser o criador
+ *   (um participante ativo tem preferência; se só restarem participações fechadas, o recibo é fechado);
+ * - sem nenhum outro usuário cadastrado, o recibo é excluído junto com a conta.
+ * Retorna o resumo, as transferências feitas e os recibos excluídos (para notificar e publicar eventos).
+ */
+export async function deleteUserAccount(userId: string): Promise<{
+  result: DeleteAccountResult;
+  reassignments: { receiptId: string; newCreatorId: string }[];
+  deletedReceiptIds: string[];
+}> {
+  const reassignments: { receiptId: string; newCreatorId: string }[] = [];
+  const deletedReceiptIds: string[] = [];
+  let closedReceipts = 0;
+
+  // Sessões são encerradas antes para derrubar as conexões de realtime
+  await revokeUserSessions(userId);
+
+  await prisma.$transaction(async (tx) => {
+    const receipts = await tx.receipt.findMany({
+      where: { creatorId: userId },
+      include: {
+        receiptParticipants: {
+          include: {
+            participant: true,
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    for (const receipt of receipts) {
+      const others = receipt.receiptParticipants.filter(
+        (rp) => rp.participant.userId && rp.participant.userId !== userId
+      );
+
+      if (others.length === 0) {
+        await tx.receipt.delete({
+          where: { id: receipt.id },
+        });
+        deletedReceiptIds.push(receipt.id);
+        continue;
+      }
+
+      const activeParticipant = others.find((rp) => !rp.isClosed);
+      const newCreator = (activeParticipant || others[0]).participant;
+      const shouldClose = !activeParticipant && !receipt.isClosed;
+
+      await tx.receipt.update({
+        where: { id: receipt.id },
+        data: {
+          creatorId: newCreator.userId!,
+          ...(shouldClose && { isClosed: true }),
+        },
+      });
+
+      reassignments.push({ receiptId: receipt.id, newCreatorId: newCreator.userId! });
+      if (shouldClose) {
+        closedReceipts++;
+      }
+    }
+
+    // Participações do usuário continuam nos recibos como convidado (userId vira null)
+    await tx.sharezinUser.delete({
+      where: { id: userId },
+    });
+  });
+
+  return {
+    result: {
+      reassignedReceipts: reassignments.length,
+      closedReceipts,
+      deletedReceipts: deletedReceiptIds.length,
+    },
+    reassignments,
+    deletedReceiptIds,
+  };
+}
@@ -0,0 +1,125 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createUser } from './helpers/factories';
+
+describe('autenticação', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('registra, envia confirmação de email e retorna o usuário autenticado', async () => {
+    const register = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email: 'ana@sharezin.test', password: 'senha-segura-123', name: 'Ana' },
+    });
+    assert.equal(register.statusCode, 201, register.body);
+
+    const { token, user } = register.json();
+    assert.equal(user.email, 'ana@sharezin.test');
+
+    const me = await ctx.request({ method: 'GET', url: '/api/auth/me', token });
+    assert.equal(me.statusCode, 200, me.body);
+    assert.equal(me.json().user.id, user.id);
+
+    // O email de confirmação é enviado sem bloquear o registro
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.ok(ctx.mailbox.some((message) => message.to === 'ana@sharezin.test'));
+  });
+
+  it('recusa email já cadastrado', async () => {
+    const existing = await createUser(ctx);
+
+    const response = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email: existing.email, password: 'outra-senha-123', name: 'Outra' },
+    });
+
+    assert.equal(response.statusCode, 409, response.body);
+    assert.equal(response.json().error.code, 'EMAIL_IN_USE');
+  });
+
+  it('recusa senha incorreta', async () => {
+    const user = await createUser(ctx);
+
+    const response = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/login',
+      payload: { email: user.email, password: 'senha-errada' },
+    });
+
+    assert.equal(response.statusCode, 401);
+    assert.equal(response.json().error.code, 'INVALID_CREDENTIALS');
+  });
+
+  it('rotaciona o refresh token e revoga a sessão quando um token antigo é reutilizado', async () => {
+    const user = await createUser(ctx);
+
+    const refreshed = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/refresh',
+      payload: { refreshToken: user.refreshToken },
+    });
+    assert.equal(refreshed.statusCode, 200, refreshed.body);
+    assert.notEqual(refreshed.json().refreshToken, user.refreshToken);
+
+    const reused = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/refresh',
+      payload: { refreshToken: user.refreshToken },
+    });
+    assert.equal(reused.statusCode, 401);
+
+    // A sessão inteira cai, inclusive o token recém-emitido
+    const afterReuse = await ctx.request({
+      method: 'POST',
+      url: '/api/auth/refresh',
+      payload: { refreshToken: refreshed.json().refreshToken },
+    });
+    assert.equal(afterReuse.statusCode, 401);
+  });
+
+  it('invalida o access token após logout', async () => {
+    const user = await createUser(ctx);
+
+    const logout = await ctx.request({ method: 'POST', url: '/api/auth/logout', token: user.token });
+    assert.equal(logout.statusCode, 200, logout.body);
+
+    const me = await ctx.request({ method: 'GET', url: '/api/auth/me', token: user.token });
+    assert.equal(me.statusCode, 401);
+    assert.equal(me.json().error.code, 'SESSION_REVOKED');
+  });
+
+  it('exige token nas rotas autenticadas', async () => {
+    const response = await ctx.request({ method: 'GET', url: '/api/auth/me' });
+
+    assert.equal(response.statusCode, 401);
+  });
+
+  it('não aceita emails no console em produção', () => {
+    const { assertMailerConfigured } = require('../src/utils/mailer') as typeof import('../src/utils/mailer');
+    const env = { ...process.env };
+
+    try {
+      Object.assign(process.env, { NODE_ENV: 'production', MAIL_TRANSPORT: 'console', SMTP_HOST: '' });
+      assert.throws(() => assertMailerConfigured(), /SMTP_HOST/);
+
+      Object.assign(process.env, { MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'smtp.sharezin.test' });
+      assert.doesNotThrow(() => assertMailerConfigured());
+    } finally {
+      process.env = env;
+    }
+  });
+});
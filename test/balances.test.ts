@@ -0,0 +1,92 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createItem, createParticipant, createReceipt, createUser, TestUser } from './helpers/factories';
+
+describe('pagamentos entre usuários', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  /**
+   * Recibo fechado pago pelo criador, em que o devedor consumiu `amount`
+   */
+  async function createDebt(creditor: TestUser, debtor: TestUser, amount: number) {
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creditor);
+    const debtorParticipant = await createParticipant(ctx, receipt, { user: debtor });
+    await createItem(ctx, receipt, creatorParticipant, { price: 10 });
+    await createItem(ctx, receipt, debtorParticipant, { price: amount });
+
+    const close = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/close`,
+      token: creditor.token,
+    });
+    assert.equal(close.statusCode, 200, close.body);
+  }
+
+  it('só quem recebeu registra o pagamento, até o saldo pendente', async () => {
+    const creditor = await createUser(ctx);
+    const debtor = await createUser(ctx);
+    await createDebt(creditor, debtor, 30);
+
+    const byDebtor = await ctx.request({
+      method: 'POST',
+      url: '/api/balances/payments',
+      token: debtor.token,
+      payload: { fromUserId: debtor.id, toUserId: creditor.id },
+    });
+    assert.equal(byDebtor.statusCode, 403, byDebtor.body);
+    assert.equal(byDebtor.json().error.code, 'PAYMENT_RECEIVER_ONLY');
+
+    const tooMuch = await ctx.request({
+      method: 'POST',
+      url: '/api/balances/payments',
+      token: creditor.token,
+      payload: { fromUserId: debtor.id, amount: 31 },
+    });
+    assert.equal(tooMuch.statusCode, 400, tooMuch.body);
+    assert.equal(tooMuch.json().error.code, 'PAYMENT_EXCEEDS_BALANCE');
+
+    const partial = await ctx.request({
+      method: 'POST',
+      url: '/api/balances/payments',
+      token: creditor.token,
+      payload: { fromUserId: debtor.id, amount: 12.5 },
+    });
+    assert.equal(partial.statusCode, 201, partial.body);
+
+    const rest = await ctx.request({
+      method: 'POST',
+      url: '/api/balances/payments',
+      token: creditor.token,
+      payload: { fromUserId: debtor.id },
+    });
+    assert.equal(rest.statusCode, 201, rest.body);
+    assert.equal(rest.json().payment.amount, 17.5);
+  });
+
+  it('não registra pagamento sem saldo em comum', async () => {
+    const user = await createUser(ctx);
+    const stranger = await createUser(ctx);
+
+    const response = await ctx.request({
+      method: 'POST',
+      url: '/api/balances/payments',
+      token: user.token,
+      payload: { fromUserId: stranger.id, amount: 50 },
+    });
+    assert.equal(response.statusCode, 400, response.body);
+    assert.equal(response.json().error.code, 'NO_PENDING_BALANCE');
+  });
+});
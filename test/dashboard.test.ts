@@ -0,0 +1,228 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import {
+  createItem,
+  createParticipant,
+  createReceipt,
+  createUser,
+  subscribeToPlan,
+  TestUser,
+} from './helpers/factories';
+
+describe('dashboard', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  /**
+   * Recibo fechado pela API na data informada, com um item do criador
+   */
+  async function createClosedReceipt(
+    creator: TestUser,
+    options: { title: string; date: string; price: number; category?: string; guest?: string }
+  ) {
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator, {
+      title: options.title,
+      serviceChargePercent: 10,
+      cover: 2,
+    });
+    await ctx.prisma.receipt.update({
+      where: { id: receipt.id },
+      data: { date: new Date(options.date), category: options.category ?? null },
+    });
+    if (options.guest) {
+      await createParticipant(ctx, receipt, { name: options.guest });
+    }
+    await createItem(ctx, receipt, creatorParticipant, { price: options.price });
+
+    const close = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/close`,
+      token: creator.token,
+    });
+    assert.equal(close.statusCode, 200, close.body);
+
+    return receipt;
+  }
+
+  it('soma os gastos do período sem as partes avançadas', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { dashboard: true } });
+    await createClosedReceipt(user, { title: 'Almoço', date: '2025-03-10T15:00:00Z', price: 40 });
+    await createClosedReceipt(user, { title: 'Jantar', date: '2025-03-20T23:00:00Z', price: 60 });
+    await createClosedReceipt(user, { title: 'Fora', date: '2025-05-01T12:00:00Z', price: 100 });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?from=2025-03-01&to=2025-03-31',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    const stats = response.json();
+    assert.deepEqual(stats.period, { from: '2025-03-01', to: '2025-03-31', timeZone: 'America/Sao_Paulo' });
+    assert.deepEqual(stats.summary, {
+      totalSpent: 114,
+      receiptCount: 2,
+      averagePerReceipt: 57,
+      itemsTotal: 100,
+      serviceChargeTotal: 10,
+      coverTotal: 4,
+    });
+    assert.deepEqual(
+      stats.expenseDistribution.map((expense: { receiptTitle: string }) => expense.receiptTitle),
+      ['Jantar', 'Almoço']
+    );
+    assert.equal(stats.analytics, null);
+  });
+
+  it('calcula comparação, parceiros, horários e categorias com o recurso analytics', async () => {
+    const user = await createUser(ctx);
+    const friend = await createUser(ctx, { name: 'Bruno' });
+    await subscribeToPlan(ctx, user, { features: { dashboard: true, analytics: true } });
+
+    const lunch = await createClosedReceipt(user, {
+      title: 'Almoço',
+      date: '2025-03-10T15:00:00Z',
+      price: 40,
+      category: 'food',
+    });
+    await createParticipant(ctx, lunch, { user: friend });
+    const drinks = await createClosedReceipt(user, {
+      title: 'Bar',
+      date: '2025-03-14T23:30:00Z',
+      price: 60,
+      category: 'drinks',
+      guest: 'Carla',
+    });
+    await createParticipant(ctx, drinks, { user: friend });
+    await createClosedReceipt(user, { title: 'Fevereiro', date: '2025-02-15T12:00:00Z', price: 18 });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?from=2025-03-01&to=2025-03-28&timeZone=America/Sao_Paulo',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    const { analytics } = response.json();
+
+    assert.deepEqual(analytics.comparison.previousPeriod, { from: '2025-02-01', to: '2025-02-28' });
+    assert.deepEqual(analytics.comparison.totalSpent, {
+      current: 114,
+      previous: 21.8,
+      change: 92.2,
+      changePercent: 422.94,
+    });
+    assert.deepEqual(analytics.comparison.receiptCount.changePercent, 100);
+
+    assert.deepEqual(
+      analytics.topCoParticipants.map((p: { name: string; receiptCount: number }) => [p.name, p.receiptCount]),
+      [
+        ['Bruno', 2],
+        ['Carla', 1],
+      ]
+    );
+    assert.equal(analytics.topCoParticipants[0].userId, friend.id);
+    assert.equal(analytics.topCoParticipants[1].userId, undefined);
+
+    // 14/03 23:30 UTC é sexta, 20:30 em São Paulo
+    assert.deepEqual(analytics.heatmap, [
+      { weekday: 1, hour: 12, total: 46, receiptCount: 1 },
+      { weekday: 5, hour: 20, total: 68, receiptCount: 1 },
+    ]);
+    assert.deepEqual(analytics.byWeekday[5], { weekday: 5, total: 68, receiptCount: 1 });
+    assert.equal(analytics.byHour.length, 24);
+
+    assert.deepEqual(analytics.categories, [
+      { category: 'drinks', total: 68, receiptCount: 1, share: 59.65 },
+      { category: 'food', total: 46, receiptCount: 1, share: 40.35 },
+    ]);
+  });
+
+  it('usa o ano inteiro no fuso do usuário quando o período não é informado', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { dashboard: true } });
+    // 31/12 às 22h em São Paulo, mas já 2025 em UTC
+    await createClosedReceipt(user, { title: 'Réveillon', date: '2025-01-01T01:00:00Z', price: 50 });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?year=2024',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    const stats = response.json();
+    assert.deepEqual(stats.period, {
+      from: '2024-01-01',
+      to: '2024-12-31',
+      timeZone: 'America/Sao_Paulo',
+    });
+    assert.equal(stats.summary.receiptCount, 1);
+    assert.deepEqual(stats.expensesByPeriod, [{ period: '2024-12', total: 57, receiptCount: 1 }]);
+    assert.deepEqual(stats.expensesByDay, [{ day: '2024-12-31', total: 57, receiptCount: 1 }]);
+
+    const utc = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?year=2024&timeZone=UTC',
+      token: user.token,
+    });
+    assert.equal(utc.statusCode, 200, utc.body);
+    assert.equal(utc.json().summary.receiptCount, 0);
+  });
+
+  it('recusa período invertido e fuso horário desconhecido', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { dashboard: true } });
+
+    const range = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?from=2025-03-01&to=2025-02-01',
+      token: user.token,
+    });
+    assert.equal(range.statusCode, 400, range.body);
+    assert.equal(range.json().error.code, 'INVALID_DATE_RANGE');
+
+    const timeZone = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?timeZone=Mars/Olympus',
+      token: user.token,
+    });
+    assert.equal(timeZone.statusCode, 400, timeZone.body);
+    assert.equal(timeZone.json().error.code, 'INVALID_TIMEZONE');
+  });
+
+  it('grava a categoria informada ao criar e editar o recibo', async () => {
+    const user = await createUser(ctx);
+
+    const created = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: user.token,
+      payload: { title: 'Mercado', category: 'groceries' },
+    });
+    assert.equal(created.statusCode, 201, created.body);
+    assert.equal(created.json().receipt.category, 'groceries');
+
+    const updated = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${created.json().receipt.id}`,
+      token: user.token,
+      payload: { category: null },
+    });
+    assert.equal(updated.statusCode, 200, updated.body);
+    assert.equal(updated.json().receipt.category, undefined);
+  });
+});
@@ -0,0 +1,79 @@
+import { FastifyInstance, InjectOptions, LightMyRequestResponse } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import type { MailMessage } from '../../src/utils/mailer';
+import { startTestDatabase } from './database';
+
+/**
+ * Aplicação montada sobre um banco descartável
+ */
+export interface TestApp {
+  app: FastifyInstance;
+  prisma: PrismaClient;
+  /** Emails enviados pela aplicação (o mailer real é substituído) */
+  mailbox: MailMessage[];
+  /** Requisição autenticada com o access token informado */
+  request(options: InjectOptions & { token?: string }): Promise<LightMyRequestResponse>;
+  /** Apaga os dados de todas as tabelas */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Sobe o banco, configura o ambiente e cria o servidor com buildServer.
+ * Os módulos da aplicação leem o ambiente ao serem carregados, por isso são importados depois.
+ */
+export async function createTestApp(): Promise<TestApp> {
+  const database = await startTestDatabase();
+
+  process.env.DATABASE_URL = database.url;
+  process.env.DATABASE_POOL_SIZE = '1';
+  process.env.NODE_ENV = 'test';
+  process.env.LOG_LEVEL = 'silent';
+  process.env.JWT_SECRET = 'test-secret';
+
+  const { buildServer } = require('../../src/server') as typeof import('../../src/server');
+  const { prisma, disconnectDatabase } = require('../../src/config/database') as typeof import('../../src/config/database');
+  const { setMailer } = require('../../src/utils/mailer') as typeof import('../../src/utils/mailer');
+
+  const mailbox: MailMessage[] = [];
+  setMailer({
+    send: async (message) => {
+      mailbox.push(message);
+    },
+  });
+
+  const app = await buildServer();
+  await app.ready();
+
+  return {
+    app,
+    prisma,
+    mailbox,
+    request: ({ token, headers, ...options }) =>
+      app.inject({
+        ...options,
+        headers: {
+          ...headers,
+          ...(token && { authorization: `Bearer ${token}` }),
+        },
+      }),
+    reset: async () => {
+      // Notificações e emails são disparados sem await; espera terminarem antes de limpar
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const tables = await prisma.$queryRaw<Array<{ tablename: string }>>`
+        SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND tablename <> '_prisma_migrations'
+      `;
+      if (tables.length > 0) {
+        const names = tables.map(({ tablename }) => `"public"."${tablename}"`).join(', ');
+        await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${names} CASCADE`);
+      }
+      mailbox.length = 0;
+    },
+    close: async () => {
+      await app.close();
+      await disconnectDatabase();
+      await database.stop();
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { PlanFeatures } from '../../src/types';
+import { hashPassword } from '../../src/utils/password';
+import type { TestApp } from './app';
+
+export interface TestUser {
+  id: string;
+  email: string;
+  name: string;
+  password: string;
+  /** Access token de uma sessão aberta pelo login */
+  token: string;
+  refreshToken: string;
+}
+
+let sequence = 0;
+
+function nextId() {
+  sequence += 1;
+  return `${Date.now().toString(36)}${sequence}`;
+}
+
+/**
+ * Cria um usuário direto no banco e faz login pela API
+ */
+export async function createUser(
+  ctx: TestApp,
+  overrides: { email?: string; name?: string; password?: string; role?: 'user' | 'admin' } = {}
+): Promise<TestUser> {
+  const id = nextId();
+  const email = overrides.email || `user-${id}@sharezin.test`;
+  const name = overrides.name || `Usuário ${id}`;
+  const password = overrides.password || 'senha-segura-123';
+
+  const user = await ctx.prisma.sharezinUser.create({
+    data: {
+      email,
+      name,
+      passwordHash: await hashPassword(password),
+      role: overrides.role || 'user',
+      emailVerifiedAt: new Date(),
+    },
+  });
+
+  const response = await ctx.request({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email, password },
+  });
+  assert.equal(response.statusCode, 200, response.body);
+  const { token, refreshToken } = response.json();
+
+  return { id: user.id, email, name, password, token, refreshToken };
+}
+
+/**
+ * Cria um plano ativo (sem limites nem recursos, a menos que informados)
+ */
+export async function createPlan(
+  ctx: TestApp,
+  overrides: {
+    name?: string;
+    priceMonthly?: number;
+    maxParticipantsPerReceipt?: number | null;
+    maxReceiptsPerMonth?: number | null;
+    maxHistoryReceipts?: number | null;
+    features?: PlanFeatures;
+  } = {}
+) {
+  const name = overrides.name || `plan-${nextId()}`;
+
+  return ctx.prisma.plan.create({
+    data: {
+      name,
+      displayName: `Plano ${name}`,
+      priceMonthly: overrides.priceMonthly ?? 0,
+      maxParticipantsPerReceipt: overrides.maxParticipantsPerReceipt ?? null,
+      maxReceiptsPerMonth: overrides.maxReceiptsPerMonth ?? null,
+      maxHistoryReceipts: overrides.maxHistoryReceipts ?? null,
+      features: (overrides.features || {}) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Cria um plano e assina o usuário nele
+ */
+export async function subscribeToPlan(
+  ctx: TestApp,
+  user: { id: string },
+  overrides: Parameters<typeof createPlan>[1] = {}
+) {
+  const plan = await createPlan(ctx, overrides);
+
+  await ctx.prisma.userSubscription.create({
+    data: { userId: user.id, planId: plan.id, status: 'active' },
+  });
+
+  return plan;
+}
+
+/**
+ * Adiciona um participante ao recibo (usuário cadastrado ou convidado só com nome)
+ */
+export async function createParticipant(
+  ctx: TestApp,
+  receipt: { id: string },
+  options: { user?: { id: string; name: string }; name?: string } = {}
+) {
+  const participant = await ctx.prisma.participant.create({
+    data: {
+      name: options.name || options.user?.name || `Convidado ${nextId()}`,
+      userId: options.user?.id || null,
+    },
+  });
+
+  await ctx.prisma.receiptParticipant.create({
+    data: { receiptId: receipt.id, participantId: participant.id },
+  });
+
+  return participant;
+}
+
+/**
+ * Cria um recibo aberto com o criador como participante
+ */
+export async function createReceipt(
+  ctx: TestApp,
+  creator: { id: string; name: string },
+  overrides: { title?: string; serviceChargePercent?: number; cover?: number } = {}
+) {
+  const receipt = await ctx.prisma.receipt.create({
+    data: {
+      title: overrides.title || 'Recibo de teste',
+      creatorId: creator.id,
+      inviteCode: crypto.randomBytes(4).toString('hex').toUpperCase(),
+      serviceChargePercent: overrides.serviceChargePercent ?? 0,
+      cover: overrides.cover ?? 0,
+    },
+  });
+
+  const creatorParticipant = await createParticipant(ctx, receipt, { user: creator });
+
+  return { receipt, creatorParticipant };
+}
+
+/**
+ * Adiciona um item consumido por um participante
+ */
+export async function createItem(
+  ctx: TestApp,
+  receipt: { id: string },
+  participant: { id: string },
+  overrides: { name?: string; price?: number; quantity?: number } = {}
+) {
+  return ctx.prisma.receiptItem.create({
+    data: {
+      receiptId: receipt.id,
+      participantId: participant.id,
+      name: overrides.name || 'Item de teste',
+      price: overrides.price ?? 10,
+      quantity: overrides.quantity ?? 1,
+    },
+  });
+}
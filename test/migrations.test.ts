@@ -0,0 +1,34 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+
+describe('verificação de migrações na inicialização', () => {
+  let ctx: TestApp;
+  let migrations: typeof import('../src/config/migrations');
+
+  before(async () => {
+    ctx = await createTestApp();
+    migrations = require('../src/config/migrations') as typeof import('../src/config/migrations');
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  it('aceita um banco com todas as migrações aplicadas', async () => {
+    await migrations.assertDatabaseMigrated();
+  });
+
+  it('recusa um banco com migração pendente', async () => {
+    const [latest] = migrations.listMigrations().slice(-1);
+    await ctx.prisma.$executeRaw`DELETE FROM _prisma_migrations WHERE migration_name = ${latest}`;
+
+    await assert.rejects(migrations.assertDatabaseMigrated(), new RegExp(`Migrações pendentes: ${latest}`));
+  });
+
+  it('recusa um banco sem a tabela de migrações', async () => {
+    await ctx.prisma.$executeRaw`DROP TABLE _prisma_migrations`;
+
+    await assert.rejects(migrations.assertDatabaseMigrated(), /não tem migrações aplicadas/);
+  });
+});
@@ -0,0 +1,153 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createItem, createParticipant, createPlan, createReceipt, createUser } from './helpers/factories';
+
+describe('permissões', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('nega acesso ao recibo a quem não participa', async () => {
+    const creator = await createUser(ctx);
+    const stranger = await createUser(ctx);
+    const { receipt } = await createReceipt(ctx, creator);
+
+    const response = await ctx.request({ method: 'GET', url: `/api/receipts/${receipt.id}`, token: stranger.token });
+
+    assert.equal(response.statusCode, 403);
+    assert.equal(response.json().error.code, 'RECEIPT_ACCESS_DENIED');
+  });
+
+  it('reserva ações de criador ao criador do recibo', async () => {
+    const creator = await createUser(ctx);
+    const participant = await createUser(ctx);
+    const { receipt } = await createReceipt(ctx, creator);
+    await createParticipant(ctx, receipt, { user: participant });
+
+    const close = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: participant.token });
+    assert.equal(close.statusCode, 403);
+    assert.equal(close.json().error.code, 'RECEIPT_CREATOR_ONLY');
+
+    const remove = await ctx.request({ method: 'DELETE', url: `/api/receipts/${receipt.id}`, token: participant.token });
+    assert.equal(remove.statusCode, 403);
+    assert.equal(await ctx.prisma.receipt.count({ where: { id: receipt.id } }), 1);
+  });
+
+  it('impede que um participante edite o item de outro', async () => {
+    const creator = await createUser(ctx);
+    const participant = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator);
+    await createParticipant(ctx, receipt, { user: participant });
+    const item = await createItem(ctx, receipt, creatorParticipant, { name: 'Vinho', price: 90 });
+
+    const response = await ctx.request({
+      method: 'PATCH',
+      url: `/api/receipts/${receipt.id}/items/${item.id}`,
+      token: participant.token,
+      payload: { price: 1 },
+    });
+
+    assert.equal(response.statusCode, 403, response.body);
+    const unchanged = await ctx.prisma.receiptItem.findUniqueOrThrow({ where: { id: item.id } });
+    assert.equal(Number(unchanged.price), 90);
+  });
+
+  it('impede que um usuário altere os dados de outro', async () => {
+    const user = await createUser(ctx);
+    const other = await createUser(ctx);
+
+    const response = await ctx.request({
+      method: 'PUT',
+      url: `/api/users/${other.id}`,
+      token: user.token,
+      payload: { name: 'Invasor' },
+    });
+
+    assert.equal(response.statusCode, 403);
+    assert.equal(response.json().error.code, 'USER_ACCESS_DENIED');
+  });
+
+  it('restringe o console administrativo a administradores', async () => {
+    const user = await createUser(ctx);
+    const admin = await createUser(ctx, { role: 'admin' });
+
+    const denied = await ctx.request({ method: 'GET', url: '/api/admin/users', token: user.token });
+    assert.equal(denied.statusCode, 403);
+    assert.equal(denied.json().error.code, 'ADMIN_ONLY');
+
+    const allowed = await ctx.request({ method: 'GET', url: '/api/admin/users', token: admin.token });
+    assert.equal(allowed.statusCode, 200, allowed.body);
+  });
+
+  it('só administradores enviam notificações, sempre em nome próprio', async () => {
+    const user = await createUser(ctx);
+    const target = await createUser(ctx);
+    const admin = await createUser(ctx, { role: 'admin' });
+    const payload = { userId: target.id, type: 'item_added', title: 'Aviso', message: 'Clique aqui' };
+
+    const denied = await ctx.request({ method: 'POST', url: '/api/notifications', token: user.token, payload });
+    assert.equal(denied.statusCode, 403);
+    assert.equal(denied.json().error.code, 'ADMIN_ONLY');
+
+    const sent = await ctx.request({
+      method: 'POST',
+      url: '/api/notifications',
+      token: admin.token,
+      payload: { ...payload, relatedUserId: user.id },
+    });
+    assert.equal(sent.statusCode, 201, sent.body);
+    assert.equal(sent.json().notification.relatedUserId, admin.id);
+    assert.equal(await ctx.prisma.adminAuditLog.count({ where: { action: 'notification.send' } }), 1);
+  });
+
+  it('registra concessão e revogação de plano na mesma transação da auditoria', async () => {
+    const user = await createUser(ctx);
+    const admin = await createUser(ctx, { role: 'admin' });
+    const plan = await createPlan(ctx);
+
+    const missing = await ctx.request({
+      method: 'POST',
+      url: `/api/admin/users/${user.id}/subscriptions`,
+      token: admin.token,
+      payload: { planId: '00000000-0000-0000-0000-000000000000' },
+    });
+    assert.equal(missing.statusCode, 404, missing.body);
+
+    const granted = await ctx.request({
+      method: 'POST',
+      url: `/api/admin/users/${user.id}/subscriptions`,
+      token: admin.token,
+      payload: { planId: plan.id, durationMonths: 3 },
+    });
+    assert.equal(granted.statusCode, 201, granted.body);
+    const subscriptionId = granted.json().subscription.id;
+
+    const revoked = await ctx.request({
+      method: 'DELETE',
+      url: `/api/admin/users/${user.id}/subscriptions/${subscriptionId}`,
+      token: admin.token,
+    });
+    assert.equal(revoked.statusCode, 200, revoked.body);
+    assert.equal(revoked.json().subscription.status, 'expired');
+
+    const actions = await ctx.prisma.adminAuditLog.findMany({ orderBy: { createdAt: 'asc' } });
+    assert.deepEqual(
+      actions.map((action) => [action.action, action.targetId]),
+      [
+        ['subscription.grant', subscriptionId],
+        ['subscription.revoke', subscriptionId],
+      ]
+    );
+  });
+});
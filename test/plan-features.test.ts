@@ -0,0 +1,74 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createPlan, createUser, subscribeToPlan } from './helpers/factories';
+
+describe('recursos do plano', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('libera o dashboard para planos com o recurso', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { dashboard: true } });
+
+    const response = await ctx.request({ method: 'GET', url: '/api/receipts/dashboard-stats', token: user.token });
+
+    assert.equal(response.statusCode, 200, response.body);
+  });
+
+  it('responde 402 com sugestão de upgrade quando o plano não inclui o recurso', async () => {
+    const user = await createUser(ctx);
+    await createPlan(ctx, { name: 'free' });
+    await createPlan(ctx, { name: 'premium', priceMonthly: 29.9, features: { dashboard: true } });
+    await createPlan(ctx, { name: 'pro', priceMonthly: 9.9, features: { dashboard: true, analytics: true } });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats',
+      token: user.token,
+      headers: { 'accept-language': 'en' },
+    });
+
+    assert.equal(response.statusCode, 402, response.body);
+    const { error } = response.json();
+    assert.equal(error.code, 'PLAN_FEATURE_REQUIRED');
+    assert.equal(error.message, 'The dashboard feature is not included in the Plano free plan. Upgrade to use it');
+    assert.deepEqual(error.upgrade, {
+      feature: 'dashboard',
+      currentPlan: 'free',
+      plans: [
+        { name: 'pro', displayName: 'Plano pro', priceMonthly: 9.9 },
+        { name: 'premium', displayName: 'Plano premium', priceMonthly: 29.9 },
+      ],
+    });
+  });
+
+  it('usa os recursos do plano gratuito para quem não tem assinatura', async () => {
+    const user = await createUser(ctx);
+    await createPlan(ctx, { name: 'free', features: { dashboard: true } });
+
+    const response = await ctx.request({ method: 'GET', url: '/api/receipts/dashboard-stats', token: user.token });
+
+    assert.equal(response.statusCode, 200, response.body);
+  });
+
+  it('responde 403 quando nenhum plano ativo oferece o recurso', async () => {
+    const user = await createUser(ctx);
+
+    const response = await ctx.request({ method: 'GET', url: '/api/receipts/dashboard-stats', token: user.token });
+
+    assert.equal(response.statusCode, 403, response.body);
+    assert.equal(response.json().error.code, 'FEATURE_UNAVAILABLE');
+  });
+});
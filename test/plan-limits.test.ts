@@ -0,0 +1,279 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import {
+  createItem,
+  createParticipant,
+  createPlan,
+  createReceipt,
+  createUser,
+  subscribeToPlan,
+} from './helpers/factories';
+
+describe('limites do plano', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('bloqueia novos recibos ao atingir o limite mensal', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxReceiptsPerMonth: 2 });
+
+    for (const title of ['Almoço', 'Cinema']) {
+      const response = await ctx.request({
+        method: 'POST',
+        url: '/api/receipts',
+        token: user.token,
+        payload: { title },
+      });
+      assert.equal(response.statusCode, 201, response.body);
+    }
+
+    const blocked = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: user.token,
+      payload: { title: 'Mercado' },
+    });
+    assert.equal(blocked.statusCode, 403);
+    assert.equal(blocked.json().error.code, 'RECEIPT_LIMIT_REACHED');
+    assert.equal(await ctx.prisma.receipt.count({ where: { creatorId: user.id } }), 2);
+  });
+
+  it('bloqueia aprovação de participantes acima do limite do plano do criador', async () => {
+    const creator = await createUser(ctx);
+    const guest = await createUser(ctx);
+    await subscribeToPlan(ctx, creator, { maxParticipantsPerReceipt: 2 });
+
+    const { receipt } = await createReceipt(ctx, creator);
+    await createParticipant(ctx, receipt, { name: 'Convidada sem conta' });
+
+    const join = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/request-join`,
+      token: guest.token,
+      payload: {},
+    });
+    assert.equal(join.statusCode, 201, join.body);
+
+    const approve = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/pending/${join.json().pendingParticipant.id}/approve`,
+      token: creator.token,
+    });
+    assert.equal(approve.statusCode, 403);
+    assert.equal(approve.json().error.code, 'PARTICIPANT_LIMIT_REACHED');
+
+    const pending = await ctx.prisma.pendingParticipant.findUniqueOrThrow({
+      where: { id: join.json().pendingParticipant.id },
+    });
+    assert.equal(pending.status, 'pending');
+  });
+
+  it('não limita usuários de planos sem limite', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxReceiptsPerMonth: null });
+
+    for (let i = 0; i < 3; i++) {
+      const response = await ctx.request({
+        method: 'POST',
+        url: '/api/receipts',
+        token: user.token,
+        payload: { title: `Recibo ${i + 1}` },
+      });
+      assert.equal(response.statusCode, 201, response.body);
+    }
+  });
+
+  it('aplica os limites do plano gratuito a quem não tem assinatura', async () => {
+    const user = await createUser(ctx);
+    await createPlan(ctx, { name: 'free', maxReceiptsPerMonth: 1 });
+
+    const first = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: user.token,
+      payload: { title: 'Primeiro' },
+    });
+    assert.equal(first.statusCode, 201, first.body);
+
+    const second = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: user.token,
+      payload: { title: 'Segundo' },
+    });
+    assert.equal(second.statusCode, 403);
+    assert.equal(second.json().error.code, 'RECEIPT_LIMIT_REACHED');
+  });
+
+  it('não conta recibos criados antes do início do mês', async () => {
+    const { getCurrentLimitPeriod } = require('../src/utils/plans') as typeof import('../src/utils/plans');
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxReceiptsPerMonth: 1 });
+
+    const { receipt } = await createReceipt(ctx, user, { title: 'Mês passado' });
+    const { start } = getCurrentLimitPeriod();
+    await ctx.prisma.receipt.update({
+      where: { id: receipt.id },
+      data: { createdAt: new Date(start.getTime() - 1000) },
+    });
+
+    const response = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: user.token,
+      payload: { title: 'Este mês' },
+    });
+    assert.equal(response.statusCode, 201, response.body);
+  });
+
+  it('recusa transferir o recibo para quem tem limite de participantes menor', async () => {
+    const creator = await createUser(ctx);
+    const other = await createUser(ctx);
+    await subscribeToPlan(ctx, creator, { maxParticipantsPerReceipt: null });
+    await subscribeToPlan(ctx, other, { maxParticipantsPerReceipt: 2 });
+
+    const { receipt } = await createReceipt(ctx, creator);
+    const otherParticipant = await createParticipant(ctx, receipt, { user: other });
+    await createParticipant(ctx, receipt, { name: 'Convidado' });
+
+    const response = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}/transfer-creator`,
+      token: creator.token,
+      payload: { newCreatorParticipantId: otherParticipant.id },
+    });
+
+    assert.equal(response.statusCode, 403, response.body);
+    assert.equal(response.json().error.code, 'TRANSFER_EXCEEDS_PARTICIPANT_LIMIT');
+    const unchanged = await ctx.prisma.receipt.findUniqueOrThrow({ where: { id: receipt.id } });
+    assert.equal(unchanged.creatorId, creator.id);
+  });
+
+  it('oculta os recibos fechados além do limite de histórico, inclusive na paginação', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxHistoryReceipts: 2 });
+
+    for (let i = 0; i < 3; i++) {
+      const { receipt } = await createReceipt(ctx, user, { title: `Fechado ${i + 1}` });
+      await ctx.prisma.receipt.update({
+        where: { id: receipt.id },
+        data: { isClosed: true, createdAt: new Date(Date.now() - (3 - i) * 60_000) },
+      });
+    }
+
+    const firstPage = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts?onlyClosed=true&limit=10',
+      token: user.token,
+    });
+    assert.equal(firstPage.statusCode, 200, firstPage.body);
+    assert.equal(firstPage.json().total, 2);
+    assert.deepEqual(
+      firstPage.json().receipts.map((receipt: { title: string }) => receipt.title),
+      ['Fechado 3', 'Fechado 2']
+    );
+
+    const nextPage = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts?onlyClosed=true&limit=1&offset=2',
+      token: user.token,
+    });
+    assert.equal(nextPage.json().receipts.length, 0);
+  });
+
+  it('aplica o limite de histórico ao detalhe, às exportações e ao dashboard', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxHistoryReceipts: 1, features: { dashboard: true, excelExport: true } });
+
+    const receipts = [];
+    for (const [index, title] of ['Antigo', 'Recente'].entries()) {
+      const { receipt, creatorParticipant } = await createReceipt(ctx, user, { title });
+      await ctx.prisma.receipt.update({
+        where: { id: receipt.id },
+        data: { date: new Date('2025-03-10T15:00:00Z'), createdAt: new Date(Date.now() - (2 - index) * 60_000) },
+      });
+      await createItem(ctx, receipt, creatorParticipant, { price: 10 });
+      const close = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: user.token });
+      assert.equal(close.statusCode, 200, close.body);
+      receipts.push(receipt);
+    }
+    const [older, newer] = receipts;
+
+    const hidden = await ctx.request({ method: 'GET', url: `/api/receipts/${older.id}`, token: user.token });
+    assert.equal(hidden.statusCode, 403, hidden.body);
+    assert.equal(hidden.json().error.code, 'RECEIPT_OUTSIDE_HISTORY');
+
+    const visible = await ctx.request({ method: 'GET', url: `/api/receipts/${newer.id}`, token: user.token });
+    assert.equal(visible.statusCode, 200, visible.body);
+
+    const exported = await ctx.request({ method: 'GET', url: `/api/receipts/${older.id}/export.csv`, token: user.token });
+    assert.equal(exported.statusCode, 403, exported.body);
+
+    const stats = await ctx.request({
+      method: 'GET',
+      url: '/api/receipts/dashboard-stats?from=2025-03-01&to=2025-03-31',
+      token: user.token,
+    });
+    assert.equal(stats.statusCode, 200, stats.body);
+    assert.equal(stats.json().summary.receiptCount, 1);
+
+    const history = await ctx.request({
+      method: 'GET',
+      url: '/api/me/expenses/export.csv?from=2025-03-01&to=2025-03-31',
+      token: user.token,
+    });
+    assert.equal(history.statusCode, 200, history.body);
+    assert.ok(history.body.includes(newer.id));
+    assert.ok(!history.body.includes(older.id));
+  });
+
+  it('não ultrapassa o limite mensal com criações simultâneas', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { maxReceiptsPerMonth: 2 });
+
+    const responses = await Promise.all(
+      [1, 2, 3, 4].map((n) =>
+        ctx.request({ method: 'POST', url: '/api/receipts', token: user.token, payload: { title: `Recibo ${n}` } })
+      )
+    );
+    assert.deepEqual(responses.map((response) => response.statusCode).sort(), [201, 201, 403, 403]);
+    assert.equal(await ctx.prisma.receipt.count({ where: { creatorId: user.id } }), 2);
+  });
+
+  it('mostra o consumo atual de cada limite', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, {
+      name: 'basico',
+      maxReceiptsPerMonth: 5,
+      maxParticipantsPerReceipt: 4,
+      maxHistoryReceipts: null,
+    });
+
+    const { receipt } = await createReceipt(ctx, user);
+    await createParticipant(ctx, receipt, { name: 'Convidado' });
+    const { receipt: closed } = await createReceipt(ctx, user);
+    await ctx.prisma.receipt.update({ where: { id: closed.id }, data: { isClosed: true } });
+
+    const response = await ctx.request({ method: 'GET', url: '/api/me/usage', token: user.token });
+    assert.equal(response.statusCode, 200, response.body);
+
+    const usage = response.json();
+    assert.deepEqual(usage.plan, { name: 'basico', displayName: 'Plano basico' });
+    assert.deepEqual(usage.receiptsPerMonth, { used: 2, limit: 5, remaining: 3 });
+    assert.deepEqual(usage.participantsPerReceipt, { used: 2, limit: 4, remaining: 2 });
+    assert.deepEqual(usage.historyReceipts, { used: 1, limit: null, remaining: null });
+    assert.ok(new Date(usage.period.start) <= new Date() && new Date() < new Date(usage.period.end));
+  });
+});
@@ -0,0 +1,284 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { createTestApp, TestApp } from './helpers/app';
+import {
+  createItem,
+  createParticipant,
+  createReceipt,
+  createUser,
+  subscribeToPlan,
+} from './helpers/factories';
+
+describe('exportação de recibos', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  async function createClosedReceipt(creator: Awaited<ReturnType<typeof createUser>>) {
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator, {
+      title: 'Pizza de sexta',
+      serviceChargePercent: 10,
+      cover: 5,
+    });
+    const guest = await createParticipant(ctx, receipt, { name: 'Bruno' });
+
+    await createItem(ctx, receipt, creatorParticipant, { name: 'Pizza', price: 60 });
+    const shared = await createItem(ctx, receipt, creatorParticipant, { name: 'Refrigerante', price: 10 });
+    await ctx.prisma.receiptItem.update({ where: { id: shared.id }, data: { splitMode: 'equal' } });
+    await ctx.prisma.receiptItemShare.createMany({
+      data: [
+        { itemId: shared.id, participantId: creatorParticipant.id },
+        { itemId: shared.id, participantId: guest.id },
+      ],
+    });
+
+    const close = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/close`,
+      token: creator.token,
+    });
+    assert.equal(close.statusCode, 200, close.body);
+
+    return { receipt, creatorParticipant, guest };
+  }
+
+  it('gera o PDF do recibo fechado para planos com o recurso', async () => {
+    const creator = await createUser(ctx);
+    await subscribeToPlan(ctx, creator, { features: { pdfExport: true } });
+    const { receipt } = await createClosedReceipt(creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.pdf`,
+      token: creator.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    assert.equal(response.headers['content-type'], 'application/pdf');
+    assert.equal(response.headers['content-disposition'], 'attachment; filename="recibo-pizza-de-sexta.pdf"');
+    assert.equal(response.rawPayload.subarray(0, 5).toString(), '%PDF-');
+  });
+
+  it('calcula o extrato de cada pessoa como no fechamento', async () => {
+    const { getReceiptStatement } =
+      require('../src/utils/receipt-statement') as typeof import('../src/utils/receipt-statement');
+    const creator = await createUser(ctx, { name: 'Ana' });
+    const { receipt, creatorParticipant, guest } = await createClosedReceipt(creator);
+
+    const statement = await getReceiptStatement(receipt.id);
+    assert.ok(statement);
+
+    assert.deepEqual(
+      statement.participants.map((p) => [p.participantId, p.itemsTotal, p.serviceCharge, p.cover, p.total]),
+      [
+        [creatorParticipant.id, 65, 6.5, 5, 76.5],
+        [guest.id, 5, 0.5, 5, 10.5],
+      ]
+    );
+    assert.deepEqual(
+      statement.participants[1].lines.map((line) => [line.name, line.amount, line.isShared]),
+      [['Refrigerante', 5, true]]
+    );
+    assert.equal(statement.total, 87);
+
+    const expenses = await ctx.prisma.userReceiptExpense.findFirstOrThrow({ where: { receiptId: receipt.id } });
+    assert.equal(Number(expenses.totalSpent), statement.participants[0].total);
+  });
+
+  it('exige o recibo fechado', async () => {
+    const creator = await createUser(ctx);
+    await subscribeToPlan(ctx, creator, { features: { pdfExport: true } });
+    const { receipt } = await createReceipt(ctx, creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.pdf`,
+      token: creator.token,
+    });
+
+    assert.equal(response.statusCode, 400, response.body);
+    assert.equal(response.json().error.code, 'RECEIPT_NOT_CLOSED');
+  });
+
+  it('responde 402 quando o plano não inclui a exportação em PDF', async () => {
+    const creator = await createUser(ctx);
+    await subscribeToPlan(ctx, creator, { features: { dashboard: true } });
+    await subscribeToPlan(ctx, await createUser(ctx), { name: 'pro', features: { pdfExport: true } });
+    const { receipt } = await createClosedReceipt(creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.pdf`,
+      token: creator.token,
+    });
+
+    assert.equal(response.statusCode, 402, response.body);
+    assert.equal(response.json().error.upgrade.feature, 'pdfExport');
+  });
+
+  it('não exporta recibos de que o usuário não participa', async () => {
+    const creator = await createUser(ctx);
+    const outsider = await createUser(ctx);
+    await subscribeToPlan(ctx, outsider, { features: { pdfExport: true } });
+    const { receipt } = await createClosedReceipt(creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.pdf`,
+      token: outsider.token,
+    });
+
+    assert.equal(response.statusCode, 403, response.body);
+  });
+
+  it('exporta o recibo em XLSX com itens, participantes e totais', async () => {
+    const creator = await createUser(ctx, { name: 'Ana' });
+    await subscribeToPlan(ctx, creator, { features: { excelExport: true } });
+    const { receipt } = await createClosedReceipt(creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.xlsx`,
+      token: creator.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    assert.equal(
+      response.headers['content-disposition'],
+      'attachment; filename="recibo-pizza-de-sexta.xlsx"'
+    );
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(response.rawPayload as unknown as ExcelJS.Buffer);
+
+    assert.deepEqual(
+      workbook.worksheets.map((sheet) => sheet.name),
+      ['Itens', 'Participantes', 'Totais']
+    );
+    assert.equal(workbook.getWorksheet('Itens')!.rowCount, 4);
+    assert.deepEqual((workbook.getWorksheet('Participantes')!.getRow(3).values as unknown[]).slice(1), [
+      'Bruno',
+      'Não',
+      5,
+      0.5,
+      5,
+      10.5,
+    ]);
+  });
+
+  it('exporta uma planilha do recibo em CSV', async () => {
+    const creator = await createUser(ctx, { name: 'Ana' });
+    await subscribeToPlan(ctx, creator, { features: { excelExport: true } });
+    const { receipt } = await createClosedReceipt(creator);
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/export.csv?sheet=participants`,
+      token: creator.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    assert.match(String(response.headers['content-type']), /^text\/csv/);
+    assert.deepEqual(response.body.replace(/^\uFEFF/, '').trim().split('\r\n'), [
+      'Participante,Criador,Itens,Taxa de serviço,Cover,Total',
+      'Ana,Sim,65,6.5,5,76.5',
+      'Bruno,Não,5,0.5,5,10.5',
+    ]);
+  });
+
+  it('exporta o histórico de despesas do período em lotes', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { excelExport: true } });
+    const { receipt, creatorParticipant } = await createReceipt(ctx, user, { title: 'Almoço' });
+
+    // Mais linhas que um lote, para passar pela paginação
+    await ctx.prisma.$executeRaw`
+      INSERT INTO user_receipt_expenses
+        (id, user_id, receipt_id, participant_id, total_spent, receipt_title, receipt_date, is_closed, updated_at)
+      SELECT gen_random_uuid(), ${user.id}::uuid, ${receipt.id}::uuid, ${creatorParticipant.id}::uuid, 10,
+        'Almoço ' || n, TIMESTAMPTZ '2025-01-01 12:00:00+00' + ((n % 28) * INTERVAL '1 day'), true, now()
+      FROM generate_series(1, 520) AS n
+    `;
+    await ctx.prisma.userReceiptExpense.create({
+      data: {
+        userId: user.id,
+        receiptId: receipt.id,
+        participantId: creatorParticipant.id,
+        totalSpent: 99,
+        receiptTitle: 'Fora do período',
+        receiptDate: new Date(Date.UTC(2025, 1, 1, 12)),
+        isClosed: true,
+      },
+    });
+    // Despesa de recibo em aberto fica de fora, como no dashboard
+    await ctx.prisma.userReceiptExpense.create({
+      data: {
+        userId: user.id,
+        receiptId: receipt.id,
+        participantId: creatorParticipant.id,
+        totalSpent: 7,
+        receiptTitle: 'Ainda aberto',
+        receiptDate: new Date(Date.UTC(2025, 0, 15, 12)),
+        isClosed: false,
+      },
+    });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/me/expenses/export.csv?from=2025-01-01&to=2025-01-31',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 200, response.body);
+    assert.equal(
+      response.headers['content-disposition'],
+      'attachment; filename="despesas_2025-01-01_2025-01-31.csv"'
+    );
+
+    const lines = response.body.trim().split('\r\n');
+    assert.equal(lines.length, 521);
+    assert.match(lines[1], /^2025-01-01,Almoço \d+,0,0,0,10,/);
+    assert.ok(!response.body.includes('Fora do período'));
+    assert.ok(!response.body.includes('Ainda aberto'));
+  });
+
+  it('recusa período com início depois do fim', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { excelExport: true } });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/me/expenses/export.xlsx?from=2025-02-01&to=2025-01-01',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 400, response.body);
+    assert.equal(response.json().error.code, 'INVALID_DATE_RANGE');
+  });
+
+  it('responde 402 quando o plano não inclui a exportação em planilha', async () => {
+    const user = await createUser(ctx);
+    await subscribeToPlan(ctx, user, { features: { pdfExport: true } });
+    await subscribeToPlan(ctx, await createUser(ctx), { name: 'pro', features: { excelExport: true } });
+
+    const response = await ctx.request({
+      method: 'GET',
+      url: '/api/me/expenses/export.csv',
+      token: user.token,
+    });
+
+    assert.equal(response.statusCode, 402, response.body);
+    assert.equal(response.json().error.upgrade.feature, 'excelExport');
+  });
+});
@@ -0,0 +1,295 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createItem, createParticipant, createReceipt, createUser } from './helpers/factories';
+
+describe('ciclo de vida do recibo', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('cria, recebe participante por convite, adiciona itens e fecha', async () => {
+    const creator = await createUser(ctx, { name: 'Criadora' });
+    const guest = await createUser(ctx, { name: 'Convidado' });
+
+    const created = await ctx.request({
+      method: 'POST',
+      url: '/api/receipts',
+      token: creator.token,
+      payload: { title: 'Jantar', serviceChargePercent: 10 },
+    });
+    assert.equal(created.statusCode, 201, created.body);
+    const receipt = created.json().receipt;
+    assert.equal(receipt.participants.length, 1);
+
+    // Convidado encontra o recibo pelo código e pede para entrar
+    const byInvite = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/invite/${receipt.inviteCode}`,
+      token: guest.token,
+    });
+    assert.equal(byInvite.statusCode, 200, byInvite.body);
+
+    const join = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/request-join`,
+      token: guest.token,
+      payload: {},
+    });
+    assert.equal(join.statusCode, 201, join.body);
+
+    const approve = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/pending/${join.json().pendingParticipant.id}/approve`,
+      token: creator.token,
+    });
+    assert.equal(approve.statusCode, 200, approve.body);
+
+    const withGuest = await ctx.request({ method: 'GET', url: `/api/receipts/${receipt.id}`, token: guest.token });
+    assert.equal(withGuest.statusCode, 200, withGuest.body);
+    const participants = withGuest.json().receipt.participants;
+    assert.equal(participants.length, 2);
+    const guestParticipant = participants.find((p: { userId?: string }) => p.userId === guest.id);
+
+    const items = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/items/batch`,
+      token: creator.token,
+      payload: {
+        items: [
+          { name: 'Pizza', price: 60, quantity: 1 },
+          { name: 'Refrigerante', price: 8, quantity: 2, participantId: guestParticipant.id },
+        ],
+      },
+    });
+    assert.equal(items.statusCode, 201, items.body);
+
+    const closed = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(closed.statusCode, 200, closed.body);
+    assert.equal(closed.json().receipt.isClosed, true);
+    // (60 + 16) + 10% de serviço
+    assert.equal(closed.json().receipt.total, 83.6);
+
+    const expenses = await ctx.prisma.userReceiptExpense.findMany({
+      where: { receiptId: receipt.id },
+      orderBy: { totalSpent: 'asc' },
+    });
+    assert.deepEqual(
+      expenses.map((expense) => [expense.userId, Number(expense.totalSpent)]),
+      [
+        [guest.id, 17.6],
+        [creator.id, 66],
+      ]
+    );
+  });
+
+  it('não fecha duas vezes nem aceita itens depois de fechado', async () => {
+    const creator = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator);
+    await createItem(ctx, receipt, creatorParticipant, { price: 25 });
+
+    const first = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(first.statusCode, 200, first.body);
+
+    const second = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(second.statusCode, 400);
+    assert.equal(second.json().error.code, 'RECEIPT_CLOSED');
+
+    const item = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/items`,
+      token: creator.token,
+      payload: { name: 'Sobremesa', price: 12 },
+    });
+    assert.equal(item.statusCode, 400);
+    assert.equal(item.json().error.code, 'RECEIPT_CLOSED');
+
+    // Taxa e cover não mudam depois do fechamento, e o PUT não reabre o recibo
+    const fees = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}`,
+      token: creator.token,
+      payload: { cover: 5 },
+    });
+    assert.equal(fees.statusCode, 400);
+    assert.equal(fees.json().error.code, 'RECEIPT_CLOSED');
+
+    const reopen = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}`,
+      token: creator.token,
+      payload: { title: 'Renomeado', isClosed: false },
+    });
+    assert.equal(reopen.statusCode, 200, reopen.body);
+    assert.equal(reopen.json().receipt.isClosed, true);
+
+    assert.equal(await ctx.prisma.userReceiptExpense.count({ where: { receiptId: receipt.id } }), 1);
+  });
+
+  it('fecha uma vez só com pedidos simultâneos e não remove participantes depois', async () => {
+    const creator = await createUser(ctx);
+    const guest = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator);
+    const guestParticipant = await createParticipant(ctx, receipt, { user: guest });
+    await createItem(ctx, receipt, creatorParticipant, { price: 30 });
+    await createItem(ctx, receipt, guestParticipant, { price: 20 });
+
+    const closes = await Promise.all(
+      [1, 2, 3].map(() =>
+        ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token })
+      )
+    );
+    assert.deepEqual(closes.map((close) => close.statusCode).sort(), [200, 400, 400]);
+    assert.equal(await ctx.prisma.userReceiptExpense.count({ where: { receiptId: receipt.id } }), 2);
+
+    const remove = await ctx.request({
+      method: 'DELETE',
+      url: `/api/receipts/${receipt.id}/participants/${guestParticipant.id}`,
+      token: creator.token,
+    });
+    assert.equal(remove.statusCode, 400, remove.body);
+    assert.equal(remove.json().error.code, 'RECEIPT_CLOSED');
+    assert.equal(await ctx.prisma.receiptParticipant.count({ where: { receiptId: receipt.id } }), 2);
+  });
+
+  it('reabre a participação de quem fechou e teve a nova entrada aprovada', async () => {
+    const creator = await createUser(ctx);
+    const guest = await createUser(ctx);
+    const { receipt } = await createReceipt(ctx, creator);
+    const guestParticipant = await createParticipant(ctx, receipt, { user: guest });
+
+    const leave = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/participants/${guestParticipant.id}/close`,
+      token: guest.token,
+    });
+    assert.equal(leave.statusCode, 200, leave.body);
+
+    const join = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/request-join`,
+      token: guest.token,
+      payload: {},
+    });
+    assert.equal(join.statusCode, 201, join.body);
+
+    const approve = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/pending/${join.json().pendingParticipant.id}/approve`,
+      token: creator.token,
+    });
+    assert.equal(approve.statusCode, 200, approve.body);
+
+    const back = await ctx.request({ method: 'GET', url: `/api/receipts/${receipt.id}`, token: guest.token });
+    assert.equal(back.statusCode, 200, back.body);
+    const participant = back.json().receipt.participants.find((p: { userId?: string }) => p.userId === guest.id);
+    assert.equal(participant.id, guestParticipant.id);
+    assert.equal(participant.isClosed, false);
+  });
+
+  it('fecha a participação de um membro de grupo só no recibo em questão', async () => {
+    const creator = await createUser(ctx);
+    const member = await createUser(ctx);
+
+    const group = await ctx.request({
+      method: 'POST',
+      url: '/api/groups',
+      token: creator.token,
+      payload: { name: 'Amigos', members: [{ userId: member.id }] },
+    });
+    assert.equal(group.statusCode, 201, group.body);
+
+    const createGroupReceipt = async (title: string) => {
+      const response = await ctx.request({
+        method: 'POST',
+        url: '/api/receipts',
+        token: creator.token,
+        payload: { title, groupId: group.json().group.id },
+      });
+      assert.equal(response.statusCode, 201, response.body);
+      return response.json().receipt;
+    };
+
+    const first = await createGroupReceipt('Primeiro');
+    const second = await createGroupReceipt('Segundo');
+    const memberParticipant = first.participants.find((p: { userId?: string }) => p.userId === member.id);
+
+    const close = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${first.id}/participants/${memberParticipant.id}/close`,
+      token: member.token,
+    });
+    assert.equal(close.statusCode, 200, close.body);
+
+    const other = await ctx.request({ method: 'GET', url: `/api/receipts/${second.id}`, token: member.token });
+    assert.equal(other.statusCode, 200, other.body);
+
+    const third = await createGroupReceipt('Terceiro');
+    const thirdMember = third.participants.find((p: { userId?: string }) => p.userId === member.id);
+    assert.equal(thirdMember?.isClosed, false);
+  });
+
+  it('recalcula o total ao dividir e ao desfazer a divisão de um item', async () => {
+    const creator = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator, { serviceChargePercent: 10 });
+    const guestParticipant = await createParticipant(ctx, receipt, { name: 'Bia' });
+
+    const created = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/items`,
+      token: creator.token,
+      payload: { name: 'Bala', price: 0.1 },
+    });
+    assert.equal(created.statusCode, 201, created.body);
+    // 10 centavos + 1 de serviço
+    assert.equal(created.json().receipt.total, 0.11);
+    const url = `/api/receipts/${receipt.id}/items/${created.json().item.id}/shares`;
+
+    const split = await ctx.request({
+      method: 'PUT',
+      url,
+      token: creator.token,
+      payload: {
+        mode: 'equal',
+        shares: [{ participantId: creatorParticipant.id }, { participantId: guestParticipant.id }],
+      },
+    });
+    assert.equal(split.statusCode, 200, split.body);
+    // Meio centavo de serviço para cada um, arredondado por participante
+    assert.equal(split.json().receipt.total, 0.12);
+
+    const undo = await ctx.request({ method: 'DELETE', url, token: creator.token });
+    assert.equal(undo.statusCode, 200, undo.body);
+    assert.equal(undo.json().receipt.total, 0.11);
+  });
+
+  it('transfere a criação para outro participante', async () => {
+    const creator = await createUser(ctx);
+    const other = await createUser(ctx);
+    const { receipt } = await createReceipt(ctx, creator);
+    const otherParticipant = await createParticipant(ctx, receipt, { user: other });
+
+    const response = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}/transfer-creator`,
+      token: creator.token,
+      payload: { newCreatorParticipantId: otherParticipant.id },
+    });
+    assert.equal(response.statusCode, 200, response.body);
+    assert.equal(response.json().receipt.creatorId, other.id);
+
+    // O antigo criador perde as permissões de criador
+    const close = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(close.statusCode, 403);
+  });
+});
@@ -0,0 +1,144 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createItem, createParticipant, createReceipt, createUser } from './helpers/factories';
+
+describe('acerto de contas', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('grava as transferências no fechamento e ao trocar os pagadores, com cover por pessoa', async () => {
+    const creator = await createUser(ctx);
+    const friend = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator, { cover: 5 });
+    const friendParticipant = await createParticipant(ctx, receipt, { user: friend });
+    await createItem(ctx, receipt, creatorParticipant, { price: 60 });
+    await createItem(ctx, receipt, friendParticipant, { price: 20 });
+
+    const close = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/close`,
+      token: creator.token,
+    });
+    assert.equal(close.statusCode, 200, close.body);
+    // 60 + 20 de itens e 5 de cover para cada um
+    assert.equal(close.json().receipt.total, 90);
+
+    const [first, second] = await Promise.all(
+      [creator, friend].map((user) =>
+        ctx.request({ method: 'GET', url: `/api/receipts/${receipt.id}/settlement`, token: user.token })
+      )
+    );
+    assert.equal(first.statusCode, 200, first.body);
+    assert.deepEqual(first.json().settlement.transfers, second.json().settlement.transfers);
+    assert.equal(first.json().settlement.transfers.length, 1);
+    assert.ok(first.json().settlement.transfers[0].id);
+
+    // O amigo pagou a conta inteira
+    const payers = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}/payers`,
+      token: creator.token,
+      payload: { payers: [{ participantId: friendParticipant.id, amount: 90 }] },
+    });
+    assert.equal(payers.statusCode, 200, payers.body);
+
+    const { settlement } = payers.json();
+    assert.equal(settlement.isBalanced, true);
+    assert.deepEqual(
+      settlement.transfers.map((t: { fromParticipantId: string; toParticipantId: string; amount: number }) => [
+        t.fromParticipantId,
+        t.toParticipantId,
+        t.amount,
+      ]),
+      [[creatorParticipant.id, friendParticipant.id, 65]]
+    );
+    assert.equal(await ctx.prisma.settlementTransfer.count({ where: { receiptId: receipt.id } }), 1);
+  });
+
+  it('só quem recebe ou o criador marca a transferência como paga', async () => {
+    const creator = await createUser(ctx);
+    const debtor = await createUser(ctx);
+    const creditor = await createUser(ctx);
+    const { receipt } = await createReceipt(ctx, creator);
+    const debtorParticipant = await createParticipant(ctx, receipt, { user: debtor });
+    const creditorParticipant = await createParticipant(ctx, receipt, { user: creditor });
+    await createItem(ctx, receipt, debtorParticipant, { price: 40 });
+
+    const payers = await ctx.request({
+      method: 'PUT',
+      url: `/api/receipts/${receipt.id}/payers`,
+      token: creator.token,
+      payload: { payers: [{ participantId: creditorParticipant.id, amount: 40 }] },
+    });
+    assert.equal(payers.statusCode, 200, payers.body);
+
+    const close = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(close.statusCode, 200, close.body);
+
+    const [transfer] = await ctx.prisma.settlementTransfer.findMany({ where: { receiptId: receipt.id } });
+    assert.equal(transfer.fromParticipantId, debtorParticipant.id);
+    const url = `/api/receipts/${receipt.id}/settlement/transfers/${transfer.id}`;
+
+    const byDebtor = await ctx.request({ method: 'PATCH', url, token: debtor.token, payload: { isPaid: true } });
+    assert.equal(byDebtor.statusCode, 403, byDebtor.body);
+    assert.equal(byDebtor.json().error.code, 'TRANSFER_UPDATE_DENIED');
+
+    const byCreditor = await ctx.request({ method: 'PATCH', url, token: creditor.token, payload: { isPaid: true } });
+    assert.equal(byCreditor.statusCode, 200, byCreditor.body);
+    assert.equal(byCreditor.json().transfer.isPaid, true);
+  });
+
+  it('cobra o cover de cada participante ativo, mesmo sem itens, e não de quem fechou a participação', async () => {
+    const creator = await createUser(ctx);
+    const friend = await createUser(ctx);
+    const leaver = await createUser(ctx);
+    const { receipt, creatorParticipant } = await createReceipt(ctx, creator, { cover: 5 });
+    const friendParticipant = await createParticipant(ctx, receipt, { user: friend });
+    const leaverParticipant = await createParticipant(ctx, receipt, { user: leaver });
+    await createItem(ctx, receipt, creatorParticipant, { price: 30 });
+    await createItem(ctx, receipt, leaverParticipant, { price: 10 });
+
+    const leave = await ctx.request({
+      method: 'POST',
+      url: `/api/receipts/${receipt.id}/participants/${leaverParticipant.id}/close`,
+      token: leaver.token,
+    });
+    assert.equal(leave.statusCode, 200, leave.body);
+
+    const close = await ctx.request({ method: 'POST', url: `/api/receipts/${receipt.id}/close`, token: creator.token });
+    assert.equal(close.statusCode, 200, close.body);
+    // 30 + 10 de itens e cover só para o criador e o amigo
+    assert.equal(close.json().receipt.total, 50);
+
+    const settlement = await ctx.request({
+      method: 'GET',
+      url: `/api/receipts/${receipt.id}/settlement`,
+      token: creator.token,
+    });
+    assert.equal(settlement.statusCode, 200, settlement.body);
+    const owed = new Map(
+      settlement
+        .json()
+        .settlement.transfers.map((t: { fromParticipantId: string; amount: number }) => [t.fromParticipantId, t.amount])
+    );
+    assert.deepEqual(
+      owed,
+      new Map([
+        [friendParticipant.id, 5],
+        [leaverParticipant.id, 10],
+      ])
+    );
+  });
+});
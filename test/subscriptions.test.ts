@@ -0,0 +1,70 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestApp } from './helpers/app';
+import { createPlan, createUser } from './helpers/factories';
+
+describe('assinaturas', () => {
+  let ctx: TestApp;
+
+  before(async () => {
+    ctx = await createTestApp();
+  });
+
+  after(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    await ctx.reset();
+  });
+
+  it('renova o plano cancelado sem agendar uma nova assinatura', async () => {
+    const user = await createUser(ctx);
+    const plan = await createPlan(ctx, { priceMonthly: 20 });
+
+    const subscribed = await ctx.request({
+      method: 'POST',
+      url: '/api/subscriptions',
+      token: user.token,
+      payload: { planId: plan.id },
+    });
+    assert.equal(subscribed.statusCode, 200, subscribed.body);
+    assert.equal(subscribed.json().change, 'new');
+
+    const cancelled = await ctx.request({ method: 'POST', url: '/api/subscriptions/cancel', token: user.token });
+    assert.equal(cancelled.statusCode, 200, cancelled.body);
+
+    const renewed = await ctx.request({
+      method: 'POST',
+      url: '/api/subscriptions',
+      token: user.token,
+      payload: { planId: plan.id },
+    });
+    assert.equal(renewed.statusCode, 200, renewed.body);
+    assert.equal(renewed.json().change, 'renewal');
+    assert.equal(renewed.json().subscription.id, subscribed.json().subscription.id);
+    assert.equal(renewed.json().subscription.status, 'active');
+    assert.equal(renewed.json().expiresAt, subscribed.json().expiresAt);
+
+    assert.equal(await ctx.prisma.userSubscription.count({ where: { userId: user.id } }), 1);
+  });
+
+  it('mantém uma única assinatura ativa com pedidos simultâneos', async () => {
+    const user = await createUser(ctx);
+    const plans = await Promise.all([20, 30, 40].map((priceMonthly) => createPlan(ctx, { priceMonthly })));
+
+    const responses = await Promise.all(
+      plans.map((plan) =>
+        ctx.request({ method: 'POST', url: '/api/subscriptions', token: user.token, payload: { planId: plan.id } })
+      )
+    );
+    for (const response of responses) {
+      assert.equal(response.statusCode, 200, response.body);
+    }
+
+    const active = await ctx.prisma.userSubscription.findMany({
+      where: { userId: user.id, status: 'active', startedAt: { lte: new Date() } },
+    });
+    assert.equal(active.length, 1);
+  });
+});